@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { eventLabel, formatDateKey } from "../lib/scoring";
+import { BUILTIN_PROFILES, loadProfiles, type ParamProfile } from "../lib/profiles";
+import { paramsFromBundle, parseBundle } from "../lib/paramBundle";
+import { abSummary, type ABRow, type ABSide } from "../lib/abCompare";
+
+/* ---------- A/B 对比：选择 B（方案或参数包），逐日列出分数对与变化最大的因子 ---------- */
+export default function ABComparePanel({
+  side, rows, onChange, onSelect
+}:{
+  side: ABSide|null;
+  rows: ABRow[];
+  onChange: (s:ABSide|null)=>void;
+  onSelect?: (key:string)=>void;     // 点击某天：展开对应卡片
+}){
+  const [profiles,setProfiles] = useState<ParamProfile[]>(BUILTIN_PROFILES);
+  const [errors,setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement|null>(null);
+
+  // 本地方案可能刚在方案库里保存过：挂载与聚焦下拉框时都重新读取
+  const refreshProfiles = ()=>setProfiles([...BUILTIN_PROFILES, ...loadProfiles()]);
+  useEffect(refreshProfiles,[]);
+
+  async function importFile(file:File){
+    try{
+      const { bundle, errors } = parseBundle(JSON.parse(await file.text()), { name:file.name.replace(/\.json$/i, "") });
+      setErrors(errors);
+      // 包内带两事件各自的一套（byEvent）时分别取用，只有一套时日出、日落都用它
+      if(bundle) onChange({ name:bundle.meta.name, params:{ sunset:paramsFromBundle(bundle, "sunset"), sunrise:paramsFromBundle(bundle, "sunrise") } });
+    }catch(e:any){
+      setErrors([`JSON 解析失败 / Invalid JSON：${e?.message || e}`]);
+    }finally{
+      if(fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  const sum = abSummary(rows);
+  const sign = (d:number)=> d>0 ? `+${d}` : `${d}`;
+  const tone = (d:number)=> d>0 ? "text-emerald-700" : d<0 ? "text-rose-700" : "text-gray-500";
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="text-xs text-gray-600">
+        A = 当前参数，B = 选中的方案或参数包；两者对同一份预报打分。卡片的计算细节中会并列 B 的贡献并高亮变化的因子。
+        A is the current profile, B the chosen one; both score the same forecast.
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+          value=""
+          onFocus={refreshProfiles}
+          onChange={(e)=>{
+            const p = profiles.find(x=>x.id===e.target.value);
+            if(p){ setErrors([]); onChange({ name:p.name, params:p.params }); }
+          }}
+        >
+          <option value="" disabled>从方案选择 B / Pick a profile…</option>
+          {profiles.map(p=>(<option key={p.id} value={p.id}>{p.name}</option>))}
+        </select>
+        <input ref={fileRef} type="file" accept="application/json" className="hidden"
+          onChange={(e)=>{ const f = e.target.files?.[0]; if(f) void importFile(f); }} />
+        <Button variant="secondary" onClick={()=>fileRef.current?.click()}>导入参数包 / Load bundle</Button>
+        {side && <Button variant="secondary" onClick={()=>{ onChange(null); setErrors([]); }}>关闭对比 / Clear</Button>}
+      </div>
+
+      {errors.length>0 && (
+        <ul className="list-disc rounded-lg border border-amber-200 bg-amber-50 py-2 pl-8 pr-3 text-xs text-amber-800">
+          {errors.map((e,i)=>(<li key={i} className="font-mono">{e}</li>))}
+        </ul>
+      )}
+
+      {side && rows.length>0 && (
+        <>
+          <div className="text-xs text-gray-700">
+            B：<b>{side.name}</b> · 平均分差 / mean Δ <span className={tone(Math.round(sum.meanDelta))}>{sum.meanDelta>=0 ? "+" : ""}{sum.meanDelta.toFixed(1)}</span>
+            {sum.largest && <> · 最大变化 / largest {formatDateKey(sum.largest.dateKey, { month:"short", day:"numeric" })} <span className={tone(sum.largest.delta!)}>{sign(sum.largest.delta!)}</span></>}
+            {" "}· 分级变化 / tier changes {sum.tierChanges}/{sum.n}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="py-1 pr-3">日期 / Date</th>
+                  <th className="py-1 pr-3">A</th>
+                  <th className="py-1 pr-3">B</th>
+                  <th className="py-1 pr-3">Δ</th>
+                  <th className="py-1">主要变化因子 / Top factor changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r=>{
+                  const top = r.factors.filter(f=>f.changed).sort((x,y)=>Math.abs(y.delta)-Math.abs(x.delta)).slice(0,3);
+                  return (
+                    <tr key={r.key} className="border-t cursor-pointer hover:bg-orange-50" onClick={()=>onSelect?.(r.key)}>
+                      <td className="py-1 pr-3">
+                        {formatDateKey(r.dateKey)}
+                        <span className="text-gray-400"> · {eventLabel(r.event)}</span>
+                      </td>
+                      <td className="py-1 pr-3 tabular-nums">{r.a?.score ?? "—"}</td>
+                      <td className="py-1 pr-3 tabular-nums">{r.b?.score ?? "—"}</td>
+                      <td className={`py-1 pr-3 tabular-nums ${r.delta!=null ? tone(r.delta) : ""}`}>{r.delta!=null ? sign(r.delta) : "—"}</td>
+                      <td className="py-1">
+                        {top.length ? top.map(f=>(
+                          <span key={f.key} className={`mr-2 ${tone(f.delta)}`}>{f.label.split(" / ")[0]} {f.delta>0 ? "+" : ""}{f.delta.toFixed(1)}</span>
+                        )) : <span className="text-gray-400">无变化 / unchanged</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import {
+  AGG_KERNELS, AGG_SIDE_RANGE, describeAggregation, factorDef,
+  type Aggregation, type AggKernel, type AggStat, type FactorAgg, type FactorDef, type FactorKey,
+} from "../lib/scoring";
+
+const STATS: { id: AggStat; label: string }[] = [
+  { id: "mean",       label: "加权均值 / Mean" },
+  { id: "min",        label: "最小 / Min" },
+  { id: "max",        label: "最大 / Max" },
+  { id: "percentile", label: "分位数 / Percentile" },
+];
+
+const selectCls = "rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none";
+
+/* ---------- 窗口聚合：时间核、前后窗口、各因子统计量 ----------
+   value 省略 = 等权均值、对称窗口；恢复为该状态时回调 undefined，导出的参数里也就不带聚合字段 */
+export default function AggregationPanel({
+  value, onChange, factors, windowMinutes
+}:{
+  value?: Aggregation;
+  onChange: (a:Aggregation|undefined)=>void;
+  factors: FactorDef[];           // 参与计分的因子（不含地平线）
+  windowMinutes: number;
+}){
+  const agg: Aggregation = value ?? { kernel: "uniform" };
+  const [lo, hi] = AGG_SIDE_RANGE;
+
+  // 去掉默认项后为空则视为未设置
+  function update(next:Aggregation){
+    const factorsSet = Object.fromEntries(Object.entries(next.factors ?? {}).filter(([,s])=>s && s.stat!=="mean"));
+    const clean: Aggregation = {
+      kernel: next.kernel,
+      ...(next.before!=null && next.before!==1 ? { before: next.before } : {}),
+      ...(next.after!=null && next.after!==1 ? { after: next.after } : {}),
+      ...(Object.keys(factorsSet).length ? { factors: factorsSet } : {}),
+    };
+    const isDefault = clean.kernel==="uniform" && Object.keys(clean).length===1;
+    onChange(isDefault ? undefined : clean);
+  }
+  function setFactor(key:FactorKey, spec:FactorAgg){ update({ ...agg, factors: { ...agg.factors, [key]: spec } }); }
+
+  const minutes = (x?:number)=>Math.round((x ?? 1)*windowMinutes);
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">时间核 / Kernel：</span>
+        {AGG_KERNELS.map(k=>(
+          <Button key={k.id} variant={agg.kernel===k.id ? "default" : "secondary"} className="px-2 py-1 text-xs"
+            onClick={()=>update({ ...agg, kernel: k.id as AggKernel })}>{k.label}</Button>
+        ))}
+      </div>
+      <div className="text-[11px] text-gray-500">
+        三角核在窗口边缘降到 0，高斯核 σ 为该侧窗口的一半：越靠近事件时刻的小时权重越大。
+        Kernels weight hours closer to the event more heavily.
+      </div>
+
+      <div className="grid gap-2 md:grid-cols-2">
+        {(["before","after"] as const).map(side=>(
+          <div key={side}>
+            <div className="mb-1 text-xs text-gray-600">
+              {side==="before" ? "事件前 / Before" : "事件后 / After"}：{minutes(agg[side])} 分钟（×{(agg[side] ?? 1).toFixed(2)}）
+            </div>
+            <Slider value={[agg[side] ?? 1]} min={lo} max={hi} step={0.25}
+              onValueChange={(v)=>update({ ...agg, [side]: v[0] })}/>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-1">
+        <div className="text-xs text-gray-600">各因子统计量 / Per-factor statistic</div>
+        {factors.map(f=>{
+          const spec = agg.factors?.[f.key] ?? { stat: "mean" as AggStat };
+          return (
+            <div key={f.key} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="w-28 truncate text-gray-700" title={f.label}>{f.short}</span>
+              <select className={selectCls} value={spec.stat}
+                onChange={(e)=>{
+                  const stat = e.target.value as AggStat;
+                  setFactor(f.key, stat==="percentile" ? { stat, p: spec.p ?? 90 } : { stat });
+                }}>
+                {STATS.map(s=>(<option key={s.id} value={s.id}>{s.label}</option>))}
+              </select>
+              {spec.stat==="percentile" && (
+                <label className="inline-flex items-center gap-1 text-gray-600">
+                  P
+                  <input type="number" min={0} max={100} step={5} value={spec.p ?? 90}
+                    className="w-16 rounded border border-gray-300 px-1 py-0.5"
+                    onChange={(e)=>{ const p = Math.max(0, Math.min(100, +e.target.value || 0)); setFactor(f.key, { stat: "percentile", p }); }}/>
+                </label>
+              )}
+            </div>
+          );
+        })}
+        <div className="text-[11px] text-gray-500">
+          例：低云取 P90 或最大值 = 按窗口内最坏情况计分。Tip: P90 or max low cloud scores the worst case in the window.
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+        <span>当前 / Current：{describeAggregation(value, windowMinutes, k=>factorDef(k as FactorKey).short)}</span>
+        {value && <Button variant="secondary" className="px-2 py-1 text-xs" onClick={()=>onChange(undefined)}>恢复默认 / Reset</Button>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Slider } from "./ui/slider";
+import LocationPanel from "./LocationPanel";
+import DayCard from "./DayCard";
+import { History, Loader2, X } from "lucide-react";
+import {
+  defaultEventParams, bandsFromModels, eventLabel, formatDateKey, SCORE_TIERS,
+  type EventParams, type SunEvent,
+} from "../lib/scoring";
+import { getProvider, staleWhileRevalidate, FIXTURES, type ForecastData, type ProviderId } from "../lib/weather";
+import {
+  backtestScores, attachObservations, backtestMetrics, daysBetween,
+  BACKTEST_MAX_DAYS, OBSERVATION_RADIUS_KM, type BacktestRow,
+} from "../lib/backtest";
+import { localDateKey } from "../lib/observation";
+import { loadPosts } from "../lib/board";
+import { paramsFromBundle, parseBundle } from "../lib/paramBundle";
+
+const BASELINE = "default";
+const CANDIDATE = "candidate";
+const SERIES = [
+  { key: BASELINE,  label: "默认参数 / Default",  color: "#9ca3af" },
+  { key: CANDIDATE, label: "候选参数 / Candidate", color: "#ea580c" },
+];
+
+function defaultRange(){
+  const end = new Date(); end.setDate(end.getDate()-1);
+  const start = new Date(end); start.setDate(end.getDate()-29);
+  return { start: localDateKey(start), end: localDateKey(end) };
+}
+
+/* ---------- 历史回测：过去的逐小时数据 → 逐日分数，叠加留言板实测 ---------- */
+export default function BacktestView(){
+  const [loc,setLoc] = useState<{ lat:number; lon:number; name:string }|null>(null);
+  const [range,setRange] = useState(defaultRange);
+  const [event,setEvent] = useState<SunEvent>("sunset");
+  const [windowMinutes,setWindowMinutes] = useState(90);
+  const [source,setSource] = useState<ProviderId>("open-meteo");
+
+  const [candidate,setCandidate] = useState<{ name:string; params:EventParams }|null>(null);
+  const [bundleErrors,setBundleErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement|null>(null);
+
+  const [data,setData] = useState<ForecastData|null>(null);
+  const [loading,setLoading] = useState(false);
+  const [status,setStatus] = useState("");
+  const [withObservations,setWithObservations] = useState(true);
+  const [posts,setPosts] = useState<any[]>([]);
+  const [selected,setSelected] = useState<string|null>(null);
+  const [detailOpen,setDetailOpen] = useState(false);
+
+  const onPick = useCallback((c:{ lat:number; lon:number }, name:string)=>{ setLoc({ ...c, name }); },[]);
+
+  const days = daysBetween(range.start, range.end);
+  const rangeError =
+    !Number.isFinite(days) || days<1 ? "结束日期须不早于开始日期 / End must not be before start"
+    : days>BACKTEST_MAX_DAYS ? `最多 ${BACKTEST_MAX_DAYS} 天 / At most ${BACKTEST_MAX_DAYS} days`
+    : range.end >= localDateKey(new Date()) ? "结束日期须早于今天 / End must be before today"
+    : null;
+
+  async function run(){
+    if(!loc || rangeError) return;
+    setLoading(true); setStatus("获取历史数据 / Fetching history…"); setSelected(null);
+    try{
+      const provider = getProvider(source);
+      if(!provider.fetchHistory) throw new Error("该数据源不支持历史数据 / This source has no history");
+      const req = { lat:loc.lat, lon:loc.lon, start:range.start, end:range.end };
+      if(provider.online){
+        const res = await staleWhileRevalidate<ForecastData>(
+          { provider:`${provider.id}-history`, lat:loc.lat, lon:loc.lon, days, range:`${range.start}..${range.end}` },
+          ()=>provider.fetchHistory!(req), (d)=>setData(d),
+        );
+        setStatus(res.offline ? "离线，显示缓存 / Offline, showing cached history" : `已加载 ${days} 天 / Loaded ${days} days`);
+      }else{
+        setData(await provider.fetchHistory(req));
+        setStatus(`离线样例已平铺到所选日期 / Fixture tiled over ${days} days`);
+      }
+      if(withObservations){
+        try{ setPosts(await loadPosts()); }
+        catch(e:any){ setPosts([]); setStatus(s=>`${s} · 留言板加载失败 / Board unavailable`); }
+      }
+    }catch(e:any){
+      console.error(e); setData(null);
+      setStatus(e?.message || "加载失败 / Failed to load");
+    }finally{ setLoading(false); }
+  }
+
+  async function importBundle(file:File){
+    try{
+      const { bundle, errors } = parseBundle(JSON.parse(await file.text()), { name:file.name });
+      setBundleErrors(errors);
+      if(bundle) setCandidate({ name:bundle.meta.name, params:paramsFromBundle(bundle, event) });
+    }catch(e:any){
+      setBundleErrors([`JSON 解析失败 / Invalid JSON：${e?.message || e}`]);
+    }finally{
+      if(fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  const bundles = useMemo(()=>{
+    const b: Record<string, EventParams> = { [BASELINE]: defaultEventParams[event] };
+    if(candidate) b[CANDIDATE] = candidate.params;
+    return b;
+  },[event, candidate]);
+
+  const rows = useMemo<BacktestRow[]>(()=>{
+    if(!data || !loc) return [];
+    const out = backtestScores(data, { lat:loc.lat, lon:loc.lon, start:range.start, end:range.end, event, windowMinutes }, bundles);
+    return withObservations ? attachObservations(out, posts, { lat:loc.lat, lon:loc.lon, event }) : out;
+  },[data, loc, range.start, range.end, event, windowMinutes, bundles, posts, withObservations]);
+
+  const series = SERIES.filter(s=>bundles[s.key]);
+  const selectedRow = rows.find(r=>r.dateKey===selected);
+  const selectedItem = selectedRow ? (selectedRow.scores[CANDIDATE] ?? selectedRow.scores[BASELINE]) : undefined;
+  const selectedParams = selectedRow?.scores[CANDIDATE] ? bundles[CANDIDATE] : bundles[BASELINE];
+  const fmtDate = (key:string)=>formatDateKey(key, { month:"short", day:"numeric" });
+
+  return (
+    <div className="container mx-auto px-4">
+      <div className="flex items-center gap-3 mb-6">
+        <History className="w-9 h-9 text-orange-500"/>
+        <div>
+          <h1 className="text-3xl font-extrabold text-gray-900 leading-tight">Backtest / 历史回测</h1>
+          <p className="text-sm text-gray-600 -mt-1">用过去的天气数据检验一套参数的表现</p>
+        </div>
+      </div>
+
+      <Card className="mb-6 shadow-lg rounded-2xl">
+        <CardContent className="p-4 md:p-6 grid gap-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <LocationPanel onChange={onPick} />
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm grid gap-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm text-gray-600">Start / 开始</label>
+                  <Input type="date" value={range.start} onChange={e=>setRange(r=>({ ...r, start:e.target.value }))}/>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">End / 结束</label>
+                  <Input type="date" value={range.end} onChange={e=>setRange(r=>({ ...r, end:e.target.value }))}/>
+                </div>
+              </div>
+              {rangeError && <div className="text-xs text-amber-700">{rangeError}</div>}
+              <div className="flex flex-wrap items-center gap-2">
+                {(["sunset","sunrise"] as SunEvent[]).map(ev=>(
+                  <Button key={ev} variant={event===ev ? "default" : "secondary"} onClick={()=>setEvent(ev)}>{eventLabel(ev)}</Button>
+                ))}
+                <select
+                  className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+                  value={source}
+                  onChange={(e)=>setSource(e.target.value as ProviderId)}
+                >
+                  <option value="open-meteo">Open-Meteo 历史预报 / Historical forecast</option>
+                  <option value="fixture">{FIXTURES[0].label}</option>
+                </select>
+              </div>
+              <div>
+                <div className="mb-2 text-sm text-gray-600">Window / 可视窗口（±分钟）：{windowMinutes}</div>
+                <Slider value={[windowMinutes]} min={30} max={150} step={15} onValueChange={(v)=>setWindowMinutes(v[0])}/>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-3 rounded-2xl bg-white shadow-sm grid gap-2 text-sm">
+            <div className="text-gray-600">参数包 / Parameter bundle（v2 或 v1 JSON，与默认参数对照）</div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input ref={fileRef} type="file" accept="application/json" className="hidden"
+                onChange={(e)=>{ const f = e.target.files?.[0]; if(f) void importBundle(f); }} />
+              <Button variant="secondary" onClick={()=>fileRef.current?.click()}>导入参数 (JSON)</Button>
+              {candidate && (
+                <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs">
+                  {candidate.name}
+                  <button className="text-gray-400 hover:text-red-600" onClick={()=>setCandidate(null)} title="移除 / Remove"><X className="w-3 h-3"/></button>
+                </span>
+              )}
+              <label className="ml-auto inline-flex items-center gap-2 text-gray-700">
+                <input type="checkbox" checked={withObservations} onChange={(e)=>setWithObservations(e.target.checked)} />
+                叠加留言板实测（{OBSERVATION_RADIUS_KM} km 内）/ Overlay board observations
+              </label>
+            </div>
+            {bundleErrors.length>0 && (
+              <ul className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 list-disc pl-6">
+                {bundleErrors.slice(0,8).map((e,i)=>(<li key={i}>{e}</li>))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button onClick={run} disabled={!loc || !!rangeError || loading} className="gap-2">
+              {loading && <Loader2 className="w-4 h-4 animate-spin"/>} 运行回测 / Run backtest
+            </Button>
+            <span className="text-sm text-gray-600">{status}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {rows.length>0 && (
+        <Card className="mb-6 rounded-2xl shadow-md">
+          <CardContent className="p-4 grid gap-4">
+            <BacktestChart rows={rows} series={series} selected={selected} onSelect={(k)=>{ setSelected(k===selected ? null : k); setDetailOpen(false); }} />
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-left text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="py-1 pr-3">参数 / Bundle</th>
+                    <th className="py-1 pr-3">平均分 / Mean score</th>
+                    <th className="py-1 pr-3">有实测天数 / Days rated</th>
+                    <th className="py-1 pr-3">MAE</th>
+                    <th className="py-1">Spearman ρ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {series.map(s=>{
+                    const m = backtestMetrics(rows, s.key);
+                    const scores = rows.map(r=>r.scores[s.key]?.score).filter((v):v is number => v!=null);
+                    return (
+                      <tr key={s.key} className="border-t">
+                        <td className="py-1 pr-3"><span className="inline-flex h-2 w-2 rounded-full mr-1" style={{ background:s.color }}/>{s.key===CANDIDATE && candidate ? candidate.name : s.label}</td>
+                        <td className="py-1 pr-3 tabular-nums">{scores.length ? Math.round(scores.reduce((a,b)=>a+b,0)/scores.length) : "—"}</td>
+                        <td className="py-1 pr-3 tabular-nums">{m.n}</td>
+                        <td className="py-1 pr-3 tabular-nums">{m.n ? m.mae.toFixed(1) : "—"}</td>
+                        <td className="py-1 tabular-nums">{m.spearman==null ? "—" : m.spearman.toFixed(2)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="text-[11px] text-gray-500">点击图上某天查看当天明细。Click a day on the chart for details. {rows.length} 天 · {fmtDate(rows[0].dateKey)}–{fmtDate(rows[rows.length-1].dateKey)}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedItem && (
+        <div className="max-w-xl">
+          <DayCard
+            item={selectedItem}
+            bands={bandsFromModels(selectedParams.models)}
+            params={selectedParams}
+            windowMinutes={windowMinutes}
+            detailOpen={detailOpen}
+            onToggleDetail={()=>setDetailOpen(o=>!o)}
+            timeZone={data?.timezone}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* 逐日分数折线（每个参数包一条）+ 实测评分圆点；背景横线为分级阈值 */
+function BacktestChart({
+  rows, series, selected, onSelect
+}:{
+  rows: BacktestRow[];
+  series: { key:string; label:string; color:string }[];
+  selected: string|null;
+  onSelect: (dateKey:string)=>void;
+}){
+  const W = 600, H = 180, n = rows.length;
+  const x = (i:number)=> n>1 ? 20 + i/(n-1)*(W-30) : W/2;
+  const y = (score:number)=> H - 16 - score/100*(H-24);
+  const path = (key:string)=>{
+    let d = "", pen = false;
+    rows.forEach((r,i)=>{
+      const s = r.scores[key]?.score;
+      if(s==null){ pen = false; return; }
+      d += `${pen ? "L" : "M"}${x(i)},${y(s)} `; pen = true;
+    });
+    return d;
+  };
+  const tick = Math.max(1, Math.ceil(n/8));
+  return (
+    <div>
+      <div className="mb-1 flex flex-wrap gap-3 text-xs text-gray-600">
+        {series.map(s=>(
+          <span key={s.key} className="inline-flex items-center gap-1"><span className="inline-flex h-2 w-4 rounded" style={{ background:s.color }}/>{s.label}</span>
+        ))}
+        <span className="inline-flex items-center gap-1"><span className="inline-flex h-2 w-2 rounded-full bg-blue-600"/>实测 / Observed</span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-48">
+        {SCORE_TIERS.filter(t=>t.min>0).map(t=>(
+          <g key={t.min}>
+            <line x1={20} x2={W-10} y1={y(t.min)} y2={y(t.min)} stroke="#e5e7eb" />
+            <text x={0} y={y(t.min)+3} fontSize={9} fill="#9ca3af">{t.min}</text>
+          </g>
+        ))}
+        {series.map(s=>(<path key={s.key} d={path(s.key)} fill="none" stroke={s.color} strokeWidth={2} />))}
+        {rows.map((r,i)=>(
+          <g key={r.dateKey}>
+            {r.observed.map((o,j)=>(<circle key={j} cx={x(i)} cy={y(o)} r={3.5} fill="#2563eb" opacity={0.8} />))}
+            {selected===r.dateKey && <line x1={x(i)} x2={x(i)} y1={0} y2={H-16} stroke="#374151" strokeDasharray="3 3" />}
+            {i%tick===0 && (
+              <text x={x(i)} y={H-2} fontSize={9} fill="#6b7280" textAnchor="middle">
+                {formatDateKey(r.dateKey, { month:"numeric", day:"numeric" })}
+              </text>
+            )}
+            <rect x={x(i)-(W-30)/(2*Math.max(1,n-1))} y={0} width={(W-30)/Math.max(1,n-1)} height={H} fill="transparent"
+                  className="cursor-pointer" onClick={()=>onSelect(r.dateKey)}>
+              <title>{`${r.dateKey} · ${series.map(s=>`${s.label.split(" / ")[0]} ${r.scores[s.key]?.score ?? "—"}`).join(" · ")}${r.observed.length ? ` · 实测 ${r.observed.join(", ")}` : ""}`}</title>
+            </rect>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Loader2 } from "lucide-react";
+import {
+  calibrateParams, eventLabel, activeFactors, CALIBRATION_MIN_SAMPLES,
+  type CalibrationResult, type EventParams, type SunEvent, type ScoreTier,
+} from "../lib/scoring";
+import { recordsFromObservations, type CalibrationRecord } from "../lib/observation";
+import { loadPosts } from "../lib/board";
+import { makeBundle } from "../lib/paramBundle";
+
+const SAMPLE_URL = `${import.meta.env.BASE_URL}fixtures/observations-sample.json`;
+
+/* ---------- 自动校准：实测记录 → 拟合权重与模型参数 ---------- */
+export default function CalibrationPanel({
+  event, params, windowMinutes, tiers, onApply
+}:{
+  event: SunEvent;
+  params: EventParams;                 // 当前参数（拟合起点与对照）
+  windowMinutes: number;               // 导出参数包时一并写入
+  tiers?: readonly ScoreTier[];
+  onApply: (p:EventParams)=>void;
+}){
+  const [records,setRecords] = useState<CalibrationRecord[]>([]);
+  const [source,setSource] = useState<string|null>(null);
+  const [skipped,setSkipped] = useState(0);
+  const [result,setResult] = useState<CalibrationResult|null>(null);
+  const [busy,setBusy] = useState(false);
+  const [error,setError] = useState<string|null>(null);
+  const fileRef = useRef<HTMLInputElement|null>(null);
+
+  const usable = records.filter(r=>r.event===event);
+
+  function take(json:unknown, label:string){
+    const { records, skipped } = recordsFromObservations(json);
+    setRecords(records); setSkipped(skipped); setSource(label); setResult(null); setError(null);
+  }
+  async function load(label:string, get:()=>Promise<unknown>){
+    setBusy(true); setError(null);
+    try{ take(await get(), label); }
+    catch(e:any){ setError(`加载失败 / Failed to load：${e?.message || e}`); }
+    finally{ setBusy(false); }
+  }
+  async function importFile(file:File){
+    await load(file.name, async ()=>JSON.parse(await file.text()));
+    if(fileRef.current) fileRef.current.value = "";
+  }
+
+  function run(){
+    setBusy(true); setError(null);
+    // 让出一帧以便显示加载状态（拟合在主线程上同步进行）
+    setTimeout(()=>{
+      try{ setResult(calibrateParams(usable, params)); }
+      catch(e:any){ setResult(null); setError(e?.message || String(e)); }
+      finally{ setBusy(false); }
+    }, 0);
+  }
+
+  function exportResult(){
+    if(!result) return;
+    const { before, after } = result;
+    const bundle = makeBundle(result.params, {
+      windowMinutes, tiers, event,
+      meta: {
+        name: `校准 / Calibrated · ${eventLabel(event)}`,
+        description: `${after.n} 条实测拟合；MAE ${before.mae.toFixed(1)} → ${after.mae.toFixed(1)} / fitted to ${after.n} observations`,
+      },
+    });
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = `sunsetpredictor-params-v2-calibrated-${event}.json`;
+    document.body.appendChild(a); a.click(); a.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  const fmtRho = (r:number|null)=> r==null ? "—" : r.toFixed(2);
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="text-xs text-gray-600">
+        用留言板的实测评分（或导入的 JSON）拟合 {eventLabel(event)} 各计分因子的权重与模型参数，以当前参数为起点。
+        Fits weights and curve parameters to rated observations, starting from the current profile.
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="secondary" disabled={busy} onClick={()=>load("留言板 / Board", ()=>loadPosts())}>从留言板加载 / Load board</Button>
+        <input ref={fileRef} type="file" accept="application/json" className="hidden"
+          onChange={(e)=>{ const f = e.target.files?.[0]; if(f) void importFile(f); }} />
+        <Button variant="secondary" disabled={busy} onClick={()=>fileRef.current?.click()}>导入实测 JSON / Import</Button>
+        <Button variant="secondary" disabled={busy} onClick={()=>load("样例 / Sample", async ()=>{
+          const res = await fetch(SAMPLE_URL);
+          if(!res.ok) throw new Error(`HTTP ${res.status}`);
+          return res.json();
+        })}>样例数据 / Sample</Button>
+      </div>
+
+      {source && (
+        <div className="text-xs text-gray-600">
+          {source}：{records.length} 条可用记录，其中 {eventLabel(event)} {usable.length} 条
+          {skipped>0 && ` · 跳过 ${skipped} 条（缺实测评分或快照）`}
+        </div>
+      )}
+      {error && <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button disabled={busy || usable.length<CALIBRATION_MIN_SAMPLES} onClick={run} className="gap-2">
+          {busy && <Loader2 className="w-4 h-4 animate-spin"/>} 开始拟合 / Fit
+        </Button>
+        {result && (
+          <>
+            <Button onClick={()=>onApply(result.params)}>应用拟合结果 / Apply</Button>
+            <Button variant="secondary" onClick={exportResult}>导出参数 (JSON)</Button>
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div className="overflow-x-auto rounded-xl border border-gray-100 bg-white/70 p-3 text-xs text-gray-700">
+          <table className="min-w-full text-left">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="py-1 pr-3">指标 / Metric</th>
+                <th className="py-1 pr-3">拟合前 / Before</th>
+                <th className="py-1">拟合后 / After</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                <td className="py-1 pr-3">MAE（分）</td>
+                <td className="py-1 pr-3 tabular-nums">{result.before.mae.toFixed(1)}</td>
+                <td className="py-1 tabular-nums">{result.after.mae.toFixed(1)}</td>
+              </tr>
+              <tr className="border-t">
+                <td className="py-1 pr-3">Spearman ρ</td>
+                <td className="py-1 pr-3 tabular-nums">{fmtRho(result.before.spearman)}</td>
+                <td className="py-1 tabular-nums">{fmtRho(result.after.spearman)}</td>
+              </tr>
+              {activeFactors(params.weights).map(f=>(
+                <tr key={f.key} className="border-t">
+                  <td className="py-1 pr-3">权重 {f.short}</td>
+                  <td className="py-1 pr-3 tabular-nums">{(params.weights[f.weightKey] ?? 0).toFixed(2)}</td>
+                  <td className="py-1 tabular-nums">{(result.params.weights[f.weightKey] ?? 0).toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-1 text-[11px] text-gray-500">
+            n = {result.after.n} · {result.sweeps} 轮搜索。样本内误差，记录较少时请谨慎应用。In-sample error; apply with care on small datasets.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
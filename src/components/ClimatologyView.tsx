@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import LocationPanel from "./LocationPanel";
+import { CalendarRange, Loader2 } from "lucide-react";
+import { SCORE_TIERS, defaultEventParams, eventLabel, scoreTheme, type ScoreTier, type SunEvent } from "../lib/scoring";
+import { openMeteoProvider } from "../lib/weather";
+import {
+  computeClimatology, readCachedClimatology, recentYears, isoWeekStart, CLIMATOLOGY_YEARS,
+  type Climatology, type ClimatologyOptions, type ClimatologyWeek,
+} from "../lib/climatology";
+
+type Metric = "median" | "shareGreat" | "shareFire";
+const METRICS: { key: Metric; label: string }[] = [
+  { key: "median",     label: "中位分 / Median" },
+  { key: "shareGreat", label: "Great+ 占比 / Share Great+" },
+  { key: "shareFire",  label: "Fire 占比 / Share Fire" },
+];
+const MONTHS = ["1月 Jan","2月 Feb","3月 Mar","4月 Apr","5月 May","6月 Jun","7月 Jul","8月 Aug","9月 Sep","10月 Oct","11月 Nov","12月 Dec"];
+
+/* ---------- 气候统计：按周的火烧云分数分布（日历热力图） ----------
+   tiers：分级（默认五档），决定配色与 Great+ / Fire 占比的门槛 */
+export default function ClimatologyView({ tiers = SCORE_TIERS }:{ tiers?: readonly ScoreTier[] }){
+  const [loc,setLoc] = useState<{ lat:number; lon:number; name:string }|null>(null);
+  const [event,setEvent] = useState<SunEvent>("sunset");
+  const [yearCount,setYearCount] = useState(3);
+  const [metric,setMetric] = useState<Metric>("median");
+  const [result,setResult] = useState<Climatology|null>(null);
+  const [fromCache,setFromCache] = useState(false);
+  const [progress,setProgress] = useState<[number,number]|null>(null);
+  const [error,setError] = useState<string|null>(null);
+  const [hover,setHover] = useState<ClimatologyWeek|null>(null);
+
+  const onPick = useCallback((c:{ lat:number; lon:number }, name:string)=>{ setLoc({ ...c, name }); },[]);
+
+  const opts: ClimatologyOptions|null = loc ? {
+    lat: loc.lat, lon: loc.lon, event, years: recentYears(yearCount), windowMinutes: 90, params: defaultEventParams[event], tiers,
+  } : null;
+  const optsKey = opts ? JSON.stringify([opts.lat, opts.lon, opts.event, opts.years, tiers.map(t=>t.min)]) : "";
+
+  // 切换地点/事件/年份时先查缓存，命中则直接显示
+  useEffect(()=>{
+    setResult(null); setError(null); setFromCache(false);
+    if(!opts) return;
+    let cancelled = false;
+    void readCachedClimatology(opts).then(c=>{ if(!cancelled && c){ setResult(c); setFromCache(true); } });
+    return ()=>{ cancelled = true; };
+  },[optsKey]);
+
+  async function run(){
+    if(!opts) return;
+    setError(null); setProgress([0, opts.years.length]);
+    try{
+      setResult(await computeClimatology(openMeteoProvider, opts, (d,t)=>setProgress([d,t])));
+      setFromCache(false);
+    }catch(e:any){
+      console.error(e); setError(e?.message || "计算失败 / Failed");
+    }finally{ setProgress(null); }
+  }
+
+  const byWeek = new Map((result?.weeks ?? []).map(w=>[w.week, w]));
+  const refYear = result?.years[result.years.length-1] ?? new Date().getFullYear()-1;
+  // 以参考年份每周周一所在的月份排布日历
+  const weeksOfMonth = MONTHS.map((_,m)=>Array.from({ length: 53 }, (_,i)=>i+1).filter(w=>{
+    const d = isoWeekStart(refYear, w);
+    return d.getFullYear()===refYear ? d.getMonth()===m : (m===0 && w===1);
+  }));
+  const best = [...(result?.weeks ?? [])].filter(w=>w.n>=3).sort((a,b)=>b[metric]-a[metric]).slice(0,5);
+  const fmt = (w:ClimatologyWeek, k:Metric)=> k==="median" ? `${Math.round(w.median)}` : `${Math.round(w[k]*100)}%`;
+  const weekRange = (w:number)=>{
+    const s = isoWeekStart(refYear, w), e = new Date(s); e.setDate(s.getDate()+6);
+    const f = (d:Date)=>d.toLocaleDateString(undefined, { month:"short", day:"numeric" });
+    return `${f(s)}–${f(e)}`;
+  };
+
+  return (
+    <div className="container mx-auto px-4">
+      <div className="flex items-center gap-3 mb-6">
+        <CalendarRange className="w-9 h-9 text-orange-500"/>
+        <div>
+          <h1 className="text-3xl font-extrabold text-gray-900 leading-tight">Climatology / 火烧云气候</h1>
+          <p className="text-sm text-gray-600 -mt-1">哪几个月、哪几周最值得去拍</p>
+        </div>
+      </div>
+
+      <Card className="mb-6 shadow-lg rounded-2xl">
+        <CardContent className="p-4 md:p-6 grid gap-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <LocationPanel onChange={onPick} />
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm grid gap-3 content-start">
+              <div className="flex gap-2">
+                {(["sunset","sunrise"] as SunEvent[]).map(ev=>(
+                  <Button key={ev} variant={event===ev ? "default" : "secondary"} onClick={()=>setEvent(ev)}>{eventLabel(ev)}</Button>
+                ))}
+              </div>
+              <div>
+                <div className="mb-2 text-sm text-gray-600">Years / 统计年数：{yearCount}（{recentYears(yearCount).join(", ")}）</div>
+                <Slider value={[yearCount]} min={CLIMATOLOGY_YEARS[0]} max={CLIMATOLOGY_YEARS[1]} step={1} onValueChange={(v)=>setYearCount(v[0])}/>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <Button onClick={run} disabled={!loc || !!progress} className="gap-2">
+                  {progress && <Loader2 className="w-4 h-4 animate-spin"/>}
+                  {result ? "重新计算 / Recompute" : "计算 / Compute"}
+                </Button>
+                {progress && <span className="text-sm text-gray-600">已完成 {progress[0]}/{progress[1]} 年 / years done</span>}
+                {result && !progress && (
+                  <span className="text-xs text-gray-500">
+                    {fromCache ? "来自缓存 / cached · " : ""}{result.days} 天 · {new Date(result.computedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+              <div className="text-[11px] text-gray-500">使用 Open-Meteo 历史预报与默认参数（±90 分钟），每年一次请求。Uses Open-Meteo historical forecasts and default parameters.</div>
+              {error && <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">{error}</div>}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card className="mb-6 rounded-2xl shadow-md">
+          <CardContent className="p-4 grid gap-4">
+            <div className="flex flex-wrap gap-2">
+              {METRICS.map(m=>(
+                <Button key={m.key} variant={metric===m.key ? "default" : "secondary"} className="px-3 py-1 text-xs" onClick={()=>setMetric(m.key)}>{m.label}</Button>
+              ))}
+            </div>
+
+            <div className="grid gap-1">
+              {MONTHS.map((label, m)=>(
+                <div key={label} className="flex items-center gap-1">
+                  <div className="w-16 shrink-0 text-xs text-gray-600">{label}</div>
+                  {weeksOfMonth[m].map(w=>{
+                    const cell = byWeek.get(w);
+                    return (
+                      <div
+                        key={w}
+                        onMouseEnter={()=>setHover(cell ?? null)}
+                        className="h-8 flex-1 max-w-[4.5rem] rounded-md border text-center text-[11px] leading-8 tabular-nums"
+                        style={cellStyle(cell, metric, tiers)}
+                        title={cell ? `W${w} · ${weekRange(w)} · 中位 ${Math.round(cell.median)} · Great+ ${Math.round(cell.shareGreat*100)}% · Fire ${Math.round(cell.shareFire*100)}% · n=${cell.n}` : `W${w} · 无数据 / no data`}
+                      >
+                        {cell ? fmt(cell, metric) : "—"}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            {hover && (
+              <div className="text-xs text-gray-700">
+                <b>W{hover.week}</b>（{weekRange(hover.week)}）：中位 {Math.round(hover.median)}，四分位 {Math.round(hover.p25)}–{Math.round(hover.p75)}，
+                Great+ {Math.round(hover.shareGreat*100)}%，Fire {Math.round(hover.shareFire*100)}%，共 {hover.n} 天
+              </div>
+            )}
+
+            {best.length>0 && (
+              <div className="text-sm text-gray-700">
+                <div className="mb-1 font-medium">最佳周 / Best weeks（{METRICS.find(m=>m.key===metric)!.label}）</div>
+                <ol className="list-decimal pl-5 text-xs space-y-0.5">
+                  {best.map(w=>(<li key={w.week}>W{w.week} · {weekRange(w.week)} · {fmt(w, metric)}</li>))}
+                </ol>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+/* 中位分沿用分级配色；占比用橙色深浅 */
+function cellStyle(cell: ClimatologyWeek|undefined, metric: Metric, tiers: readonly ScoreTier[]): React.CSSProperties{
+  if(!cell) return { background:"#f9fafb", color:"#d1d5db", borderColor:"#f3f4f6" };
+  if(metric==="median"){
+    const t = scoreTheme(cell.median, tiers);
+    return { background:t.bg, color:t.fg, borderColor:t.ring };
+  }
+  const v = cell[metric];
+  return { background:`rgba(234,88,12,${0.08 + 0.8*v})`, color: v>0.45 ? "#fff" : "#7c2d12", borderColor:"#fed7aa" };
+}
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import LocationPanel from "./LocationPanel";
+import DayCard from "./DayCard";
+import { MapPin, Plus, Star, Trophy, X, Loader2 } from "lucide-react";
+import {
+  defaultEventParams, bandsFromModels, predictSunsets, scoreTheme, labelFromScore, eventLabel, formatDateKey, polarLabel,
+  type SunEvent, type SunsetItem,
+} from "../lib/scoring";
+import { openMeteoProvider, staleWhileRevalidate, type ForecastData } from "../lib/weather";
+import { buildCompareMatrix, rankLocations, locationId, type CompareLocation } from "../lib/compare";
+import { loadFavorites, saveFavorites } from "../lib/favorites";
+
+type LocForecast = { loading: boolean; data?: ForecastData; error?: string; offline?: boolean };
+
+/* ---------- 多地点对比：日期 × 地点 分数矩阵 ---------- */
+export default function CompareDashboard(){
+  const [locations,setLocations] = useState<CompareLocation[]>([]);
+  const [favorites,setFavorites] = useState<CompareLocation[]>([]);
+  const [candidate,setCandidate] = useState<CompareLocation|null>(null);
+  const [forecasts,setForecasts] = useState<Record<string, LocForecast>>({});
+
+  const [event,setEvent] = useState<SunEvent>("sunset");
+  const [days,setDays] = useState(5);
+  const [windowMinutes,setWindowMinutes] = useState(90);
+  const [sortDay,setSortDay] = useState<string|null>(null);          // 按哪天排序（默认第一天）
+  const [selected,setSelected] = useState<{ id:string; dateKey:string }|null>(null);
+  const [detailOpen,setDetailOpen] = useState(false);
+
+  useEffect(()=>{ setFavorites(loadFavorites()); },[]);
+
+  const onPick = useCallback((c:{ lat:number; lon:number }, name:string)=>{
+    setCandidate({ id: locationId(c.lat, c.lon), lat: c.lat, lon: c.lon, name });
+  },[]);
+
+  function addLocation(loc:CompareLocation){
+    setLocations(list=>list.some(l=>l.id===loc.id) ? list : [...list, loc]);
+  }
+  function removeLocation(id:string){
+    setLocations(list=>list.filter(l=>l.id!==id));
+    if(selected?.id===id) setSelected(null);
+  }
+  function toggleFavorite(loc:CompareLocation){
+    const next = favorites.some(f=>f.id===loc.id) ? favorites.filter(f=>f.id!==loc.id) : [...favorites, loc];
+    setFavorites(next); saveFavorites(next);
+  }
+
+  // 每个地点独立拉取（走缓存），互不阻塞
+  useEffect(()=>{
+    let cancelled = false;
+    for(const loc of locations){
+      setForecasts(f=>({ ...f, [loc.id]: { ...f[loc.id], loading: true } }));
+      staleWhileRevalidate(
+        { provider: openMeteoProvider.id, lat: loc.lat, lon: loc.lon, days },
+        ()=>openMeteoProvider.fetchForecast({ lat: loc.lat, lon: loc.lon, days }),
+        (data)=>{ if(!cancelled) setForecasts(f=>({ ...f, [loc.id]: { loading: true, data } })); },
+      ).then(res=>{
+        if(!cancelled) setForecasts(f=>({ ...f, [loc.id]: { ...f[loc.id], loading: false, offline: res.offline } }));
+      }).catch((e:any)=>{
+        if(!cancelled) setForecasts(f=>({ ...f, [loc.id]: { loading: false, error: e?.message || "加载失败 / Failed" } }));
+      });
+    }
+    return ()=>{ cancelled = true; };
+  },[locations.map(l=>l.id).join("|"), days]);
+
+  const params = defaultEventParams[event];
+  const results = useMemo<Record<string, SunsetItem[]>>(()=>{
+    const out:Record<string, SunsetItem[]> = {};
+    for(const loc of locations){
+      const data = forecasts[loc.id]?.data;
+      if(data) out[loc.id] = predictSunsets(data, { lat: loc.lat, lon: loc.lon, days, windowMinutes, event, timeZone: data.timezone, ...params });
+    }
+    return out;
+  },[locations, forecasts, days, windowMinutes, event, params]);
+
+  const rows = useMemo(()=>buildCompareMatrix(results), [results]);
+  const sortRow = rows.find(r=>r.dateKey===sortDay) ?? rows[0];
+  const ordered = rankLocations(sortRow, locations.map(l=>l.id));
+  const byId = Object.fromEntries(locations.map(l=>[l.id, l]));
+  const bands = useMemo(()=>bandsFromModels(params.models), [params]);
+
+  const tonight = rows[0];
+  const tonightBest = tonight?.best ? { loc: byId[tonight.best.id], item: tonight.cells[tonight.best.id]! } : null;
+  const selectedItem = selected ? rows.find(r=>r.dateKey===selected.dateKey)?.cells[selected.id] : undefined;
+
+
+  return (
+    <div className="container mx-auto px-4">
+      <div className="flex items-center gap-3 mb-6">
+        <MapPin className="w-9 h-9 text-orange-500"/>
+        <div>
+          <h1 className="text-3xl font-extrabold text-gray-900 leading-tight">Compare spots / 多地点对比</h1>
+          <p className="text-sm text-gray-600 -mt-1">同一天多个候选机位的{eventLabel(event).split(" / ")[0]}评分</p>
+        </div>
+      </div>
+
+      {/* 控制面板 */}
+      <Card className="mb-6 shadow-lg rounded-2xl">
+        <CardContent className="p-4 md:p-6 grid gap-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="p-3 rounded-2xl bg-white shadow-sm grid gap-2">
+              <LocationPanel onChange={onPick} />
+              <div className="flex flex-wrap gap-2">
+                <Button className="gap-2" disabled={!candidate} onClick={()=>candidate && addLocation(candidate)}>
+                  <Plus className="w-4 h-4"/> 加入对比 / Add
+                </Button>
+                <Button variant="secondary" className="gap-2" disabled={!candidate} onClick={()=>candidate && toggleFavorite(candidate)}>
+                  <Star className="w-4 h-4"/> {candidate && favorites.some(f=>f.id===candidate.id) ? "取消收藏 / Unsave" : "收藏 / Save favorite"}
+                </Button>
+              </div>
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <div className="mb-2 text-sm text-gray-600">收藏地点 / Favorites</div>
+              {favorites.length===0 && <div className="text-xs text-gray-400">暂无收藏 / No favorites yet</div>}
+              <div className="flex flex-wrap gap-2">
+                {favorites.map(f=>(
+                  <span key={f.id} className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs">
+                    <button className="hover:text-orange-600" onClick={()=>addLocation(f)} title="加入对比 / Add">{f.name}</button>
+                    <button className="text-gray-400 hover:text-red-600" onClick={()=>toggleFavorite(f)} title="删除 / Remove"><X className="w-3 h-3"/></button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <div className="mb-2 text-sm text-gray-600">Event / 事件</div>
+              <div className="flex gap-2">
+                {(["sunset","sunrise"] as SunEvent[]).map(ev=>(
+                  <Button key={ev} variant={event===ev ? "default" : "secondary"} onClick={()=>setEvent(ev)}>{eventLabel(ev)}</Button>
+                ))}
+              </div>
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <div className="mb-2 text-sm text-gray-600">Days / 预测天数：{days}</div>
+              <Slider value={[days]} min={1} max={10} step={1} onValueChange={(v)=>setDays(v[0])}/>
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm">
+              <div className="mb-2 text-sm text-gray-600">Window / 可视窗口（±分钟）：{windowMinutes}</div>
+              <Slider value={[windowMinutes]} min={30} max={150} step={15} onValueChange={(v)=>setWindowMinutes(v[0])}/>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {locations.length===0 && (
+        <div className="text-sm text-gray-700">用上方面板选择地点后点击「加入对比」，或点击收藏的地点。</div>
+      )}
+
+      {/* 今晚最佳 */}
+      {tonightBest && (
+        <Card className="mb-6 rounded-2xl shadow-md">
+          <CardContent className="p-4 flex flex-wrap items-center gap-3">
+            <Trophy className="w-6 h-6 text-orange-500"/>
+            <div className="text-sm text-gray-700">
+              {event==="sunset" ? "今晚最佳 / Best spot this evening" : "最近一次日出最佳 / Best spot next sunrise"}（{formatDateKey(tonight.dateKey)}）：
+            </div>
+            <div className="font-semibold text-gray-900">{tonightBest.loc?.name}</div>
+            <span
+              style={{ background: scoreTheme(tonightBest.item.score).bg, color: scoreTheme(tonightBest.item.score).fg, borderColor: scoreTheme(tonightBest.item.score).ring }}
+              className="inline-flex items-baseline gap-1 border rounded-full px-3 py-0.5"
+            >
+              <b>{tonightBest.item.score}</b><span className="text-xs opacity-70">/100</span>
+            </span>
+            <span className="text-sm" style={{ color: scoreTheme(tonightBest.item.score).fg }}>{labelFromScore(tonightBest.item.score)}</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 矩阵 */}
+      {locations.length>0 && (
+        <Card className="mb-6 rounded-2xl shadow-md">
+          <CardContent className="p-4 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="text-gray-500 text-xs">
+                  <th className="py-2 pr-3">日期 / Date</th>
+                  {ordered.map(id=>{
+                    const f = forecasts[id];
+                    return (
+                      <th key={id} className="py-2 px-2 font-medium">
+                        <div className="flex items-center gap-1">
+                          <span className="text-gray-800">{byId[id]?.name}</span>
+                          {f?.loading && <Loader2 className="w-3 h-3 animate-spin"/>}
+                          <button className="text-gray-400 hover:text-red-600" onClick={()=>removeLocation(id)} title="移除 / Remove"><X className="w-3 h-3"/></button>
+                        </div>
+                        {f?.error && <div className="text-[11px] text-red-600">{f.error.slice(0,40)}</div>}
+                        {f?.offline && <div className="text-[11px] text-amber-700">离线缓存 / cached</div>}
+                      </th>
+                    );
+                  })}
+                  <th className="py-2 pl-3">最佳 / Best</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row=>(
+                  <tr key={row.dateKey} className="border-t">
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      <button
+                        className={`hover:text-orange-600 ${sortRow?.dateKey===row.dateKey ? "font-semibold text-orange-600" : "text-gray-700"}`}
+                        onClick={()=>setSortDay(row.dateKey)}
+                        title="按当天分数排序 / Sort spots by this day"
+                      >{formatDateKey(row.dateKey)}</button>
+                    </td>
+                    {ordered.map(id=>{
+                      const item = row.cells[id];
+                      if(!item) return <td key={id} className="py-2 px-2 text-gray-300">—</td>;
+                      if(item.polar) return <td key={id} className="py-2 px-2 text-center text-xs text-gray-400" title={polarLabel(item.polar, item.event)}>{item.polar==="midnightSun" ? "极昼" : "极夜"}</td>;
+                      const theme = scoreTheme(item.score);
+                      const isSel = selected?.id===id && selected?.dateKey===row.dateKey;
+                      return (
+                        <td key={id} className="py-2 px-2">
+                          <button
+                            onClick={()=>{ setSelected(isSel ? null : { id, dateKey: row.dateKey }); setDetailOpen(false); }}
+                            style={{ background: theme.bg, color: theme.fg, borderColor: isSel ? theme.fg : theme.ring }}
+                            className={`w-full rounded-lg border px-2 py-1 text-center tabular-nums ${isSel ? "ring-2 ring-offset-1" : ""}`}
+                            title={item.label}
+                          >
+                            <b>{item.score}</b>
+                            {row.best?.id===id && <Trophy className="inline w-3 h-3 ml-1 -mt-0.5"/>}
+                          </button>
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 pl-3 text-xs text-gray-700 whitespace-nowrap">{row.best ? `${byId[row.best.id]?.name} · ${row.best.score}` : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-2 text-[11px] text-gray-500">点击日期按当天分数排序地点；点击分数查看当天详情。Click a date to sort spots, a score for details.</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 选中单元格 → 复用单日卡片 */}
+      {selected && selectedItem && (
+        <div className="max-w-xl">
+          <div className="mb-2 text-sm text-gray-700 flex items-center gap-1"><MapPin className="w-4 h-4"/>{byId[selected.id]?.name}</div>
+          <DayCard
+            item={selectedItem}
+            bands={bands}
+            params={params}
+            windowMinutes={windowMinutes}
+            detailOpen={detailOpen}
+            onToggleDetail={()=>setDetailOpen(o=>!o)}
+            timeZone={forecasts[selected.id]?.data?.timezone}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useRef } from "react";
+import { Input } from "./ui/input";
+import {
+  clamp, convertModel, sampleModel, scoreByModel, MODEL_DOMAINS,
+  type ScoreModel, type ScoreModelType, type ScoreModels,
+} from "../lib/scoring";
+
+export const CURVE_TYPES: { type: ScoreModelType; label: string }[] = [
+  { type:"tri",       label:"三角 / Triangle" },
+  { type:"invTri",    label:"反三角 / Inverted triangle" },
+  { type:"gauss",     label:"高斯 / Gaussian" },
+  { type:"trapezoid", label:"梯形 / Trapezoid" },
+  { type:"clampUp",   label:"线性递增 / Ramp up" },
+  { type:"clampDown", label:"线性递减 / Ramp down" },
+  { type:"logistic",  label:"S 形 / Logistic" },
+  { type:"piecewise", label:"折线 / Piecewise" },
+];
+
+// 各类型的数值字段（折线的点只在图上编辑）
+const FIELDS: Record<ScoreModelType, { key: string; label: string }[]> = {
+  tri:       [{ key:"m", label:"ideal" }, { key:"w", label:"tolerance" }],
+  invTri:    [{ key:"m", label:"worst" }, { key:"w", label:"tolerance" }],
+  gauss:     [{ key:"m", label:"ideal" }, { key:"sigma", label:"σ" }],
+  trapezoid: [{ key:"a", label:"a" }, { key:"b", label:"b" }, { key:"c", label:"c" }, { key:"d", label:"d" }],
+  clampUp:   [{ key:"threshold", label:"threshold" }, { key:"full", label:"full" }],
+  clampDown: [{ key:"min", label:"min" }, { key:"max", label:"max" }],
+  logistic:  [{ key:"mid", label:"mid" }, { key:"k", label:"slope k" }],
+  piecewise: [],
+};
+
+/* 可拖动的控制点：位置 + 拖到 (x, s) 后得到的新模型 */
+type Handle = { x: number; s: number; drag: (x:number, s:number)=>ScoreModel; freeY?: boolean; title: string };
+
+function handlesOf(m: ScoreModel): Handle[]{
+  switch(m.type){
+    case "tri":
+      return [
+        { x:m.m, s:1, drag:(x)=>({ ...m, m:x }), title:"ideal" },
+        { x:m.m + m.w, s:0, drag:(x)=>({ ...m, w:Math.max(0.1, Math.abs(x - m.m)) }), title:"tolerance" },
+      ];
+    case "invTri":
+      return [
+        { x:m.m, s:0, drag:(x)=>({ ...m, m:x }), title:"worst" },
+        { x:m.m + m.w, s:1, drag:(x)=>({ ...m, w:Math.max(0.1, Math.abs(x - m.m)) }), title:"tolerance" },
+      ];
+    case "gauss":
+      return [
+        { x:m.m, s:1, drag:(x)=>({ ...m, m:x }), title:"ideal" },
+        { x:m.m + m.sigma, s:Math.exp(-0.5), drag:(x)=>({ ...m, sigma:Math.max(0.1, Math.abs(x - m.m)) }), title:"σ" },
+      ];
+    case "trapezoid":
+      // 拖动时保持 a ≤ b ≤ c ≤ d
+      return [
+        { x:m.a, s:0, drag:(x)=>({ ...m, a:Math.min(x, m.b) }), title:"a" },
+        { x:m.b, s:1, drag:(x)=>({ ...m, b:clamp(x, m.a, m.c) }), title:"b" },
+        { x:m.c, s:1, drag:(x)=>({ ...m, c:clamp(x, m.b, m.d) }), title:"c" },
+        { x:m.d, s:0, drag:(x)=>({ ...m, d:Math.max(x, m.c) }), title:"d" },
+      ];
+    case "clampUp":
+      return [
+        { x:m.threshold, s:0, drag:(x)=>({ ...m, threshold:Math.min(x, m.full - 0.5) }), title:"threshold" },
+        { x:m.full, s:1, drag:(x)=>({ ...m, full:Math.max(x, m.threshold + 0.5) }), title:"full" },
+      ];
+    case "clampDown":
+      return [
+        { x:m.min, s:1, drag:(x)=>({ ...m, min:Math.min(x, m.max - 0.5) }), title:"min" },
+        { x:m.max, s:0, drag:(x)=>({ ...m, max:Math.max(x, m.min + 0.5) }), title:"max" },
+      ];
+    case "logistic":
+      // 斜率点在 s≈0.88 处（mid + 2/k）；拖过 mid 即反转方向
+      return [
+        { x:m.mid, s:0.5, drag:(x)=>({ ...m, mid:x }), title:"mid" },
+        { x:m.mid + 2/m.k, s:1/(1 + Math.exp(-2)), drag:(x)=>{
+          const dx = Math.abs(x - m.mid) < 0.05 ? (x>=m.mid ? 0.05 : -0.05) : x - m.mid;
+          return { ...m, k:+(2/dx).toFixed(3) };
+        }, title:"slope" },
+      ];
+    case "piecewise":
+      return m.points.map((p, i)=>({
+        x:p[0], s:p[1], freeY:true, title:`#${i+1}`,
+        drag:(x, s)=>({ ...m, points: m.points.map((q, j)=>j===i ? [x, s] as [number, number] : q) }),
+      }));
+  }
+}
+
+/* ---------- 曲线编辑器：s(x) 曲线 + 可拖控制点 + 当日取值标记 ---------- */
+export default function CurveEditor({
+  name, factor, model, value, onChange
+}:{
+  name: string;
+  factor: keyof ScoreModels;
+  model: ScoreModel;
+  value?: number;                 // 当日窗口均值（无预报时省略）
+  onChange: (m:ScoreModel)=>void;
+}){
+  const svgRef = useRef<SVGSVGElement|null>(null);
+  const dragRef = useRef<number|null>(null);
+  const [lo, hi] = MODEL_DOMAINS[factor];
+  const step = (hi - lo)/100;
+  const W = 320, H = 140, PL = 26, PR = 8, PT = 8, PB = 18;
+  const X = (x:number)=> PL + (clamp(x, lo, hi) - lo)/(hi - lo)*(W - PL - PR);
+  const Y = (s:number)=> PT + (1 - s)*(H - PT - PB);
+  const handles = handlesOf(model);
+  const curve = sampleModel(model, [lo, hi], 161);
+  const sNow = value!=null ? scoreByModel(value, model) : undefined;
+
+  // 屏幕坐标 → (x, s)，x 按量程的 1% 取整
+  function toDomain(e:React.PointerEvent){
+    const r = svgRef.current!.getBoundingClientRect();
+    const vx = (e.clientX - r.left)/r.width*W, vy = (e.clientY - r.top)/r.height*H;
+    const x = clamp(lo + (vx - PL)/(W - PL - PR)*(hi - lo), lo, hi);
+    const s = clamp(1 - (vy - PT)/(H - PT - PB), 0, 1);
+    return [+(Math.round(x/step)*step).toFixed(2), Math.round(s*100)/100] as const;
+  }
+  function onMove(e:React.PointerEvent){
+    const i = dragRef.current;
+    if(i==null) return;
+    const [x, s] = toDomain(e);
+    const h = handles[i];
+    onChange(h.drag(x, h.freeY ? s : h.s));
+  }
+  function endDrag(e:React.PointerEvent){
+    if(dragRef.current==null) return;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+  }
+  // 折线：双击空白处加点，双击控制点删点（至少保留 2 个）
+  function onDoubleClick(e:React.MouseEvent){
+    if(model.type!=="piecewise") return;
+    const [x, s] = toDomain(e as unknown as React.PointerEvent);
+    onChange({ ...model, points:[...model.points, [x, s] as [number, number]].sort((a,b)=>a[0]-b[0]) });
+  }
+  function removePoint(i:number){
+    if(model.type!=="piecewise" || model.points.length<=2) return;
+    onChange({ ...model, points:model.points.filter((_, j)=>j!==i) });
+  }
+
+  const setField = (key:string, v:number)=>{ if(Number.isFinite(v)) onChange({ ...model, [key]:v } as ScoreModel); };
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-700">
+        <div className="flex items-center gap-2">
+          <span className="inline-flex h-2 w-2 rounded-full" style={{background:model.color}} />
+          <span>{name}</span>
+        </div>
+        <select
+          className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+          value={model.type}
+          onChange={(e)=>onChange(convertModel(factor, model, e.target.value as ScoreModelType))}
+        >
+          {CURVE_TYPES.map(t=><option key={t.type} value={t.type}>{t.label}</option>)}
+        </select>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full touch-none select-none rounded-lg bg-gray-50"
+        onPointerMove={onMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onDoubleClick={onDoubleClick}
+      >
+        {[0, 0.5, 1].map(s=>(
+          <g key={s}>
+            <line x1={PL} x2={W-PR} y1={Y(s)} y2={Y(s)} stroke="#e5e7eb" />
+            <text x={PL-4} y={Y(s)+3} textAnchor="end" fontSize={9} fill="#9ca3af">{s}</text>
+          </g>
+        ))}
+        {[lo, (lo+hi)/2, hi].map(x=>(
+          <text key={x} x={X(x)} y={H-5} textAnchor="middle" fontSize={9} fill="#9ca3af">{x}{model.unit.trim()}</text>
+        ))}
+        <polyline fill="none" stroke={model.color} strokeWidth={2} points={curve.map(([x,s])=>`${X(x)},${Y(s)}`).join(" ")} />
+
+        {value!=null && sNow!=null && (
+          <g>
+            <line x1={X(value)} x2={X(value)} y1={PT} y2={H-PB} stroke="#374151" strokeDasharray="3 3" />
+            <circle cx={X(value)} cy={Y(sNow)} r={3.5} fill="#374151" />
+            <title>{`当日 / Today：${value.toFixed(1)}${model.unit} → s=${sNow.toFixed(2)}`}</title>
+          </g>
+        )}
+
+        {handles.map((h, i)=>(
+          <circle
+            key={i}
+            cx={X(h.x)} cy={Y(h.s)} r={6}
+            fill="#fff" stroke={model.color} strokeWidth={2}
+            className={h.freeY ? "cursor-move" : "cursor-ew-resize"}
+            onPointerDown={(e)=>{ e.stopPropagation(); dragRef.current = i; svgRef.current?.setPointerCapture(e.pointerId); }}
+            onDoubleClick={(e)=>{ e.stopPropagation(); removePoint(i); }}
+          >
+            <title>{`${h.title}: ${+h.x.toFixed(2)}${model.unit}${h.freeY ? ` · s=${h.s}` : ""}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-[11px] text-gray-500">
+        {FIELDS[model.type].length>0 ? (
+          <div className="flex flex-wrap items-center gap-2">
+            {FIELDS[model.type].map(f=>(
+              <label key={f.key} className="inline-flex items-center gap-1">
+                <span>{f.label}</span>
+                <Input
+                  type="number" step={f.key==="k" ? 0.01 : step}
+                  className="h-7 w-20 px-2 text-xs"
+                  value={(model as any)[f.key]}
+                  onChange={(e)=>setField(f.key, parseFloat(e.target.value))}
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          <span>双击空白处加点，双击控制点删除 / Double-click to add or remove points</span>
+        )}
+        {value!=null && sNow!=null && (
+          <span className="tabular-nums">当日 / Today {value.toFixed(1)}{model.unit} → s={sNow.toFixed(2)}</span>
+        )}
+      </div>
+    </div>
+  );
+}
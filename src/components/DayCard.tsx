@@ -0,0 +1,549 @@
+import React from "react";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { CalendarDays, MessageSquarePlus } from "lucide-react";
+import {
+  scoreTheme, eventLabel, phaseLabel, polarLabel, formatDateKey, confidenceLabel, twilightSegments, anchorTime, formatWindowSpan, TWILIGHT_PHASES, FACTORS, factorDef, formatFactor,
+  type SunsetItem, type LocalSunEvent, type StatAgg, type FactorDef, type FactorKey, type Band, type SunEvent, type EnsembleStats, type HorizonAgg, type TimelinePoint,
+  type TwilightPhase, type ScoreTier, type EventParams, type Confidence,
+} from "../lib/scoring";
+import { ENSEMBLE_MODELS } from "../lib/weather";
+import { factorDeltas } from "../lib/abCompare";
+import SensitivityPanel from "./SensitivityPanel";
+
+/* ---------- 单日卡片：分数 + 因子柱状图 + 指标 + 可折叠计算细节 ---------- */
+export default function DayCard({
+  item: s, bands, windowMinutes, detailOpen, onToggleDetail, timeZone, onLogObservation, tiers, compare, params
+}:{
+  item: SunsetItem;
+  bands: Record<string, Band>;
+  windowMinutes: number;
+  detailOpen: boolean;
+  onToggleDetail: ()=>void;
+  timeZone?: string;          // 地点时区（IANA），用于规划条与时间轴的时刻
+  onLogObservation?: ()=>void; // 带预测快照去留言板记录实测
+  tiers?: readonly ScoreTier[]; // 参数包自定义的分级配色
+  compare?: { name: string; item?: SunsetItem };  // A/B 对比：同一天用 B 参数的结果
+  params?: EventParams;       // 该事件的权重与模型；提供时显示敏感度与 what-if
+}){
+  const theme = scoreTheme(s.score, tiers);
+  // 时间轴上选中的时刻（null = 窗口整体）；明细表随之切换
+  const [moment, setMoment] = React.useState<number|null>(null);
+  const picked = moment!=null ? s.timeline?.[moment] : undefined;
+  const rows = picked?.items ?? s.explain.items;
+  // 参与计分的因子（注册表顺序）
+  const scored = FACTORS.filter(f=>s.explain.items.some(it=>it.key===f.key));
+  // A/B：窗口整体时逐因子对比贡献（B 独有的因子也列出）
+  const ab = compare?.item && !picked ? factorDeltas(s, compare.item) : null;
+  const tableRows = ab
+    ? ab.map(d=>({ it: d.a ?? d.b!, inA: !!d.a, d }))
+    : rows.map(it=>({ it, inA: true, d: undefined }));
+  const bDelta = compare?.item ? compare.item.score - s.score : undefined;
+  if(s.polar) return <PolarCard item={s} />;
+  return (
+    <Card className="overflow-hidden shadow-md hover:shadow-xl transition rounded-2xl">
+      <CardContent className="p-5">
+        {/* 顶部日期 + 成绩 */}
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-gray-700"/>
+            <div>
+              <div className="text-lg font-semibold text-gray-900">
+                {formatDateKey(s.dateKey)}
+              </div>
+              <div className="text-xs text-gray-600">
+                {eventLabel(s.event)}{s.local ? "（天文 / astronomical）" : ""}: {s.localISO}（{formatWindowSpan(windowMinutes, params?.aggregation)}）
+              </div>
+              {s.local && <LocalEventLine local={s.local} event={s.event} timeZone={timeZone} />}
+              {s.anchorPhase!=="event" && (
+                <div className="text-xs text-gray-500">窗口锚点 / Anchor：{phaseLabel(s.anchorPhase, s.event)} {fmtTime(s.twilight[s.anchorPhase], timeZone)}</div>
+              )}
+              {s.requestedAnchor && (
+                <div className="text-xs text-amber-700">当天没有{phaseLabel(s.requestedAnchor, s.event)}，窗口改以{eventLabel(s.event).split(" / ")[0]}为中心 / Anchor unavailable, using the event</div>
+              )}
+            </div>
+          </div>
+          <div className="text-right">
+            <div style={{background:theme.bg,color:theme.fg,borderColor:theme.ring}} className="inline-flex items-baseline gap-1 border rounded-full px-3 py-1">
+              <span className="text-lg font-bold">{s.score}</span>
+              <span className="text-xs opacity-70">/100</span>
+            </div>
+            <div className="text-sm" style={{color:theme.fg}}>{s.label}</div>
+            {s.confidence && <ConfidenceBadge c={s.confidence} />}
+            {s.ensemble && <EnsembleBadge stats={s.ensemble} color={theme.fg} />}
+            {compare?.item && bDelta!=null && (
+              <div className="mt-1 text-xs text-gray-600" title={compare.name}>
+                B：<b className="tabular-nums">{compare.item.score}</b>{" "}
+                <span className={bDelta>0 ? "text-emerald-700" : bDelta<0 ? "text-rose-700" : "text-gray-500"}>（{bDelta>0 ? "+" : ""}{bDelta}）</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <TwilightStrip item={s} timeZone={timeZone} />
+
+        {s.timeline && s.timeline.length>1 && (
+          <ScoreSparkline
+            timeline={s.timeline} best={s.best} anchor={anchorTime(s)} selected={moment} color={theme.fg} timeZone={timeZone}
+            onSelect={(i)=>{ setMoment(i); if(!detailOpen) onToggleDetail(); }}
+          />
+        )}
+
+        {/* 顶部横向柱状图：参与计分的所有因子 */}
+        <CloudBars
+          factors={scored}
+          values={{ ...Object.fromEntries(scored.map(f=>[f.key, s.agg[f.key]?.value ?? s.agg[f.key]?.avg])), horizon: s.horizon?.blockage }}
+          bands={bands}
+          event={s.event}
+          horizon={s.horizon}
+        />
+
+        {/* 指标卡片：在小屏单列，大屏两列 */}
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          {scored.filter(f=>f.source!=="horizon").map(f=>(
+            <StatCard key={f.key} factor={f} agg={s.agg[f.key] ?? {}} />
+          ))}
+        </div>
+
+        {/* 计算细节：按钮 + 折叠 */}
+        <div className="mt-4 flex flex-wrap gap-2">
+          <Button variant="secondary" className="text-xs"
+            onClick={onToggleDetail}>
+            {detailOpen ? "隐藏计算细节 / Hide details" : "查看计算细节 / Show details"}
+          </Button>
+          {onLogObservation && (
+            <Button variant="secondary" className="text-xs gap-1" onClick={onLogObservation}>
+              <MessageSquarePlus className="w-4 h-4"/> 记录实拍 / Log observation
+            </Button>
+          )}
+        </div>
+
+        {detailOpen && (
+          <div className="mt-3 rounded-xl border border-gray-100 bg-white/70 p-3 text-xs text-gray-700 space-y-2">
+            {s.timeline && s.timeline.length>1 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <b>时刻 / Moment：</b>
+                <input
+                  type="range" className="w-40 accent-orange-500"
+                  min={0} max={s.timeline.length-1} value={moment ?? s.timeline.indexOf(s.best ?? s.timeline[0])}
+                  onChange={(e)=>setMoment(+e.target.value)}
+                />
+                <span className="tabular-nums">{picked ? `${fmtTime(picked.time, timeZone)} · ${picked.score}` : "窗口整体 / Whole window"}</span>
+                {picked && <button className="text-orange-600 hover:underline" onClick={()=>setMoment(null)}>返回窗口整体 / Whole window</button>}
+              </div>
+            )}
+            <div><b>公式 / Formula：</b> Score = 100 × ( {picked?.formula ?? s.explain.formula} )</div>
+            {!picked && s.explain.aggregation && <div><b>窗口聚合 / Aggregation：</b> {s.explain.aggregation}</div>}
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-left text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="py-1 pr-3">因子 / Factor</th>
+                    <th className="py-1 pr-3">取值 / Value</th>
+                    <th className="py-1 pr-3">标准化 s</th>
+                    <th className="py-1 pr-3">权重 w</th>
+                    <th className="py-1 pr-3">贡献 w×s×100</th>
+                    {ab && <th className="py-1 pr-3">B 贡献 / B</th>}
+                    {ab && <th className="py-1 pr-3">Δ</th>}
+                    <th className="py-1">说明 / Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tableRows.map(({ it, inA, d })=> (
+                    <tr key={it.key} className={`border-t ${d?.changed ? "bg-amber-50" : ""}`}>
+                      <td className="py-1 pr-3">{it.label}</td>
+                      <td className="py-1 pr-3 tabular-nums">{formatFactor(factorDef(it.key as FactorKey), it.value)}{it.stat && <span className="text-gray-400">（{it.stat}）</span>}</td>
+                      <td className="py-1 pr-3">{inA ? it.s.toFixed(2) : "—"}</td>
+                      <td className="py-1 pr-3">{inA ? it.w.toFixed(2) : "—"}</td>
+                      <td className="py-1 pr-3">{inA ? it.contribution.toFixed(1) : "—"}</td>
+                      {d && (
+                        <td className="py-1 pr-3" title={d.b ? `s=${d.b.s.toFixed(2)} · w=${d.b.w.toFixed(2)}` : undefined}>
+                          {d.b ? d.b.contribution.toFixed(1) : "—"}
+                        </td>
+                      )}
+                      {d && (
+                        <td className={`py-1 pr-3 tabular-nums ${d.delta>0 ? "text-emerald-700" : d.delta<0 ? "text-rose-700" : "text-gray-400"}`}>
+                          {d.delta>0 ? "+" : ""}{d.delta.toFixed(1)}
+                        </td>
+                      )}
+                      <td className="py-1">{it.note ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div><b>总分 / Total：</b> {picked ? picked.score : s.explain.total} / 100{picked && <span className="text-gray-500">（{fmtTime(picked.time, timeZone)} 插值 / interpolated）</span>}
+              {ab && compare?.item && <span className="text-gray-500"> · B（{compare.name}）：{compare.item.explain.total} / 100</span>}
+            </div>
+            {params && <SensitivityPanel item={s} params={params} />}
+            {s.horizon && (
+              <div className="overflow-x-auto">
+                <div className="mb-1"><b>地平线采样 / Horizon samples：</b> 方位 {Math.round(s.horizon.bearing)}° · 遮挡 = Σ 点权重 × 低云（缺数据的点不计）</div>
+                <table className="min-w-full text-left text-xs">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="py-1 pr-3">距离 / Distance</th>
+                      <th className="py-1 pr-3">坐标 / Lat, Lon</th>
+                      <th className="py-1 pr-3">低云 / Low cloud</th>
+                      <th className="py-1 pr-3">点权重 / Weight</th>
+                      <th className="py-1">遮挡贡献 / Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {s.horizon.points.map(p=>(
+                      <tr key={p.distanceKm} className="border-t">
+                        <td className="py-1 pr-3">{p.distanceKm} km</td>
+                        <td className="py-1 pr-3 tabular-nums">{p.lat.toFixed(3)}, {p.lon.toFixed(3)}</td>
+                        <td className="py-1 pr-3">{p.lowPct==null ? "—" : `${Math.round(p.lowPct)}%`}</td>
+                        <td className="py-1 pr-3">{p.weight.toFixed(2)}</td>
+                        <td className="py-1">{p.lowPct==null ? "—" : `${p.share.toFixed(1)}%`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {s.ensemble && (
+              <div className="overflow-x-auto">
+                <div className="mb-1"><b>多模型 / Ensemble：</b> 中位数 {s.ensemble.median} · 四分位 {Math.round(s.ensemble.p25)}–{Math.round(s.ensemble.p75)} · 极差 {s.ensemble.spread}（上表细节取自 {modelLabel(s.ensemble.representative)}）</div>
+                <table className="min-w-full text-left text-xs">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="py-1 pr-3">模型 / Model</th>
+                      <th className="py-1 pr-3">分数 / Score</th>
+                      <th className="py-1">与中位数差 / Δ median</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {s.ensemble.members.map(m=>(
+                      <tr key={m.model} className="border-t">
+                        <td className="py-1 pr-3">{modelLabel(m.model)}</td>
+                        <td className="py-1 pr-3">{m.score}</td>
+                        <td className="py-1">{m.score-s.ensemble!.median>0?"+":""}{m.score-s.ensemble!.median}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="text-[11px] text-gray-500">
+              {params?.missing==="renormalize" ? (<>
+                注：s 为 0–1 标准化得分，w 为权重。缺失项不计分，其权重按比例分给其余因子，并在 Note 中标注。<br/>
+                Note: s normalized to [0–1]; w is weight. Missing inputs get no weight; it is redistributed to the others (see Note).
+              </>) : (<>
+                注：s 为 0–1 标准化得分，w 为权重。缺失项用中性值处理并在 Note 中标注。<br/>
+                Note: s normalized to [0–1]; w is weight. Missing inputs fall back to neutral (see Note).
+              </>)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* 极昼/极夜：当天没有日出或日落，不打分 */
+function PolarCard({ item: s }:{ item:SunsetItem }){
+  return (
+    <Card className="overflow-hidden shadow-md rounded-2xl">
+      <CardContent className="p-5">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-gray-700"/>
+          <div>
+            <div className="text-lg font-semibold text-gray-900">{formatDateKey(s.dateKey)}</div>
+            <div className="text-xs text-gray-600">{eventLabel(s.event)}</div>
+          </div>
+        </div>
+        <div className={`mt-3 rounded-xl px-3 py-2 text-sm ${s.polar==="midnightSun" ? "bg-amber-50 text-amber-800" : "bg-slate-100 text-slate-700"}`}>
+          {polarLabel(s.polar!, s.event)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+function fmtTime(d:Date, timeZone?:string){
+  if(Number.isNaN(d.getTime())) return "—";
+  try{ return d.toLocaleTimeString([], { hour:"2-digit", minute:"2-digit", timeZone }); }
+  catch{ return d.toLocaleTimeString([], { hour:"2-digit", minute:"2-digit" }); }   // 无效时区名
+}
+
+/* 本地实际日出/日落（观测者高度与地形修正后）及相对天文时刻的偏移 */
+function LocalEventLine({ local, event, timeZone }:{ local:LocalSunEvent; event:SunEvent; timeZone?:string }){
+  const name = eventLabel(event).split(" / ")[0];
+  if(!local.time) return (
+    <div className="text-xs text-amber-700">
+      {local.noCrossing==="hidden"
+        ? `地形整天挡住太阳，窗口仍以天文${name}为中心 / Sun stays behind the terrain; using the astronomical time`
+        : `太阳不穿过视地平，窗口仍以天文${name}为中心 / Sun never crosses the local horizon; using the astronomical time`}
+    </div>
+  );
+  const shift = Math.round(local.shiftMinutes ?? 0);
+  return (
+    <div className="text-xs text-gray-800" title={`太阳方位 / Sun azimuth ${local.azimuth.toFixed(1)}° · 视地平 / Local horizon ${local.horizon.toFixed(2)}°`}>
+      本地实际 / Local：<b className="tabular-nums">{fmtTime(local.time, timeZone)}</b>
+      <span className="text-gray-500">（{shift>0 ? "+" : ""}{shift} 分钟 · 视地平 {local.horizon.toFixed(1)}° @ {Math.round(local.azimuth)}°）</span>
+    </div>
+  );
+}
+
+/* 拍摄规划条：黄金时刻 / 蓝调 / 航海曙暮光色带，叠加窗口内分数曲线 */
+function TwilightStrip({ item: s, timeZone }:{ item:SunsetItem; timeZone?:string }){
+  const segs = twilightSegments(s.twilight, s.event);
+  if(!segs.length) return null;
+  const tl = s.timeline ?? [];
+  const ms = [...segs.flatMap(g=>[g.start.getTime(), g.end.getTime()]), ...tl.map(p=>p.time.getTime())];
+  const t0 = Math.min(...ms), t1 = Math.max(...ms);
+  const W = 200, H = 28;
+  const x = (d:Date)=> (d.getTime()-t0)/Math.max(1, t1-t0)*W;
+  const y = (score:number)=> H - 2 - score/100*(H-4);
+  const phases = [...TWILIGHT_PHASES].filter(p=>!Number.isNaN(s.twilight[p].getTime()))
+    .sort((a,b)=>s.twilight[a].getTime()-s.twilight[b].getTime());
+  return (
+    <div className="mb-3">
+      <div className="mb-1 flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] text-gray-600">
+        {segs.map(g=>(
+          <span key={g.key} className="inline-flex items-center gap-1">
+            <span className="inline-flex h-2 w-2 rounded-full" style={{ background:g.color }} />{g.label}
+          </span>
+        ))}
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="h-7 w-full rounded-lg bg-gray-50">
+        {segs.map(g=>(
+          <rect key={g.key} x={x(g.start)} y={0} width={Math.max(0, x(g.end)-x(g.start))} height={H} fill={g.color} opacity={0.35}>
+            <title>{`${g.label} ${fmtTime(g.start, timeZone)}–${fmtTime(g.end, timeZone)}`}</title>
+          </rect>
+        ))}
+        <line x1={x(anchorTime(s))} x2={x(anchorTime(s))} y1={0} y2={H}
+              stroke="#374151" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        {tl.length>1 && (
+          <polyline fill="none" stroke="#111827" strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+                    points={tl.map(p=>`${x(p.time)},${y(p.score)}`).join(" ")} />
+        )}
+      </svg>
+      <div className="mt-0.5 grid grid-cols-2 sm:grid-cols-4 gap-x-2 text-[11px] text-gray-500 tabular-nums">
+        {phases.map((p: TwilightPhase)=>(
+          <div key={p} className={p===s.anchorPhase && !(p==="event" && s.local?.time) ? "font-semibold text-gray-800" : undefined}>
+            {phaseLabel(p, s.event).split(" / ")[0]} {fmtTime(s.twilight[p], timeZone)}
+          </div>
+        ))}
+        {s.local?.time && (
+          <div className={s.anchorPhase==="event" ? "font-semibold text-gray-800" : undefined}>
+            本地实际 {fmtTime(s.local.time, timeZone)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* 窗口内分数曲线：虚线为窗口锚点（前后窗口不等长时不在正中），圆点为最佳时刻；点击某一时刻查看其因子明细 */
+function ScoreSparkline({
+  timeline, best, anchor, selected, color, onSelect, timeZone
+}:{
+  timeline: TimelinePoint[];
+  best?: TimelinePoint;
+  anchor: Date;
+  selected: number|null;
+  color: string;
+  onSelect: (i:number)=>void;
+  timeZone?: string;
+}){
+  const W = 200, H = 40, n = timeline.length;
+  const x = (i:number)=> i/(n-1)*W;
+  const y = (score:number)=> H - 2 - score/100*(H-4);
+  const bestIdx = best ? timeline.indexOf(best) : -1;
+  const t0 = timeline[0].time.getTime(), t1 = timeline[n-1].time.getTime();
+  const anchorX = (anchor.getTime() - t0)/Math.max(1, t1 - t0)*W;
+  return (
+    <div className="mb-3">
+      <div className="mb-1 flex items-center justify-between text-xs text-gray-600">
+        <span>窗口内分数 / Score through the window</span>
+        {best && <span className="tabular-nums">最佳时刻 / Best：<b style={{color}}>{fmtTime(best.time, timeZone)}</b> · {best.score}</span>}
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="h-10 w-full rounded-lg bg-gray-50">
+        <line x1={anchorX} x2={anchorX} y1={0} y2={H} stroke="#d1d5db" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        <polyline
+          fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+          points={timeline.map((p,i)=>`${x(i)},${y(p.score)}`).join(" ")}
+        />
+        {selected!=null && timeline[selected] && (
+          <line x1={x(selected)} x2={x(selected)} y1={0} y2={H} stroke="#374151" vectorEffect="non-scaling-stroke" />
+        )}
+        {bestIdx>=0 && <circle cx={x(bestIdx)} cy={y(best!.score)} r={2.5} fill={color} />}
+        {timeline.map((p,i)=>(
+          <rect key={i} x={x(i)-W/(2*(n-1))} y={0} width={W/(n-1)} height={H} fill="transparent"
+                className="cursor-pointer" onClick={()=>onSelect(i)}>
+            <title>{`${fmtTime(p.time, timeZone)} · ${p.score}`}</title>
+          </rect>
+        ))}
+      </svg>
+      <div className="mt-0.5 flex justify-between text-[11px] text-gray-400 tabular-nums">
+        <span>{fmtTime(timeline[0].time, timeZone)}</span>
+        <span>{fmtTime(timeline[n-1].time, timeZone)}</span>
+      </div>
+    </div>
+  );
+}
+
+function modelLabel(id?:string){ return ENSEMBLE_MODELS.find(m=>m.id===id)?.label ?? id ?? "—"; }
+
+/* 数据置信度：覆盖率 × 时效 × 缺失因子；悬停显示构成 */
+function ConfidenceBadge({ c }:{ c:Confidence }){
+  const cls = {
+    high:   "bg-emerald-50 text-emerald-700 border-emerald-200",
+    medium: "bg-gray-50 text-gray-600 border-gray-200",
+    low:    "bg-amber-50 text-amber-700 border-amber-200",
+  }[c.level];
+  const title = [
+    `覆盖率 / Coverage ${Math.round(c.coverage*100)}%`,
+    `预报时效 / Lead ${Math.round(c.leadHours)} h（×${c.lead.toFixed(2)}）`,
+    c.missing.length ? `缺失 / Missing：${c.missing.map(k=>factorDef(k).short).join("、")}` : "无缺失因子 / No missing factors",
+  ].join("\n");
+  return (
+    <div className={`mt-1 inline-block rounded-full border px-2 text-[11px] tabular-nums ${cls}`} title={title}>
+      置信度 / Confidence {c.score}% · {confidenceLabel(c.level).split(" / ")[0]}
+    </div>
+  );
+}
+
+/* 多模型：min–max 区间 + 四分位 + 中位数，以及一致性提示 */
+function EnsembleBadge({ stats, color }:{ stats:EnsembleStats; color:string }){
+  const agree = {
+    high:   { text:"模型一致 / Models agree",      cls:"bg-emerald-50 text-emerald-700 border-emerald-200" },
+    medium: { text:"略有分歧 / Some spread",       cls:"bg-gray-50 text-gray-600 border-gray-200" },
+    low:    { text:"分歧较大 / Models disagree",   cls:"bg-amber-50 text-amber-700 border-amber-200" },
+  }[stats.agreement];
+  return (
+    <div className="mt-1 w-32 ml-auto" title={stats.members.map(m=>`${modelLabel(m.model)}: ${m.score}`).join("\n")}>
+      <div className="relative h-2 w-full rounded-full bg-gray-100">
+        <div className="absolute top-0 bottom-0 rounded-full bg-gray-300" style={{ left:`${stats.min}%`, width:`${stats.max-stats.min}%` }} />
+        <div className="absolute top-0 bottom-0 rounded-full" style={{ left:`${stats.p25}%`, width:`${stats.p75-stats.p25}%`, background:color, opacity:0.6 }} />
+        <div className="absolute top-[-2px] bottom-[-2px] w-[2px] bg-gray-800" style={{ left:`${stats.median}%` }} />
+      </div>
+      <div className="mt-0.5 text-[11px] text-gray-500 tabular-nums">{stats.min}–{stats.max} · {stats.members.length} models</div>
+      <div className={`mt-0.5 inline-block rounded-full border px-2 text-[11px] ${agree.cls}`}>{agree.text}</div>
+    </div>
+  );
+}
+
+function StatCard({ factor, agg }:{ factor:FactorDef; agg:StatAgg; }){
+  const fmt = (n?:number)=>formatFactor(factor, n);
+  if(agg.avg==null) return (
+    <div className="rounded-xl border border-dashed border-gray-200 bg-white/50 px-4 py-3">
+      <div className="text-gray-500">{factor.label}</div>
+      <div className="mt-1 text-xs text-gray-400">窗口内无数据 / No data in window</div>
+    </div>
+  );
+  return (
+    <div className="rounded-xl border border-gray-100 bg-white/70 px-4 py-3 shadow-sm">
+      <div className="text-gray-700">{factor.label}</div>
+      <div className="mt-1 flex items-baseline justify-between">
+        <div className="text-xs text-gray-500">Min 最小 {fmt(agg.min)} · Max 最大 {fmt(agg.max)}</div>
+        <div className="text-sm font-semibold text-gray-900">Avg 平均 {fmt(agg.avg)}</div>
+      </div>
+    </div>
+  );
+}
+
+/* 全部因子横向柱状图（灰带→柱→理想线；坐标轴用注册表量程，避免不同单位导致柱宽不一致） */
+function CloudBars({
+  factors,
+  values,
+  bands,
+  event = "sunset",
+  horizon,
+}:{
+  factors: FactorDef[];
+  values: Partial<Record<string, number>>;
+  bands: Record<string, Band>;
+  event?: SunEvent;
+  horizon?: HorizonAgg;
+}){
+  return (
+    <div className="w-full rounded-2xl border border-gray-100 bg-white/70 p-3">
+      <div className="mb-2 text-sm font-medium text-gray-800">
+        {event==="sunrise" ? "All factors around sunrise / 日出窗所有因子" : "All factors around sunset / 日落窗所有因子"}
+      </div>
+      <div className="space-y-3">
+        {factors.map(f=>{
+
+          const vRaw = values[f.key];
+          const band = bands[f.key];
+          const fmt = (v?:number)=>formatFactor(f, v);
+          const toPct = (val:number)=> {
+            const [d0,d1] = f.domain;
+            const p = ((val - d0) / Math.max(1e-6, (d1 - d0))) * 100;
+            return Math.max(0, Math.min(100, p));
+          };
+
+          const bandLeft  = `${toPct(band.min)}%`;
+          const bandRight = toPct(band.max);
+          const bandWidth = `${Math.max(0, bandRight - toPct(band.min))}%`;
+          const markerLeft= `${toPct(band.center)}%`;
+
+          const widthPct  = vRaw==null ? 0 : toPct(vRaw);   // 无数据时不画柱（见下方虚线占位）
+          return (
+            <div key={f.key}>
+              <div className="mb-1 flex items-center justify-between text-xs text-gray-600">
+                <div className="flex items-center gap-2">
+                  <span className="inline-flex h-2 w-2 rounded-full" style={{ background: band.color }} />
+                  {f.label}
+                </div>
+                <div className="tabular-nums">
+                  {vRaw==null ? <span className="text-gray-400">无数据 / No data</span> : fmt(vRaw)}
+                  <span className="text-gray-400"> · 目标 {fmt(band.min)}–{fmt(band.max)}</span>
+                </div>
+              </div>
+
+              {vRaw==null ? (
+                <div className="h-3 w-full rounded-full border border-dashed border-gray-300" title="窗口内无数据 / No data in window" />
+              ) : (
+              <div className="relative h-3 w-full rounded-full bg-gray-100 overflow-hidden">
+                {/* 目标区间（底层） */}
+                <div className="absolute top-0 bottom-0 rounded-full"
+                     style={{ left: bandLeft, width: bandWidth, background: "rgba(0,0,0,0.06)" }} />
+                {/* 彩色柱（中层） */}
+                <div className="absolute top-0 bottom-0 rounded-full"
+                     style={{ width: `${widthPct}%`, background: band.color, transition: "width 300ms ease" }} />
+                {/* 理想点（最上层） */}
+                <div className="absolute top-[-2px] bottom-[-2px] w-[2px] bg-gray-800"
+                     style={{ left: markerLeft }} title={`理想值 ${fmt(band.center)}`} />
+              </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {horizon && <HorizonProfile horizon={horizon} color={bands.horizon?.color ?? "#64748b"} />}
+    </div>
+  );
+}
+
+/* 沿太阳方位的低云剖面：近处在左，远处在右，柱高 = 低云量 */
+function HorizonProfile({ horizon, color }:{ horizon:HorizonAgg; color:string }){
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-2">
+      <div className="mb-1 flex items-center justify-between text-xs text-gray-600">
+        <span>Horizon profile / 地平线低云剖面</span>
+        <span className="tabular-nums text-gray-400">方位 {Math.round(horizon.bearing)}°</span>
+      </div>
+      <div className="flex items-end gap-2 h-12">
+        {horizon.points.map(p=>(
+          <div key={p.distanceKm} className="flex-1 h-full flex flex-col justify-end"
+               title={`${p.distanceKm} km · ${p.lowPct==null ? "无数据 / no data" : `${Math.round(p.lowPct)}%`}`}>
+            {p.lowPct==null
+              ? <div className="h-full rounded border border-dashed border-gray-300" />
+              : <div className="rounded-t" style={{ height:`${Math.max(2, p.lowPct)}%`, background:color, opacity:0.8 }} />}
+          </div>
+        ))}
+      </div>
+      <div className="mt-0.5 flex gap-2 text-[11px] text-gray-500 tabular-nums">
+        {horizon.points.map(p=>(
+          <div key={p.distanceKm} className="flex-1 text-center">{p.distanceKm} km · {p.lowPct==null ? "—" : `${Math.round(p.lowPct)}%`}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 
 import React, { useEffect, useRef, useState } from "react";
-import { createClient } from "@supabase/supabase-js";
 import { Card, CardContent } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
-import { Loader2, LocateFixed, Download, FileText, CalendarDays, MapPin } from "lucide-react";
-import { SUPABASE_URL, SUPABASE_ANON_KEY } from "./supabaseConfig";
+import { Slider } from "./ui/slider";
+import { Loader2, LocateFixed, Download, FileText, CalendarDays, MapPin, X } from "lucide-react";
+import { SCORE_TIERS, labelFromScore, scoreTheme, eventLabel, type SunEvent } from "../lib/scoring";
+import { observationColumns, takeBoardPrefill, type ObservationFields, type PredictionSnapshot } from "../lib/observation";
+import { supabase, loadPosts } from "../lib/board";
 
-const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 const BUCKET = "uploads";
 
 type StoredFileRef = { name: string; url: string; type: string; size: number };
@@ -20,7 +21,7 @@ type Post = {
   place?: string | null;
   comment: string;
   files: StoredFileRef[];
-};
+} & ObservationFields;
 
 /* ------- helpers ------- */
 function sanitizeFileName(name: string){
@@ -62,6 +63,10 @@ export default function FeedbackBoardSupabase(){
   const [lon, setLon] = useState<number|null>(null);
   const [place, setPlace] = useState<string>("");
   const [comment, setComment] = useState<string>("");
+  // 实测评分 + 预测快照
+  const [event, setEvent] = useState<SunEvent>("sunset");
+  const [observed, setObserved] = useState<number|null>(null);
+  const [snapshot, setSnapshot] = useState<PredictionSnapshot|null>(null);
 
   // file capture
   const [pickedFiles, setPickedFiles] = useState<File[]>([]);
@@ -70,22 +75,20 @@ export default function FeedbackBoardSupabase(){
 
   useEffect(()=>{ void refresh(); },[]);
 
+  // 从预测页的单日卡片跳转过来：预填日期、地点、事件与快照
+  useEffect(()=>{
+    const pre = takeBoardPrefill();
+    if(!pre) return;
+    setSnapshot(pre);
+    setDate(pre.date); setLat(pre.lat); setLon(pre.lon); setEvent(pre.event);
+    if(pre.place) setPlace(pre.place);
+  },[]);
+
   async function refresh(){
     setLoading(true);
-    const { data, error } = await supabase
-      .from("posts")
-      .select("*")
-      .order("created_at", { ascending: false });
-    if(!error){
-      const rows = (data as any[]) ?? [];
-      rows.forEach(r=>{
-        if(!Array.isArray(r.files)){
-          try{ r.files = JSON.parse(r.files); }catch{ r.files = []; }
-        }
-      });
-      setPosts(rows as Post[]);
-    }
-    setLoading(false);
+    try{ setPosts(await loadPosts<Post>()); }
+    catch(e){ console.error(e); }
+    finally{ setLoading(false); }
   }
 
   function useMyLocation(){
@@ -135,16 +138,21 @@ export default function FeedbackBoardSupabase(){
   }
 
   async function submit(){
-    const snapshot = (filesRef.current || []).slice();
-    if(!comment.trim() && snapshot.length===0) return;
+    const picked = (filesRef.current || []).slice();
+    if(!comment.trim() && picked.length===0 && observed==null) return;
     setSubmitting(true);
     try{
-      const uploaded = await uploadAll(snapshot);
-      const payload = { date, lat, lon, place: place || null, comment: comment.trim(), files: uploaded };
+      const uploaded = await uploadAll(picked);
+      const payload = {
+        date, lat, lon, place: place || null, comment: comment.trim(), files: uploaded,
+        ...observationColumns({ event, observed, snapshot }),
+      };
       const { error } = await supabase.from("posts").insert(payload);
       if(error) throw error;
       // reset
       setComment("");
+      setObserved(null);
+      setSnapshot(null);
       setPickedFiles([]);
       filesRef.current = [];
       if(inputRef.current) inputRef.current.value = "";
@@ -198,6 +206,47 @@ export default function FeedbackBoardSupabase(){
             </div>
           </div>
 
+          <div className="grid md:grid-cols-3 gap-3">
+            <div>
+              <div className="text-sm text-gray-600 mb-1">Event / 事件</div>
+              <div className="flex gap-2">
+                {(["sunset","sunrise"] as SunEvent[]).map(ev=>(
+                  <Button key={ev} type="button" variant={event===ev ? "default" : "secondary"} className="px-3 py-1"
+                    onClick={()=>setEvent(ev)}>{eventLabel(ev)}</Button>
+                ))}
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <div className="text-sm text-gray-600 mb-1 flex items-center justify-between">
+                <span>Observed glow / 实测火烧云：{observed==null ? "未评分 / not rated" : `${observed} · ${labelFromScore(observed)}`}</span>
+                {observed!=null && <button type="button" className="text-xs text-gray-500 hover:underline" onClick={()=>setObserved(null)}>清除 / Clear</button>}
+              </div>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {[...SCORE_TIERS].reverse().map(t=>(
+                  <Button key={t.label} type="button" className="px-2 py-1 text-xs"
+                    variant={observed!=null && labelFromScore(observed)===t.label ? "default" : "secondary"}
+                    onClick={()=>setObserved(t.mid)}>{t.label}</Button>
+                ))}
+              </div>
+              <Slider value={[observed ?? 50]} min={0} max={100} step={1} onValueChange={(v)=>setObserved(v[0])}/>
+            </div>
+          </div>
+
+          {snapshot && (
+            <div className="rounded-xl border border-orange-200 bg-orange-50 px-3 py-2 text-xs text-orange-900">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <b>预测快照 / Prediction snapshot：</b>{snapshot.date} · {eventLabel(snapshot.event)} · {snapshot.score} {snapshot.label}
+                  {snapshot.place ? ` · ${snapshot.place}` : ""}
+                </div>
+                <button type="button" className="text-orange-700" title="移除快照 / Remove snapshot" onClick={()=>setSnapshot(null)}><X className="w-4 h-4"/></button>
+              </div>
+              {(snapshot.date!==date || snapshot.event!==event) && (
+                <div className="mt-1 text-amber-700">日期或事件与快照不一致，快照仍会按原样保存 / Date or event differs from the snapshot.</div>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="text-sm text-gray-600">Comment / 评论</label>
             <textarea
@@ -255,7 +304,7 @@ export default function FeedbackBoardSupabase(){
               {(submitting || uploading) ? <Loader2 className="w-4 h-4 animate-spin"/> : null}
               发布
             </Button>
-            <Button type="button" variant="secondary" onClick={()=>{ setComment(''); setPickedFiles([]); filesRef.current = []; if(inputRef.current) inputRef.current.value=''; }}>清空</Button>
+            <Button type="button" variant="secondary" onClick={()=>{ setComment(''); setObserved(null); setSnapshot(null); setPickedFiles([]); filesRef.current = []; if(inputRef.current) inputRef.current.value=''; }}>清空</Button>
             <div className="ml-auto">
               <Button type="button" variant="secondary" onClick={exportJSON} className="gap-2">
                 <Download className="w-4 h-4"/> 导出 JSON
@@ -285,6 +334,7 @@ export default function FeedbackBoardSupabase(){
                       </span>
                     )}
                   </div>
+                  {(p.event || p.observed_score!=null || p.snapshot) && <ObservationSummary post={p} />}
                   <div className="whitespace-pre-wrap text-gray-900">{p.comment || <span className="text-gray-400">(无文字)</span>}</div>
                 </div>
               </div>
@@ -320,4 +370,40 @@ export default function FeedbackBoardSupabase(){
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/* 实测 vs 预测：事件、实测评分、快照分数与差值；快照细节可展开 */
+function ObservationSummary({ post: p }:{ post: Post }){
+  const snap = p.snapshot;
+  const obs = p.observed_score;
+  const delta = obs!=null && snap ? obs - snap.score : null;
+  const chip = (score:number)=>{
+    const t = scoreTheme(score);
+    return <span className="rounded-full border px-2" style={{ background:t.bg, color:t.fg, borderColor:t.ring }}>{score} · {labelFromScore(score)}</span>;
+  };
+  const fmt = (v?:number, unit="")=> v==null ? "—" : `${Math.round(v)}${unit}`;
+  return (
+    <div className="text-xs text-gray-700 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        {p.event && <span className="text-gray-500">{eventLabel(p.event)}</span>}
+        {obs!=null && <span className="inline-flex items-center gap-1">实测 / Observed {chip(obs)}</span>}
+        {snap && <span className="inline-flex items-center gap-1">预测 / Predicted {chip(snap.score)}</span>}
+        {delta!=null && <span className="tabular-nums text-gray-500">Δ {delta>0 ? "+" : ""}{delta}</span>}
+      </div>
+      {snap && (
+        <details>
+          <summary className="cursor-pointer text-gray-500">快照细节 / Snapshot details（{new Date(snap.capturedAt).toLocaleString()}）</summary>
+          <div className="mt-1 grid gap-0.5 text-[11px] text-gray-600">
+            <div>窗口 ±{snap.windowMinutes} 分钟 · 锚点 {snap.anchorPhase}{snap.provider ? ` · ${snap.provider}` : ""}{snap.ensemble ? ` · 多模型 ${snap.ensemble.min}–${snap.ensemble.max}` : ""}</div>
+            <div>
+              高云 {fmt(snap.factors.high.avg,"%")} · 中云 {fmt(snap.factors.mid.avg,"%")} · 低云 {fmt(snap.factors.low.avg,"%")} ·
+              降水 {fmt(snap.factors.precip.avg,"%")} · 能见度 {fmt(snap.factors.visKm.avg," km")} · 风 {fmt(snap.factors.wind.avg," m/s")}
+              {snap.factors.horizonBlockage!=null && ` · 地平线遮挡 ${fmt(snap.factors.horizonBlockage,"%")}`}
+            </div>
+            <div className="tabular-nums">权重 / Weights：{Object.entries(snap.weights).map(([k,v])=>`${k} ${Number(v).toFixed(2)}`).join(" · ")}</div>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  OBSERVER_ALTITUDE_RANGE, apparentHorizon, horizonDip, parseHorizonProfile, sortProfile,
+  type LocalSunEvent, type Observer, type TerrainPoint,
+} from "../lib/scoring";
+
+const profileText = (p?:TerrainPoint[])=>(p ?? []).map(([a, e])=>`${a},${e}`).join("\n");
+
+/* ---------- 观测点：海拔与地形轮廓 ----------
+   value 省略 = 海平面、平坦地平（SunCalc 天文时刻）；清空后回调 undefined。
+   轮廓在文本框里逐行编辑（方位,仰角），或导入同格式的 CSV；点「应用」后才生效 */
+export default function ObserverPanel({
+  value, onChange, local
+}:{
+  value?: Observer;
+  onChange: (o:Observer|undefined)=>void;
+  local?: LocalSunEvent;          // 当前卡片的本地实际时刻（在轮廓图上标出太阳方位）
+}){
+  const [altInput, setAltInput] = useState(value?.altitude ? String(value.altitude) : "");
+  const [text, setText] = useState(profileText(value?.profile));
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement|null>(null);
+  const [lo, hi] = OBSERVER_ALTITUDE_RANGE;
+
+  // 外部（链接、本地设置）改动时同步输入框
+  useEffect(()=>{ setAltInput(value?.altitude ? String(value.altitude) : ""); },[value?.altitude]);
+  useEffect(()=>{ setText(profileText(value?.profile)); },[value?.profile]);
+
+  function update(next:Observer){
+    const clean: Observer = {
+      ...(next.altitude ? { altitude: next.altitude } : {}),
+      ...(next.profile?.length ? { profile: next.profile } : {}),
+    };
+    onChange(Object.keys(clean).length ? clean : undefined);
+  }
+  function editAltitude(raw:string){
+    setAltInput(raw);
+    const v = parseFloat(raw);
+    if(raw.trim()==="") update({ ...value, altitude: undefined });
+    else if(Number.isFinite(v) && v>=lo && v<=hi) update({ ...value, altitude: v });
+  }
+  function applyProfile(raw:string){
+    const { profile, errors } = parseHorizonProfile(raw);
+    setErrors(errors);
+    if(!errors.length) update({ ...value, profile });
+  }
+  async function importCsv(file:File){
+    const raw = await file.text();
+    setText(raw);
+    applyProfile(raw);
+    if(fileRef.current) fileRef.current.value = "";
+  }
+
+  const alt = parseFloat(altInput);
+  const altBad = altInput.trim()!=="" && !(Number.isFinite(alt) && alt>=lo && alt<=hi);
+
+  return (
+    <div className="grid gap-3 text-sm">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div>
+          <label className="text-xs text-gray-600">观测者高度 / Observer altitude（m）</label>
+          <Input type="number" step="10" placeholder="0" value={altInput} onChange={(e)=>editAltitude(e.target.value)}/>
+          <div className={`mt-1 text-[11px] ${altBad ? "text-rose-700" : "text-gray-500"}`}>
+            {altBad
+              ? `应在 ${lo}–${hi} 米 / must be within ${lo}–${hi} m`
+              : `地平俯角 / Horizon dip：${horizonDip(value?.altitude).toFixed(2)}°（高出视地平面的高度，山顶看海取海拔）`}
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">地形轮廓 / Horizon profile（方位,仰角 · azimuth,elevation °）</label>
+          <textarea rows={4} value={text} onChange={(e)=>setText(e.target.value)}
+            placeholder={"240,2.5\n270,6\n300,4"}
+            className="w-full rounded-lg border border-gray-300 px-2 py-1 font-mono text-xs text-gray-900 focus:border-orange-500 focus:outline-none"/>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" className="px-2 py-1 text-xs" onClick={()=>applyProfile(text)}>应用 / Apply</Button>
+            <input ref={fileRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden"
+              onChange={(e)=>{ const f = e.target.files?.[0]; if(f) void importCsv(f); }}/>
+            <Button variant="secondary" className="px-2 py-1 text-xs" onClick={()=>fileRef.current?.click()}>导入 CSV / Import CSV</Button>
+            {value && (
+              <Button variant="secondary" className="px-2 py-1 text-xs"
+                onClick={()=>{ setAltInput(""); setText(""); setErrors([]); onChange(undefined); }}>清除 / Clear</Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {errors.length>0 && (
+        <ul className="list-disc pl-5 text-xs text-rose-700">
+          {errors.slice(0, 5).map((e,i)=>(<li key={i} className="font-mono">{e}</li>))}
+          {errors.length>5 && <li>…（共 {errors.length} 条 / {errors.length} errors）</li>}
+        </ul>
+      )}
+
+      {value && <HorizonChart observer={value} local={local} />}
+
+      <div className="text-[11px] text-gray-500">
+        天文日出/日落按海平面、平坦地平计算。站得高时太阳更晚落下；山脊挡住时更早。设置后窗口改为围绕本地实际时刻。
+        Astronomical times assume a flat sea-level horizon; with an altitude or profile the window is centred on the local sunset (sunrise).
+      </div>
+    </div>
+  );
+}
+
+/* 视地平轮廓：横轴方位 0–360°，纵轴仰角；竖线为当前卡片本地日出/日落时的太阳方位 */
+function HorizonChart({ observer, local }:{ observer:Observer; local?:LocalSunEvent }){
+  const sorted = sortProfile(observer.profile ?? []);
+  const pts = Array.from({ length: 181 }, (_, i)=>[i*2, apparentHorizon(observer, i*2, sorted)] as TerrainPoint);
+  const els = pts.map(p=>p[1]);
+  const yMin = Math.min(0, ...els) - 0.5, yMax = Math.max(2, ...els) + 0.5;
+  const W = 360, H = 60;
+  const y = (e:number)=> H - (e - yMin)/(yMax - yMin)*H;
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="h-16 w-full rounded-lg bg-sky-50">
+        <polygon points={`0,${H} ${pts.map(([a, e])=>`${a},${y(e)}`).join(" ")} ${W},${H}`} fill="#78716c" opacity={0.5} />
+        <line x1={0} x2={W} y1={y(0)} y2={y(0)} stroke="#9ca3af" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+        {local && (
+          <line x1={local.azimuth} x2={local.azimuth} y1={0} y2={H} stroke="#f97316" strokeWidth={1.5} vectorEffect="non-scaling-stroke">
+            <title>{`太阳方位 / Sun azimuth ${local.azimuth.toFixed(1)}° · 视地平 / horizon ${local.horizon.toFixed(1)}°`}</title>
+          </line>
+        )}
+      </svg>
+      <div className="mt-0.5 flex justify-between text-[10px] text-gray-500 tabular-nums">
+        <span>N 0°</span><span>E 90°</span><span>S 180°</span><span>W 270°</span><span>N 360°</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import type { EventParams, SunEvent } from "../lib/scoring";
+import {
+  BUILTIN_PROFILES, DEFAULT_PROFILE_ID, loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId,
+  newProfileId, uniqueProfileName, type ParamProfile,
+} from "../lib/profiles";
+
+/* ---------- 参数方案：保存 / 切换 / 重命名 / 复制 / 删除 ---------- */
+export default function ProfileManager({
+  params, onApply
+}:{
+  params: Record<SunEvent, EventParams>;     // 当前日出、日落参数
+  onApply: (p:Record<SunEvent, EventParams>)=>void;
+}){
+  const [profiles,setProfiles] = useState<ParamProfile[]>([]);
+  const [activeId,setActiveId] = useState<string>(DEFAULT_PROFILE_ID);
+  const [nameDraft,setNameDraft] = useState("");
+
+  // 客户端挂载后读取本地方案库（参数本身由页面在挂载时恢复）
+  useEffect(()=>{
+    const list = loadProfiles();
+    setProfiles(list);
+    const id = loadActiveProfileId();
+    const p = [...BUILTIN_PROFILES, ...list].find(x=>x.id===id);
+    if(p){ setActiveId(p.id); setNameDraft(p.name); }
+  },[]);
+
+  const all = [...BUILTIN_PROFILES, ...profiles];
+  const active = all.find(p=>p.id===activeId) ?? BUILTIN_PROFILES[0];
+  const dirty = JSON.stringify(active.params)!==JSON.stringify(params);
+
+  function commit(list:ParamProfile[], nextActive?:ParamProfile){
+    setProfiles(list); saveProfiles(list);
+    if(nextActive){ setActiveId(nextActive.id); saveActiveProfileId(nextActive.id); setNameDraft(nextActive.name); }
+  }
+  function select(id:string){
+    const p = all.find(x=>x.id===id);
+    if(!p) return;
+    setActiveId(p.id); saveActiveProfileId(p.id); setNameDraft(p.name);
+    onApply(p.params);
+  }
+  function save(){
+    if(active.builtin) return;
+    commit(profiles.map(p=>p.id===active.id ? { ...p, params, updatedAt:Date.now() } : p));
+  }
+  function saveAs(){
+    const p:ParamProfile = {
+      id:newProfileId(), name:uniqueProfileName(all, nameDraft.trim() || "我的方案 / My profile"),
+      params, updatedAt:Date.now(),
+    };
+    commit([...profiles, p], p);
+  }
+  function rename(){
+    const name = nameDraft.trim();
+    if(active.builtin || !name || name===active.name) return;
+    const renamed = { ...active, name:uniqueProfileName(all.filter(p=>p.id!==active.id), name), updatedAt:Date.now() };
+    commit(profiles.map(p=>p.id===active.id ? renamed : p), renamed);
+  }
+  function duplicate(){
+    const p:ParamProfile = {
+      id:newProfileId(), name:uniqueProfileName(all, `${active.name} 副本 / copy`),
+      params:active.params, updatedAt:Date.now(),
+    };
+    commit([...profiles, p], p);
+  }
+  function remove(){
+    if(active.builtin || !window.confirm(`删除方案「${active.name}」？ / Delete this profile?`)) return;
+    // 当前参数保持不变，仅把选中项退回默认方案
+    commit(profiles.filter(p=>p.id!==active.id), BUILTIN_PROFILES[0]);
+  }
+
+  return (
+    <div className="grid gap-2 rounded-2xl border border-gray-100 bg-white/70 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">参数方案 / Profile：</span>
+        <select
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+          value={active.id}
+          onChange={(e)=>select(e.target.value)}
+        >
+          <optgroup label="内置 / Built-in">
+            {BUILTIN_PROFILES.map(p=>(<option key={p.id} value={p.id}>{p.name}</option>))}
+          </optgroup>
+          {profiles.length>0 && (
+            <optgroup label="我的方案 / My profiles">
+              {profiles.map(p=>(<option key={p.id} value={p.id}>{p.name}</option>))}
+            </optgroup>
+          )}
+        </select>
+        {dirty && <span className="text-xs text-amber-700">已修改 / modified</span>}
+        {dirty && <Button variant="secondary" className="px-3 py-1 text-xs" onClick={()=>onApply(active.params)}>还原 / Revert</Button>}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input className="h-8 w-56 text-xs" placeholder="方案名称 / Profile name" value={nameDraft} onChange={(e)=>setNameDraft(e.target.value)}/>
+        <Button className="px-3 py-1 text-xs" disabled={active.builtin || !dirty} onClick={save}>保存 / Save</Button>
+        <Button variant="secondary" className="px-3 py-1 text-xs" onClick={saveAs}>另存为 / Save as new</Button>
+        <Button variant="secondary" className="px-3 py-1 text-xs" disabled={active.builtin} onClick={rename}>重命名 / Rename</Button>
+        <Button variant="secondary" className="px-3 py-1 text-xs" onClick={duplicate}>复制 / Duplicate</Button>
+        <Button variant="secondary" className="px-3 py-1 text-xs" disabled={active.builtin} onClick={remove}>删除 / Delete</Button>
+      </div>
+      {active.builtin && (
+        <div className="text-[11px] text-gray-500">内置方案只读，修改后可「另存为」自己的方案。Built-in profiles are read-only; use Save as new to keep changes.</div>
+      )}
+    </div>
+  );
+}
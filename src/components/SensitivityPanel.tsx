@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from "react";
+import { Slider } from "./ui/slider";
+import {
+  sensitivity, whatIfScore, factorDef, formatFactor,
+  type EventParams, type FactorKey, type FactorValues, type SunsetItem,
+} from "../lib/scoring";
+
+/* ---------- 敏感度：龙卷风图 + what-if 滑块 ---------- */
+export default function SensitivityPanel({ item, params }:{ item: SunsetItem; params: EventParams }){
+  const [overrides,setOverrides] = useState<FactorValues>({});
+  const bars = useMemo(()=>sensitivity(item, params), [item, params]);
+  const base = useMemo(()=>whatIfScore(item, {}, params).score, [item, params]);
+  const whatIf = whatIfScore(item, overrides, params);
+  const delta = whatIf.score - base;
+  const edited = Object.keys(overrides).length>0;
+  const color = (key:string)=>(params.models[key as FactorKey] ?? factorDef(key as FactorKey).defaultModel).color;
+
+  return (
+    <div className="grid gap-3">
+      {item.ensemble && (
+        <div className="text-[11px] text-gray-500">
+          多模型：每个成员各自代入后重算，分数取 {item.ensemble.members.length} 个成员的中位数；取值范围来自代表成员 {item.ensemble.representative}。
+          Ensemble: scores are the median over {item.ensemble.members.length} members; ranges come from the representative member.
+        </div>
+      )}
+      {/* 龙卷风图：其他因子不变，该因子取窗口内 min–max 时总分的范围 */}
+      <div>
+        <div className="mb-1"><b>敏感度 / Sensitivity：</b> 因子在窗口内 min–max 变化时的总分范围（竖线为当前 {base}）</div>
+        <div className="space-y-1">
+          {bars.map(b=>{
+            const def = factorDef(b.key);
+            return (
+              <div key={b.key} className="grid grid-cols-12 items-center gap-2">
+                <div className="col-span-3 truncate text-gray-600" title={b.label}>{def.short}</div>
+                <div className="relative col-span-6 h-3 rounded bg-gray-100">
+                  {b.swing>0 && (
+                    <div
+                      className="absolute top-0 h-3 rounded opacity-70"
+                      style={{ left:`${b.low.score}%`, width:`${Math.max(1, b.high.score - b.low.score)}%`, background:color(b.key) }}
+                      title={`${formatFactor(def, b.low.x)} → ${b.low.score} · ${formatFactor(def, b.high.x)} → ${b.high.score}`}
+                    />
+                  )}
+                  <div className="absolute -top-0.5 h-4 w-px bg-gray-800" style={{ left:`${base}%` }} />
+                </div>
+                <div className="col-span-3 tabular-nums text-gray-600">
+                  {b.range ? `${b.low.score}–${b.high.score}（Δ${b.swing}）` : "窗口内不变 / flat"}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* what-if：替换因子取值后重新打分 */}
+      <div>
+        <div className="mb-1 flex flex-wrap items-center gap-2">
+          <b>What-if：</b>
+          <span className="tabular-nums">{whatIf.score} / 100</span>
+          {edited && <span className={`tabular-nums ${delta>0 ? "text-emerald-700" : delta<0 ? "text-rose-700" : "text-gray-500"}`}>（{delta>0 ? "+" : ""}{delta}）</span>}
+          {edited && <button className="text-orange-600 hover:underline" onClick={()=>setOverrides({})}>全部还原 / Reset all</button>}
+        </div>
+        <div className="space-y-2">
+          {item.explain.items.map(row=>{
+            const key = row.key as FactorKey;
+            const def = factorDef(key);
+            const [lo, hi] = def.domain;
+            const v = overrides[key] ?? row.value;
+            const changed = overrides[key]!=null;
+            return (
+              <div key={key} className="grid grid-cols-12 items-center gap-2">
+                <div className="col-span-3 truncate text-gray-600" title={row.label}>{def.short}</div>
+                <div className="col-span-6">
+                  <Slider
+                    value={[v ?? lo]} min={lo} max={hi} step={(hi - lo)/100}
+                    onValueChange={(x)=>setOverrides({ ...overrides, [key]: x[0] })}
+                  />
+                </div>
+                <div className="col-span-3 flex items-center gap-1 tabular-nums">
+                  <span className={changed ? "font-medium text-orange-700" : "text-gray-600"}>{formatFactor(def, v)}</span>
+                  {changed && (
+                    <button className="text-gray-400 hover:text-gray-700" title={`还原为 ${formatFactor(def, row.value)}`}
+                      onClick={()=>{ const { [key]:_, ...rest } = overrides; setOverrides(rest); }}>↺</button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,200 +4,126 @@ import { Card, CardContent } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Slider } from "./ui/slider";
-import { Loader2, LocateFixed, Sun, Cloud, CalendarDays, Info } from "lucide-react";
-import * as SunCalc from "suncalc";
-
-/* ---------- Types ---------- */
-interface OpenMeteoHourly {
-  time: string[];
-  cloudcover?: number[];
-  cloudcover_low?: number[];
-  cloudcover_mid?: number[];
-  cloudcover_high?: number[];
-  precipitation_probability?: number[];
-  visibility?: number[];       // meters
-  wind_speed_10m?: number[];   // m/s
-}
-interface OpenMeteoResponse {
-  latitude: number;
-  longitude: number;
-  timezone: string;
-  hourly: OpenMeteoHourly;
-}
-
-type StatAgg = { avg?: number; min?: number; max?: number };
-type ExplainRow = { key: string; label: string; s: number; w: number; contribution: number; note?: string };
-type SunsetItem = {
-  date: Date;
-  localISO: string;
-  score: number;
-  label: string;
-  highPct?: number; midPct?: number; lowPct?: number;
-  aggHigh: StatAgg; aggMid: StatAgg; aggLow: StatAgg;
-  aggPrecip: StatAgg; aggVisKm: StatAgg; aggWind: StatAgg;
-  explain: { items: ExplainRow[]; total: number; formula: string; };
-};
-
-/* ---------- Weights (已去掉 aerosol) ---------- */
-const defaultWeights = {
-  highCloud: 0.35,
-  midCloud: 0.25,
-  lowCloud: 0.15,
-  precip: 0.10,
-  visibility: 0.07,
-  wind: 0.08,
-};
-type Weights = typeof defaultWeights;
-
-/* ====== 评分模型（可调；已去掉 aod） ====== */
-type TriModel = { type:"tri"|"invTri"; m:number; w:number; color:string; unit:"%"|" m/s"|" km" };
-type ClampUpModel = { type:"clampUp"; threshold:number; full:number; color:string; unit:"%"|" m/s"|" km" };
-type ClampDownModel = { type:"clampDown"; min:number; max:number; color:string; unit:"%"|" m/s"|" km" };
-type ScoreModel = TriModel | ClampUpModel | ClampDownModel;
-
-type ScoreModels = {
-  high: TriModel;
-  mid: TriModel;
-  low: TriModel;      // tri (低云越低越好，理想=0)
-  pre: ClampDownModel;
-  vis: ClampUpModel;
-  wind: TriModel;
-};
-
-const defaultModels: ScoreModels = {
-  high: { type:"tri",    m:50, w:20, color:"#ef4444", unit:"%" },  // 高云：理想 50% ±20
-  mid:  { type:"tri",    m:40, w:20, color:"#f59e0b", unit:"%" },  // 中云：理想 40% ±20
-  low:  { type:"tri",    m:0,  w:20, color:"#3b82f6", unit:"%" },  // 低云：理想 0%（越低越好）
-  pre:  { type:"clampDown", min:0, max:100, color:"#22c55e", unit:"%" },     // 降水概率越小越好
-  vis:  { type:"clampUp",   threshold:5, full:15, color:"#a855f7", unit:" km" }, // 能见度>5km 线性增至15km满分
-  wind: { type:"tri",    m:4,  w:4,  color:"#0ea5e9", unit:" m/s" },
-};
-
-/* ---------- Utils ---------- */
-function clamp(x:number,a:number,b:number){ return Math.max(a, Math.min(b,x)); }
-function tri(x:number,m:number,w:number){ const d=Math.abs(x-m); return clamp(1-d/w,0,1); }
-function labelFromScore(s:number){ if(s>=85)return "🔥 Fire / 火烧云"; if(s>=70)return "Great / 极佳"; if(s>=55)return "Good / 较好"; if(s>=40)return "Fair / 一般"; return "Poor / 不佳"; }
-function metersToKm(m?:number){ return m==null?undefined:m/1000; }
-function scoreTheme(s:number){
-  if(s>=85)return{bg:"#fff1f2",fg:"#e11d48",ring:"#fecdd3"};
-  if(s>=70)return{bg:"#fff7ed",fg:"#ea580c",ring:"#fed7aa"};
-  if(s>=55)return{bg:"#fffbeb",fg:"#ca8a04",ring:"#fde68a"};
-  if(s>=40)return{bg:"#f3f4f6",fg:"#6b7280",ring:"#e5e7eb"};
-  return{bg:"#f3f4f6",fg:"#6b7280",ring:"#e5e7eb"};
-}
+import DayCard from "./DayCard";
+import CalibrationPanel from "./CalibrationPanel";
+import CurveEditor from "./CurveEditor";
+import ProfileManager from "./ProfileManager";
+import ABComparePanel from "./ABComparePanel";
+import AggregationPanel from "./AggregationPanel";
+import ObserverPanel from "./ObserverPanel";
+import { Loader2, LocateFixed, Sun, Cloud, Info, Link2, AlertTriangle } from "lucide-react";
+import {
+  defaultEventParams, bandsFromModels, predictEvents, predictEnsemble, eventLabel,
+  validateWeights, validateModels, activeFactors, FACTORS,
+  TWILIGHT_PHASES, phaseLabel, SCORE_TIERS, formatWindowSpan,
+  type SunsetItem, type ScoreTier, type Weights, type ScoreModels, type Band, type FactorKey, type OpenMeteoHourly,
+  type SunEvent, type EventParams, type PredictMode, type Aggregation, type MissingPolicy, type HorizonSeries, type TwilightPhase, type Observer,
+} from "../lib/scoring";
+import {
+  getProvider, FIXTURES, PROVIDER_OPTIONS, ENSEMBLE_MODELS, defaultEnsembleModels,
+  staleWhileRevalidate, cacheStats, clearCache, fetchHorizonSeries, fetchAirQuality, mergeHourly,
+  createRequestManager, fetchJson, assertCoords, validateCoords, isAborted, toFetchError,
+  type ForecastData, type ProviderId, type CacheStats, type WeatherFetchError,
+} from "../lib/weather";
+import { decodeLinkState, encodeLinkState } from "../lib/deepLink";
+import { snapshotFromItem, stashBoardPrefill } from "../lib/observation";
+import { bundleEvents, makeBundle, paramsFromBundle, parseBundle, type BundleMeta } from "../lib/paramBundle";
+import { loadActiveProfile, loadPredictorSettings, savePredictorSettings } from "../lib/profiles";
+import { abRowKey, pairPredictions, type ABSide } from "../lib/abCompare";
 
-// 0–1 → 0–100 归一化（open-meteo 有时给 0–1）
-function normalizePctArray(arr:(number|undefined)[]):number[]{
-  const nums = arr.filter((v):v is number => typeof v==="number");
-  if(!nums.length) return [];
-  const maxAbs = Math.max(...nums.map(v=>Math.abs(v)));
-  return maxAbs<=1.01 ? nums.map(v=>v*100) : nums;
-}
-function aggPctOverIndices(source:(number|undefined)[], idx:number[]):StatAgg{
-  const picked = idx.map(i=>source?.[i]).filter((v):v is number => typeof v==="number");
-  if(!picked.length) return {};
-  const norm = normalizePctArray(picked);
-  const sum = norm.reduce((a,b)=>a+b,0);
-  return { avg: sum/norm.length, min: Math.min(...norm), max: Math.max(...norm) };
-}
-function aggNumOverIndices(source:(number|undefined)[], idx:number[], map?:(n:number)=>number):StatAgg{
-  const picked = idx.map(i=>source?.[i]).filter((v):v is number => typeof v==="number");
-  if(!picked.length) return {};
-  const vals = map ? picked.map(map) : picked as number[];
-  const sum = vals.reduce((a,b)=>a+b,0);
-  return { avg: sum/vals.length, min: Math.min(...vals), max: Math.max(...vals) };
-}
+/* ---------- Component ---------- */
+type LoadedForecast = { data: ForecastData; members: Record<string, ForecastData>|null };
 
-/* 根据模型求 s（0–1） */
-function scoreByModel(x:number|undefined, model:ScoreModel): number|undefined {
-  if(x==null || Number.isNaN(x)) return undefined;
-  switch(model.type){
-    case "tri":     return tri(x, model.m, model.w);
-    case "invTri":  return 1 - tri(x, model.m, model.w);
-    case "clampUp": return clamp((x - model.threshold)/(model.full - model.threshold), 0, 1);
-    case "clampDown": return 1 - clamp((x - model.min)/(model.max - model.min), 0, 1);
-  }
-}
+// 坐标/参数变化后等待输入稳定再请求（逐字输入时不会每个字符都发请求）
+const FETCH_DEBOUNCE_MS = 400;
+const PLACE_DEBOUNCE_MS = 300;
 
-/* ---------- 可视化区间类型 ---------- */
-type Band = { min: number; max: number; center: number; color: string; unit: string };
-
-/* 由 scoreModels 推导柱状图目标区间（包含单位） */
-function bandFromModel(key: keyof ScoreModels, m: ScoreModels[keyof ScoreModels]): Band {
-  switch (m.type) {
-    case "tri":
-      return {
-        min: clamp(m.m - m.w, 0, key === "wind" ? 20 : 100),
-        max: clamp(m.m + m.w, 0, key === "wind" ? 20 : 100),
-        center: m.m,
-        color: m.color,
-        unit: m.unit,
-      };
-    case "invTri":
-      return {
-        min: 0,                             // 越低越好，展示 [0, m-w]
-        max: clamp(m.m - m.w, 0, 100),
-        center: 0,
-        color: m.color,
-        unit: m.unit,
-      };
-    case "clampUp":
-      return {
-        min: m.threshold,                   // 从 threshold 到 full 逐步满分
-        max: m.full,
-        center: m.full,
-        color: m.color,
-        unit: m.unit,
-      };
-    case "clampDown": {
-      // 越小越好：展示靠近 min 的一段目标区间（20% 范围）
-      const span = Math.max(0, (m.max - m.min) * 0.2);
-      return {
-        min: m.min,
-        max: m.min + span,
-        center: m.min,
-        color: m.color,
-        unit: m.unit,
-      };
-    }
-  }
-}
-
-/* ---------- Component ---------- */
 export default function SunsetPredictor(){
   const [lat,setLat] = useState<number|null>(null);
   const [lon,setLon] = useState<number|null>(null);
   const [place,setPlace] = useState<string|null>(null);
+  // 坐标输入框的原文：合法时才写入 lat/lon，非法时就地提示、不发请求
+  const [latInput,setLatInput] = useState("");
+  const [lonInput,setLonInput] = useState("");
+  const coordErrors = validateCoords(parseFloat(latInput), parseFloat(lonInput))
+    .filter(e=>(e.startsWith("lat") ? latInput : lonInput).trim()!=="");
 
   const [loading,setLoading] = useState(false);
-  const [data,setData] = useState<OpenMeteoResponse|null>(null);
+  const [loadError,setLoadError] = useState<WeatherFetchError|null>(null);
+  const [data,setData] = useState<ForecastData|null>(null);
+  const [providerId,setProviderId] = useState<ProviderId>("open-meteo");
+  const [fixtureId,setFixtureId] = useState<string>(FIXTURES[0].id);
+  // 多模型集合
+  const [ensembleOn,setEnsembleOn] = useState(false);
+  const [ensembleModels,setEnsembleModels] = useState<string[]>(defaultEnsembleModels);
+  const [members,setMembers] = useState<Record<string, ForecastData>|null>(null);
+  const canEnsemble = !!getProvider(providerId, fixtureId).fetchEnsemble;
+  // 沿太阳方位的地平线采样（额外请求 4 个点/事件）
+  const [horizonOn,setHorizonOn] = useState(false);
+  const [horizonByEvent,setHorizonByEvent] = useState<Partial<Record<SunEvent, HorizonSeries>>>({});
+  // 缓存：数据时间与离线状态
+  const [asOf,setAsOf] = useState<number|null>(null);
+  const [offline,setOffline] = useState(false);
+  const [cacheInfo,setCacheInfo] = useState<CacheStats>({ entries:0, bytes:0 });
+  function refreshCacheInfo(){ void cacheStats().then(setCacheInfo); }
+  useEffect(()=>{ refreshCacheInfo(); },[]);
   const [tz,setTz] = useState<string|null>(null);
   const [days,setDays] = useState(5);
-  const [weights, setWeights] = useState<Weights>(defaultWeights);
   const [status,setStatus] = useState("");
   const [windowMinutes,setWindowMinutes] = useState(90);
+  const [anchorPhase,setAnchorPhase] = useState<TwilightPhase>("event");   // ±窗口锚定的时刻
+  const [observer,setObserver] = useState<Observer|undefined>();           // 观测者高度与地形轮廓（本地实际日出/日落）
   const [openDetail, setOpenDetail] = useState<number|null>(null);
 
-  // 可调模型
-  const [scoreModels, setScoreModels] = useState<ScoreModels>(defaultModels);
+  // 预测模式：日落 / 日出 / 两者
+  const [mode,setMode] = useState<PredictMode>("sunset");
+  const [editEvent,setEditEvent] = useState<SunEvent>("sunset");
+
+  // 可调权重与模型（日出、日落各一套）
+  const [eventParams, setEventParams] = useState<Record<SunEvent, EventParams>>(defaultEventParams);
+  const profileEvent: SunEvent = mode==="both" ? editEvent : mode;   // 面板当前编辑的事件
+  const weights = eventParams[profileEvent].weights;
+  const scoreModels = eventParams[profileEvent].models;
+  function setWeights(w:Weights){ setEventParams(p=>({ ...p, [profileEvent]: { ...p[profileEvent], weights:w } })); }
+  function setScoreModels(m:ScoreModels){ setEventParams(p=>({ ...p, [profileEvent]: { ...p[profileEvent], models:m } })); }
+  function setMissingPolicy(m:MissingPolicy){
+    setEventParams(p=>{ const { missing:_, ...rest } = p[profileEvent]; return { ...p, [profileEvent]: m==="renormalize" ? { ...rest, missing:m } : rest }; });
+  }
+  function setAggregation(a?:Aggregation){
+    setEventParams(p=>{ const { aggregation:_, ...rest } = p[profileEvent]; return { ...p, [profileEvent]: a ? { ...rest, aggregation:a } : rest }; });
+  }
+
+  // 分级阈值与配色（默认五档，可由参数包替换）
+  const [tiers,setTiers] = useState<readonly ScoreTier[]>(SCORE_TIERS);
+  // A/B 对比：另一套参数（null = 关闭）
+  const [abSide,setAbSide] = useState<ABSide|null>(null);
 
-  // 导入/导出
+  // 导入/导出：参数包元数据与导入结果（逐字段错误就地显示）
   const fileRef = useRef<HTMLInputElement|null>(null);
-  type ParamBundle = { version: 1; weights: Weights; models: ScoreModels };
+  const [bundleMeta,setBundleMeta] = useState<Pick<BundleMeta,"name"|"author"|"description">>({ name:"", author:"", description:"" });
+  const [importErrors,setImportErrors] = useState<string[]>([]);
+  const [importNote,setImportNote] = useState<string|null>(null);
 
   const canQuery = lat!=null && lon!=null;
 
+  // 每类请求各一个管理器：新请求取消旧请求，旧结果不会覆盖新结果；卸载时全部取消
+  const requests = useRef({
+    forecast: createRequestManager(), horizon: createRequestManager(),
+    air: createRequestManager(), place: createRequestManager(),
+  }).current;
+  useEffect(()=>()=>Object.values(requests).forEach(r=>r.cancel()),[]);
+
   // ---- Reverse geocode (EN) & setPlace ----
   async function fetchPlaceName(la:number, lo:number){
+    const fallback = `${la.toFixed(4)}, ${lo.toFixed(4)}`;
     try{
-      const url = `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${la}&longitude=${lo}&localityLanguage=en`;
-      const res = await fetch(url);
-      if(!res.ok) throw new Error(`HTTP ${res.status}`);
-      const j = await res.json();
-      const name = j.city || j.locality || j.principalSubdivision || j.countryName || `${la.toFixed(4)}, ${lo.toFixed(4)}`;
-      setPlace(String(name));
-    }catch{
-      setPlace(`${la.toFixed(4)}, ${lo.toFixed(4)}`);
+      const j = await requests.place.run(signal=>fetchJson<Record<string, string|undefined>>(
+        `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${la}&longitude=${lo}&localityLanguage=en`,
+        { signal, retries:0 },
+      ), { debounceMs:PLACE_DEBOUNCE_MS });
+      setPlace(String(j.city || j.locality || j.principalSubdivision || j.countryName || fallback));
+    }catch(e){
+      if(!isAborted(e)) setPlace(fallback);
     }
   }
 
@@ -209,140 +135,248 @@ export default function SunsetPredictor(){
           const la = +p.coords.latitude.toFixed(5);
           const lo = +p.coords.longitude.toFixed(5);
           setLat(la); setLon(lo);
-          fetchPlaceName(la, lo);
         },
         ()=>{
           const la = 46.5197, lo = 6.6323; // Lausanne fallback
           setLat(la); setLon(lo);
-          fetchPlaceName(la, lo);
         },
         { enableHighAccuracy:true, timeout:12000, maximumAge:0 }
       );
     }else{
       const la = 46.5197, lo = 6.6323;
       setLat(la); setLon(lo);
-      fetchPlaceName(la, lo);
     }
   }
-  useEffect(()=>{ requestLocation(); },[]);
 
-  // If user edits lat/lon manually, refresh place name (debounced)
+  // ---- 分享链接：挂载时从 URL 恢复状态（无坐标时才自动定位） ----
+  // 本地保存的天数/窗口与上次使用的参数方案先恢复，链接里带的值优先
+  const [linkWarnings,setLinkWarnings] = useState<string[]>([]);
+  const [copied,setCopied] = useState(false);
+  useEffect(()=>{
+    const saved = loadPredictorSettings();
+    if(saved.days!=null) setDays(saved.days);
+    if(saved.windowMinutes!=null) setWindowMinutes(saved.windowMinutes);
+    if(saved.observer) setObserver(saved.observer);
+    const profile = loadActiveProfile();
+    if(profile) setEventParams(profile.params);
+    const { state:link, warnings } = decodeLinkState(window.location.search);
+    setLinkWarnings(warnings);
+    if(link.days!=null) setDays(link.days);
+    if(link.windowMinutes!=null) setWindowMinutes(link.windowMinutes);
+    if(link.anchor) setAnchorPhase(link.anchor);
+    if(link.observer) setObserver(link.observer);
+    if(link.mode) setMode(link.mode);
+    if(link.params) setEventParams(p=>({ ...p, ...link.params }));
+    if(link.detail!=null) setOpenDetail(link.detail);
+    if(link.lat!=null && link.lon!=null){
+      setLat(link.lat); setLon(link.lon);
+    }else{
+      requestLocation();
+    }
+  },[]);
+
+  const linkQuery = encodeLinkState({
+    lat: lat!=null && Number.isFinite(lat) ? lat : undefined,
+    lon: lon!=null && Number.isFinite(lon) ? lon : undefined,
+    days, windowMinutes, anchor: anchorPhase, mode, detail: openDetail, params: eventParams, observer,
+  });
+  // 天数、窗口与观测者写回本地（须在上面的恢复之后声明）
+  useEffect(()=>{ savePredictorSettings({ days, windowMinutes, observer }); },[days,windowMinutes,observer]);
+
+  // 地址栏随状态同步，刷新页面即可恢复
+  useEffect(()=>{
+    const url = `${window.location.pathname}${linkQuery ? `?${linkQuery}` : ""}${window.location.hash}`;
+    window.history.replaceState(null, "", url);
+  },[linkQuery]);
+
+  async function copyLink(){
+    const url = `${window.location.origin}${window.location.pathname}?${linkQuery}`;
+    try{
+      await navigator.clipboard.writeText(url);
+      setCopied(true); setTimeout(()=>setCopied(false), 2000);
+    }catch{
+      window.prompt("复制链接 / Copy link", url);
+    }
+  }
+
+  // 坐标变化（定位、链接或手动输入）后刷新地名（防抖）；输入框跟随外部设置的坐标
   useEffect(()=>{
     if(lat==null||lon==null) return;
-    const id = setTimeout(()=>{ fetchPlaceName(lat, lon); }, 300);
-    return ()=>clearTimeout(id);
+    void fetchPlaceName(lat, lon);
+    if(parseFloat(latInput)!==lat) setLatInput(String(lat));
+    if(parseFloat(lonInput)!==lon) setLonInput(String(lon));
   },[lat,lon]);
+  function editCoord(which:"lat"|"lon", text:string){
+    (which==="lat" ? setLatInput : setLonInput)(text);
+    const v = parseFloat(text);
+    const ok = which==="lat" ? Number.isFinite(v) && Math.abs(v)<=90 : Number.isFinite(v) && Math.abs(v)<=180;
+    if(ok) (which==="lat" ? setLat : setLon)(v);
+  }
 
-  async function fetchForecast(){
+  // force：手动点击「获取预报」或「重试」时跳过缓存新鲜期且不防抖
+  async function fetchForecast(force=false){
     if(!canQuery) return;
-    setLoading(true); setStatus("Fetching forecast / 获取天气数据…");
+    const provider = getProvider(providerId, fixtureId);
+    setLoading(true); setLoadError(null); setStatus("Fetching forecast / 获取天气数据…");
+    try{
+      await requests.forecast.run(async signal=>{
+        assertCoords(lat!, lon!);
+        const useEnsemble = ensembleOn && !!provider.fetchEnsemble && ensembleModels.length>0;
+        const load = async ():Promise<LoadedForecast>=>{
+          if(useEnsemble){
+            const byModel = await provider.fetchEnsemble!({ lat:lat!, lon:lon!, days, models:ensembleModels, signal });
+            const first = Object.values(byModel)[0];
+            if(!first) throw new Error("所选模型均无数据 / No data from selected models");
+            return { data:first, members:byModel };
+          }
+          return { data: await provider.fetchForecast({ lat:lat!, lon:lon!, days, signal }), members:null };
+        };
+        // 缓存先到、网络后到：已被取代的请求不再写入
+        const apply = (p:LoadedForecast, meta:{ savedAt:number })=>{
+          if(signal.aborted) return;
+          setMembers(p.members); setData(p.data); setTz(p.data.timezone); setAsOf(meta.savedAt);
+        };
+        if(!provider.online){
+          apply(await load(), { savedAt:Date.now() }); setOffline(false);
+          setStatus(`Forecast loaded / 预报已就绪 · ${provider.label}`);
+          return;
+        }
+        const res = await staleWhileRevalidate(
+          { provider:providerId, lat:lat!, lon:lon!, days, models: useEnsemble ? ensembleModels : undefined },
+          load, apply, force,
+        );
+        setOffline(res.offline);
+        setStatus(res.offline ? "离线，显示缓存 / Offline, showing cached forecast" : `Forecast loaded / 预报已就绪 · ${provider.label}`);
+        refreshCacheInfo();
+      }, { debounceMs: force ? 0 : FETCH_DEBOUNCE_MS });
+      setLoading(false);
+    }catch(e){
+      if(isAborted(e)) return;   // 较新的请求接管了 loading 状态
+      console.error(e);
+      const err = toFetchError(e, provider.label);
+      setLoading(false); setLoadError(err); setStatus(err.message);
+    }
+  }
+  useEffect(()=>{ if(canQuery) fetchForecast(); },[lat,lon,days,providerId,fixtureId,ensembleOn,ensembleModels.join(",")]);
+
+  // 地平线采样点：每个点按普通预报缓存（payload 与主预报同形），失败时只提示、不影响主预报
+  async function fetchHorizon(){
+    if(!canQuery || !horizonOn){ requests.horizon.cancel(); setHorizonByEvent({}); return; }
+    const provider = getProvider(providerId, fixtureId);
+    const load = async (req:{ lat:number; lon:number; days:number; signal?:AbortSignal }):Promise<ForecastData>=>{
+      if(!provider.online) return provider.fetchForecast(req);
+      let out:ForecastData|null = null;
+      await staleWhileRevalidate<LoadedForecast>(
+        { provider:providerId, lat:req.lat, lon:req.lon, days },
+        ()=>provider.fetchForecast(req).then(data=>({ data, members:null })),
+        (p)=>{ out = p.data; },
+      );
+      return out!;
+    };
+    const events: SunEvent[] = mode==="both" ? ["sunrise","sunset"] : [mode];
     try{
-      const params = new URLSearchParams({
-        latitude:String(lat), longitude:String(lon),
-        hourly:[
-          "cloudcover","cloudcover_low","cloudcover_mid","cloudcover_high",
-          "precipitation_probability","visibility","wind_speed_10m"
-        ].join(","), timezone:"auto", forecast_days:String(days),
-      });
-      const url=`https://api.open-meteo.com/v1/forecast?${params.toString()}`;
-      const res=await fetch(url);
-      if(!res.ok) throw new Error(await res.text());
-      const json:OpenMeteoResponse=await res.json();
-      setData(json); setTz(json.timezone); setStatus("Forecast loaded / 预报已就绪");
-    }catch(e:any){ console.error(e); setStatus(e?.message||"Failed to load forecast / 加载失败"); }
-    finally{ setLoading(false); }
+      const series = await requests.horizon.run(signal=>
+        Promise.all(events.map(ev=>fetchHorizonSeries(provider, { lat:lat!, lon:lon!, days, signal }, ev, load))),
+        { debounceMs:FETCH_DEBOUNCE_MS });
+      setHorizonByEvent(Object.fromEntries(series.filter(Boolean).map(h=>[h!.event, h!])));
+      refreshCacheInfo();
+    }catch(e){
+      if(isAborted(e)) return;
+      console.error(e); setHorizonByEvent({});
+      setStatus(`地平线采样失败 / Horizon sampling failed：${toFetchError(e, provider.label).message}`);
+    }
+  }
+  useEffect(()=>{ void fetchHorizon(); },[lat,lon,days,providerId,fixtureId,horizonOn,mode]);
+
+  // 气溶胶：任一参与预测的事件开启 AOD 因子时，另行请求空气质量接口并按时刻并入预报
+  const activeEvents: SunEvent[] = mode==="both" ? ["sunrise","sunset"] : [mode];
+  const aerosolOn = activeEvents.some(ev=>eventParams[ev].weights.aerosol!=null || abSide?.params[ev]?.weights.aerosol!=null);
+  const [airQuality,setAirQuality] = useState<OpenMeteoHourly|null>(null);
+  async function fetchAir(){
+    if(!canQuery || !aerosolOn || !getProvider(providerId, fixtureId).online){ requests.air.cancel(); setAirQuality(null); return; }
+    try{
+      await requests.air.run(signal=>staleWhileRevalidate<OpenMeteoHourly>(
+        { provider:"open-meteo-aq", lat:lat!, lon:lon!, days },
+        ()=>fetchAirQuality({ lat:lat!, lon:lon!, days, signal }),
+        (h)=>{ if(!signal.aborted) setAirQuality(h); },
+      ), { debounceMs:FETCH_DEBOUNCE_MS });
+      refreshCacheInfo();
+    }catch(e){
+      if(isAborted(e)) return;
+      console.error(e); setAirQuality(null);
+      setStatus(`气溶胶数据获取失败 / Aerosol fetch failed：${toFetchError(e, "Open-Meteo Air Quality").message}`);
+    }
   }
-  useEffect(()=>{ if(canQuery) fetchForecast(); },[lat,lon,days]);
+  useEffect(()=>{ void fetchAir(); },[lat,lon,days,providerId,fixtureId,aerosolOn]);
 
-  const sunsets = useMemo<SunsetItem[]>(()=>{
+  // 用给定参数对当前预报打分；A/B 对比时 B 走同一流程
+  function scoreWith(byEvent:Partial<Record<SunEvent, EventParams>>):SunsetItem[]{
     if(!data||!canQuery) return [];
-    const t = data.hourly.time.map(s=>new Date(s));
-    const out:SunsetItem[]=[]; const today=new Date();
-
-    for(let d=0; d<days; d++){
-      const day=new Date(today); day.setDate(today.getDate()+d);
-      const sunset = SunCalc.getTimes(day, lat!, lon!).sunset;
-      const windowStart = new Date(sunset.getTime() - windowMinutes*60*1000);
-      const windowEnd   = new Date(sunset.getTime() + windowMinutes*60*1000);
-
-      const idx:number[]=[]; for(let i=0;i<t.length;i++){ if(t[i]>=windowStart && t[i]<=windowEnd) idx.push(i); }
-      if(!idx.length) continue;
-
-      // 聚合统计
-      const aggHigh  = aggPctOverIndices(data.hourly.cloudcover_high ?? [], idx);
-      const aggMid   = aggPctOverIndices(data.hourly.cloudcover_mid  ?? [], idx);
-      const aggLow   = aggPctOverIndices(data.hourly.cloudcover_low  ?? [], idx);
-      const aggPrecip= aggPctOverIndices(data.hourly.precipitation_probability ?? [], idx);
-      const aggVisKm = aggNumOverIndices(data.hourly.visibility ?? [], idx, metersToKm);
-      const aggWind  = aggNumOverIndices(data.hourly.wind_speed_10m ?? [], idx);
-
-      const ccHigh=aggHigh.avg, ccMid=aggMid.avg, ccLow=aggLow.avg;
-      const pPrecip=aggPrecip.avg, visKm=aggVisKm.avg, wind=aggWind.avg;
-
-      // s_i（0–1）—— 使用 *可调* 模型 scoreModels（实时联动）
-      const sHigh = scoreByModel(ccHigh, scoreModels.high) ?? 0.5;
-      const sMid  = scoreByModel(ccMid,  scoreModels.mid ) ?? 0.5;
-      const sLow  = scoreByModel(ccLow,  scoreModels.low ) ?? 0.5;
-      const sPre  = scoreByModel(pPrecip,scoreModels.pre ) ?? 0.6;
-      const sVis  = scoreByModel(visKm,  scoreModels.vis ) ?? 0.6;
-      const sWind = scoreByModel(wind,   scoreModels.wind) ?? 0.6;
-
-      const w=weights;
-      const parts = [
-        { key:"high", label:"High cloud / 高云",           s:sHigh, w:w.highCloud,  note: ccHigh==null ? "No data / 无数据" : undefined },
-        { key:"mid",  label:"Mid cloud / 中云",            s:sMid,  w:w.midCloud,   note: ccMid==null  ? "No data / 无数据" : undefined },
-        { key:"low",  label:"Low cloud / 低云",            s:sLow,  w:w.lowCloud,   note: ccLow==null  ? "No data / 无数据" : undefined },
-        { key:"pre",  label:"Precip prob / 降水概率",      s:sPre,  w:w.precip,     note: pPrecip==null? "No data / 无数据" : undefined },
-        { key:"vis",  label:"Visibility / 能见度",         s:sVis,  w:w.visibility, note: visKm==null  ? "No data / 无数据" : undefined },
-        { key:"wind", label:"Wind / 风速",                 s:sWind, w:w.wind,       note: wind==null   ? "No data / 无数据" : undefined },
-      ].map(it => ({ ...it, contribution: Math.round(it.s * it.w * 1000)/10 }));
-
-      const score0 = parts.reduce((acc,it)=>acc+it.contribution,0);
-      const score = Math.round(clamp(score0,0,100));
-      const formula = parts.filter(it=>it.w>0).map(it=>`${it.w.toFixed(2)}×${it.s.toFixed(2)}`).join(" + ");
-
-      out.push({
-        date: day, localISO: sunset.toLocaleString(), score, label: labelFromScore(score),
-        highPct: ccHigh, midPct: ccMid, lowPct: ccLow,
-        aggHigh, aggMid, aggLow, aggPrecip, aggVisKm, aggWind,
-        explain: { items: parts, total: score, formula }
-      });
-    }
-    return out;
-  // ⭐ 关键：加入 scoreModels 作为依赖，保证拖动参数/导入文件后实时更新分数与细节
-  },[data,lat,lon,days,weights,windowMinutes,scoreModels]);
+    const params = Object.fromEntries(activeEvents.map(ev=>[ev, byEvent[ev] ?? eventParams[ev]]));
+    const opts = { lat:lat!, lon:lon!, days, windowMinutes, anchorPhase, tiers, timeZone: data.timezone, observer, horizon: horizonOn ? horizonByEvent : undefined };
+    const withAir = (d:ForecastData)=> airQuality ? mergeHourly(d, airQuality) : d;
+    return members
+      ? predictEnsemble(Object.fromEntries(Object.entries(members).map(([k,d])=>[k, withAir(d)])), opts, params)
+      : predictEvents(withAir(data), opts, params);
+  }
+  const scoreDeps = [data,members,lat,lon,days,windowMinutes,anchorPhase,observer,mode,eventParams,horizonOn,horizonByEvent,airQuality,tiers];
+  // ⭐ 关键：加入 eventParams 作为依赖，保证拖动参数/导入文件后实时更新分数与细节
+  const sunsets = useMemo<SunsetItem[]>(()=>scoreWith(eventParams), scoreDeps);
+  const sunsetsB = useMemo<SunsetItem[]>(()=>abSide ? scoreWith(abSide.params) : [], [...scoreDeps, abSide]);
+  const abRows = useMemo(()=>abSide ? pairPredictions(sunsets, sunsetsB) : [], [sunsets, sunsetsB, abSide]);
+
+  // 曲线编辑器上标记的"当日"：展开的卡片，否则为当前编辑事件的第一张
+  const todayItem = (openDetail!=null && sunsets[openDetail]?.event===profileEvent ? sunsets[openDetail] : undefined)
+    ?? sunsets.find(s=>s.event===profileEvent);
+  const todayValue = (key:FactorKey)=> key==="horizon" ? todayItem?.horizon?.blockage : todayItem?.agg[key]?.value ?? todayItem?.agg[key]?.avg;
+
+  /* 单日卡片 → 留言板：冻结当前预测与参数，跳转后自动预填 */
+  function logObservation(item:SunsetItem){
+    const { weights, models, aggregation, missing } = eventParams[item.event];
+    stashBoardPrefill(snapshotFromItem(item, { lat:lat!, lon:lon!, place, windowMinutes, weights, models, aggregation, missing, observer, provider:providerId }));
+    window.location.href = `${import.meta.env.BASE_URL}board`;
+  }
 
-  /* ===== 导出 / 导入参数（权重 + 模型） ===== */
+  // 滑块为基准分钟数；聚合设置了前后倍数时显示实际前后分钟（两事件不同则分别列出）
+  const spanOf = (ev:SunEvent)=>formatWindowSpan(windowMinutes, eventParams[ev].aggregation);
+  const windowText = mode==="both" && spanOf("sunrise")!==spanOf("sunset")
+    ? (["sunrise","sunset"] as SunEvent[]).map(ev=>`${eventLabel(ev).split(" / ")[0]} ${spanOf(ev)}`).join(" · ")
+    : spanOf(profileEvent);
+
+  /* ===== 导出 / 导入参数包（v2：权重 + 模型 + 窗口 + 分级 + 元数据） =====
+     两者模式下日出、日落两套参数一起导出；导入时包内带哪些事件就替换哪些 */
+  const exportEvents: SunEvent[] = mode==="both" ? ["sunrise","sunset"] : [profileEvent];
+  const exportLabel = exportEvents.map(ev=>eventLabel(ev).split(" / ")[0]).join(" + ");
   function exportParams(){
-    const bundle = { version: 1 as const, weights, models: scoreModels };
+    const bundle = makeBundle(eventParams[profileEvent], {
+      windowMinutes, tiers, event: profileEvent,
+      ...(mode==="both" ? { byEvent: eventParams } : {}),
+      meta: { ...bundleMeta, name: bundleMeta.name.trim() || `${exportLabel} · ${place ?? "Sunset Predictor"}` },
+    });
     const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `sunsetpredictor-params-v1.json`;
+    a.download = `sunsetpredictor-params-v2.json`;
     document.body.appendChild(a);
     a.click();
     a.remove();
     URL.revokeObjectURL(url);
   }
   async function importParams(file: File){
+    setImportErrors([]); setImportNote(null);
     try{
-      const text = await file.text();
-      const json = JSON.parse(text);
-      // 轻量校验
-      if (json?.version !== 1 || !json?.weights || !json?.models) throw new Error("文件结构不符合 v1 参数格式");
-      const w = json.weights as Weights;
-      const m = json.models as ScoreModels;
-      // 关键字段存在性检查
-      const wk = ["highCloud","midCloud","lowCloud","precip","visibility","wind"];
-      if (!wk.every(k => typeof (w as any)[k] === "number")) throw new Error("weights 字段缺失或类型错误");
-      const mk = ["high","mid","low","pre","vis","wind"];
-      if (!mk.every(k => m[k as keyof ScoreModels])) throw new Error("models 字段缺失");
-      setWeights(w);
-      setScoreModels(m);
-      alert("参数已导入并生效。");
+      const json = JSON.parse(await file.text());
+      const { bundle, errors, migrated } = parseBundle(json, { name: file.name.replace(/\.json$/i, "") });
+      if(!bundle){ setImportErrors(errors); return; }
+      const events = bundle.byEvent ? bundleEvents(bundle) : [profileEvent];
+      setEventParams(p=>({ ...p, ...Object.fromEntries(events.map(ev=>[ev, paramsFromBundle(bundle, ev)])) }));
+      setWindowMinutes(bundle.windowMinutes);
+      setTiers(bundle.tiers);
+      setBundleMeta({ name: bundle.meta.name, author: bundle.meta.author ?? "", description: bundle.meta.description ?? "" });
+      setImportNote(`已导入「${bundle.meta.name}」→ ${events.map(ev=>eventLabel(ev)).join(" + ")}${bundle.meta.author ? ` · ${bundle.meta.author}` : ""}${migrated ? " · 已从 v1 迁移 / migrated from v1" : ""}`);
     }catch(e:any){
-      alert(`导入失败：${e?.message || e}`);
+      setImportErrors([`JSON 解析失败 / Invalid JSON：${e?.message || e}`]);
     }finally{
       if (fileRef.current) fileRef.current.value = "";
     }
@@ -354,21 +388,61 @@ export default function SunsetPredictor(){
   
     return (
       <div className="grid gap-4">
+        {/* —— 参数方案库 —— */}
+        <ProfileManager params={eventParams} onApply={setEventParams} />
+
+        {/* —— both 模式下选择编辑哪一套参数 —— */}
+        {mode==="both" && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>编辑参数 / Editing profile：</span>
+            {(["sunrise","sunset"] as SunEvent[]).map(ev=>(
+              <Button key={ev} variant={editEvent===ev ? "default" : "secondary"} className="px-3 py-1"
+                onClick={()=>setEditEvent(ev)}>{eventLabel(ev)}</Button>
+            ))}
+          </div>
+        )}
+
         {/* —— 权重 —— */}
         <CollapsibleSection
-          title="Weights (click to fold) / 权重 (点击收起)"
+          title={`Weights (click to fold) / 权重 (点击收起) · ${eventLabel(profileEvent)}`}
           hint={`当前合计：${sum.toFixed(2)} · 建议≈1.00`}
           storageKey="panel.weights"
           defaultOpen
         >
-          <WeightRow label="High cloud 高云" value={weights.highCloud} onChange={v=>setWeights({...weights, highCloud:v})}/>
-          <WeightRow label="Mid cloud 中云"  value={weights.midCloud}  onChange={v=>setWeights({...weights, midCloud:v})}/>
-          <WeightRow label="Low cloud 低云"  value={weights.lowCloud}  onChange={v=>setWeights({...weights, lowCloud:v})}/>
-          <WeightRow label="Precip 降水概率"   value={weights.precip}    onChange={v=>setWeights({...weights, precip:v})}/>
-          <WeightRow label="Visibility 能见度" value={weights.visibility} onChange={v=>setWeights({...weights, visibility:v})}/>
-          <WeightRow label="Wind 风速"        value={weights.wind}       onChange={v=>setWeights({...weights, wind:v})}/>
+          {activeFactors(weights, { horizon: horizonOn }).map(f=>(
+            <WeightRow key={f.key} label={f.label} value={weights[f.weightKey] ?? f.defaultWeight}
+              onChange={v=>setWeights({...weights, [f.weightKey]:v})}/>
+          ))}
+          {/* 可选因子：勾选后加入权重（即参与计分），取消则移除 */}
+          <div className="grid gap-1 rounded-xl border border-gray-100 bg-white/60 p-2 text-xs text-gray-700">
+            <div className="text-gray-500">可选因子 / Optional factors</div>
+            {FACTORS.filter(f=>f.optional && f.source!=="horizon").map(f=>(
+              <label key={f.key} className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={weights[f.weightKey]!=null} onChange={(e)=>{
+                  const { [f.weightKey]:_, ...rest } = weights;
+                  setWeights(e.target.checked ? { ...weights, [f.weightKey]: f.defaultWeight } : rest as Weights);
+                }} />
+                {f.label}
+                {f.hint && <span className="text-[11px] text-gray-400">{f.hint}</span>}
+              </label>
+            ))}
+            {aerosolOn && !getProvider(providerId, fixtureId).online && (
+              <div className="text-[11px] text-amber-700">
+                离线样例无气溶胶数据，{eventParams[profileEvent].missing==="renormalize" ? "其权重分给其余因子" : "按中性值计分"} /
+                No aerosol data offline; {eventParams[profileEvent].missing==="renormalize" ? "its weight is redistributed" : "scored as neutral"}.
+              </div>
+            )}
+          </div>
+          {/* 缺失因子：中性值代入，或不计分并把权重按比例分给有数据的因子 */}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+            <span className="text-gray-500">缺失数据 / Missing data：</span>
+            {([["neutral","中性值 / Neutral fill-in"],["renormalize","重新分配权重 / Renormalize"]] as [MissingPolicy,string][]).map(([m,label])=>(
+              <Button key={m} variant={(eventParams[profileEvent].missing ?? "neutral")===m ? "default" : "secondary"} className="px-2 py-1 text-xs"
+                onClick={()=>setMissingPolicy(m)}>{label}</Button>
+            ))}
+          </div>
           <div className="flex flex-wrap gap-2">
-            <Button variant="secondary" onClick={()=>setWeights(defaultWeights)}>恢复默认权重</Button>
+            <Button variant="secondary" onClick={()=>setWeights(defaultEventParams[profileEvent].weights)}>恢复默认权重</Button>
             <Button variant="secondary" onClick={()=>{
               const total = (Object.values(weights) as number[]).reduce((a,b)=>a+b,0) || 1;
               const scaled = Object.fromEntries(Object.entries(weights).map(([k,v])=>[k, v/total])) as typeof weights;
@@ -377,58 +451,45 @@ export default function SunsetPredictor(){
           </div>
         </CollapsibleSection>
   
-        {/* —— 三角模型：高/中/低云 + 风 —— */}
+        {/* —— 窗口聚合：时间核、前后窗口与各因子统计量 —— */}
         <CollapsibleSection
-          title="Clouds & Wind（三角模型）"
-          storageKey="panel.tri"
+          title={`Window aggregation / 窗口聚合 · ${eventLabel(profileEvent)}`}
+          hint={eventParams[profileEvent].aggregation ? "已自定义 / customized" : "等权均值 / uniform mean"}
+          storageKey="panel.aggregation"
           defaultOpen={false}
         >
-          <TriRow
-            name="High / 高云"
-            m={scoreModels.high.m} w={scoreModels.high.w} color={scoreModels.high.color} unit="%"
-            mRange={[0,100]} wRange={[0,60]}
-            onChange={(m,w)=>setScoreModels({...scoreModels, high:{...scoreModels.high, m,w}})}
-          />
-          <TriRow
-            name="Mid / 中云"
-            m={scoreModels.mid.m} w={scoreModels.mid.w} color={scoreModels.mid.color} unit="%"
-            mRange={[0,100]} wRange={[0,60]}
-            onChange={(m,w)=>setScoreModels({...scoreModels, mid:{...scoreModels.mid, m,w}})}
-          />
-          <TriRow
-            name="Low / 低云（理想越低越好）"
-            m={scoreModels.low.m} w={scoreModels.low.w} color={scoreModels.low.color} unit="%"
-            mRange={[0,100]} wRange={[0,60]}
-            onChange={(m,w)=>setScoreModels({...scoreModels, low:{...scoreModels.low, m,w}})}
-          />
-          <TriRow
-            name="Wind / 风速"
-            m={scoreModels.wind.m} w={scoreModels.wind.w} color={scoreModels.wind.color} unit=" m/s"
-            mRange={[0,20]} wRange={[0,10]}
-            onChange={(m,w)=>setScoreModels({...scoreModels, wind:{...scoreModels.wind, m,w}})}
+          <AggregationPanel
+            value={eventParams[profileEvent].aggregation}
+            onChange={setAggregation}
+            factors={activeFactors(weights).filter(f=>f.source!=="horizon")}
+            windowMinutes={windowMinutes}
           />
         </CollapsibleSection>
-  
-        {/* —— 阈值模型：降水 + 能见度 —— */}
+
+        {/* —— 标准化曲线：每个因子可选曲线类型并在图上拖动 —— */}
         <CollapsibleSection
-          title="Precip & Visibility（阈值模型）"
-          storageKey="panel.thresholds"
+          title="Normalization curves / 标准化曲线"
+          hint={todayItem && !todayItem.polar ? `标记：${todayItem.dateKey} 窗口聚合值` : undefined}
+          storageKey="panel.curves"
           defaultOpen={false}
         >
-          <ClampDownRow
-            name="Precip / 降水概率（越小越好）"
-            min={scoreModels.pre.min} max={scoreModels.pre.max} unit="%"
-            minRange={[0,100]} maxRange={[0,100]}
-            onChange={(min,max)=>setScoreModels({...scoreModels, pre:{...scoreModels.pre, min, max}})}
-          />
-          <ClampUpRow
-            name="Visibility / 能见度（高于阈值逐步满分）"
-            threshold={scoreModels.vis.threshold} full={scoreModels.vis.full} unit=" km"
-            thrRange={[0,30]} fullRange={[1,100]}
-            onChange={(thr,full)=>setScoreModels({...scoreModels, vis:{...scoreModels.vis, threshold:thr, full}})}
-          />
+          {activeFactors(weights, { horizon: horizonOn }).map(f=>(
+            <CurveEditor
+              key={f.key}
+              name={f.label}
+              factor={f.key}
+              model={scoreModels[f.key] ?? f.defaultModel}
+              value={todayValue(f.key)}
+              onChange={(m)=>setScoreModels({ ...scoreModels, [f.key]: m })}
+            />
+          ))}
+          <div className="grid gap-2 md:grid-cols-3">
+            <Input placeholder="名称 / Name" value={bundleMeta.name} onChange={(e)=>setBundleMeta({ ...bundleMeta, name:e.target.value })}/>
+            <Input placeholder="作者 / Author" value={bundleMeta.author} onChange={(e)=>setBundleMeta({ ...bundleMeta, author:e.target.value })}/>
+            <Input placeholder="说明 / Description" value={bundleMeta.description} onChange={(e)=>setBundleMeta({ ...bundleMeta, description:e.target.value })}/>
+          </div>
           <div className="flex flex-wrap gap-2">
-            <Button onClick={exportParams}>导出参数 (JSON)</Button>
+            <Button onClick={exportParams}>导出参数 (JSON) · {exportLabel}</Button>
             <input
               ref={fileRef}
               type="file"
@@ -438,10 +499,61 @@ export default function SunsetPredictor(){
             />
             <Button variant="secondary" onClick={()=>fileRef.current?.click()}>导入参数 (JSON)</Button>
             <Button variant="secondary" onClick={()=>{
-              setWeights(defaultWeights);
-              setScoreModels(defaultModels);
+              setEventParams(p=>({ ...p, [profileEvent]: defaultEventParams[profileEvent] }));
             }}>恢复默认模型与权重</Button>
+            {tiers!==SCORE_TIERS && (
+              <Button variant="secondary" onClick={()=>setTiers(SCORE_TIERS)}>恢复默认分级 / Default tiers</Button>
+            )}
+          </div>
+          <div className="text-[11px] text-gray-500">
+            参数包 v2 含当前事件（两者模式下为日出与日落两套）的权重与曲线、窗口聚合、±窗口、分级阈值与配色；v1 文件导入时自动迁移。
+            Bundles (v2) carry weights, curves, aggregation, window, score tiers and metadata — for both events in sunrise + sunset mode; v1 files are migrated on import.
           </div>
+          {importNote && <div className="text-xs text-emerald-700">{importNote}</div>}
+          {importErrors.length>0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-medium">导入失败，以下字段有误 / Import failed</div>
+                <button className="text-amber-700 hover:underline" onClick={()=>setImportErrors([])}>关闭 / Dismiss</button>
+              </div>
+              <ul className="mt-1 list-disc pl-5 space-y-0.5">
+                {importErrors.map((e,i)=>(<li key={i} className="font-mono">{e}</li>))}
+              </ul>
+            </div>
+          )}
+        </CollapsibleSection>
+
+        {/* —— A/B：另一套参数在同一份预报上的分数 —— */}
+        <CollapsibleSection
+          title="A/B compare / 参数对比"
+          hint={abSide ? `B：${abSide.name}` : undefined}
+          storageKey="panel.ab"
+          defaultOpen={false}
+        >
+          <ABComparePanel
+            side={abSide}
+            rows={abRows}
+            onChange={setAbSide}
+            onSelect={(key)=>{
+              const i = sunsets.findIndex(s=>abRowKey(s)===key);
+              if(i>=0) setOpenDetail(i);
+            }}
+          />
+        </CollapsibleSection>
+
+        {/* —— 由实测记录自动校准 —— */}
+        <CollapsibleSection
+          title={`Calibration / 自动校准 · ${eventLabel(profileEvent)}`}
+          storageKey="panel.calibration"
+          defaultOpen={false}
+        >
+          <CalibrationPanel
+            event={profileEvent}
+            params={eventParams[profileEvent]}
+            windowMinutes={windowMinutes}
+            tiers={tiers}
+            onApply={(p)=>setEventParams(prev=>({ ...prev, [profileEvent]: p }))}
+          />
         </CollapsibleSection>
       </div>
     );
@@ -449,14 +561,10 @@ export default function SunsetPredictor(){
   
 
   /* 计算所有因子的 band（含单位）供 Bar 使用 */
-  const bandsAll: Record<string, Band> = useMemo(()=>({
-    high: bandFromModel("high", scoreModels.high),
-    mid:  bandFromModel("mid",  scoreModels.mid),
-    low:  bandFromModel("low",  scoreModels.low),
-    pre:  bandFromModel("pre",  scoreModels.pre),
-    vis:  bandFromModel("vis",  scoreModels.vis),
-    wind: bandFromModel("wind", scoreModels.wind),
-  }), [scoreModels]);
+  const bandsByEvent: Record<SunEvent, Record<string, Band>> = useMemo(()=>({
+    sunset:  bandsFromModels(eventParams.sunset.models),
+    sunrise: bandsFromModels(eventParams.sunrise.models),
+  }), [eventParams]);
 
   return (
     <div className="container mx-auto px-4">
@@ -477,39 +585,176 @@ export default function SunsetPredictor(){
             <div>
               位置 / Location：{place ?? (lat!=null && lon!=null ? `${lat.toFixed(5)}, ${lon?.toFixed(5)}` : "—")}
             </div>
-            <Button onClick={requestLocation} variant="secondary" className="gap-2">
-              <LocateFixed className="w-4 h-4"/> 重新定位
-            </Button>
+            <div className="flex gap-2">
+              <Button onClick={copyLink} variant="secondary" className="gap-2" disabled={!canQuery}>
+                <Link2 className="w-4 h-4"/> {copied ? "已复制 / Copied" : "复制链接 / Copy link"}
+              </Button>
+              <Button onClick={requestLocation} variant="secondary" className="gap-2">
+                <LocateFixed className="w-4 h-4"/> 重新定位
+              </Button>
+            </div>
           </div>
 
+          {linkWarnings.length>0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-medium">链接中的部分参数无效 / Some link parameters were ignored</div>
+                <button className="text-amber-700 hover:underline" onClick={()=>setLinkWarnings([])}>关闭 / Dismiss</button>
+              </div>
+              <ul className="mt-1 list-disc pl-5 space-y-0.5">
+                {linkWarnings.map((w,i)=>(<li key={i}>{w}</li>))}
+              </ul>
+            </div>
+          )}
+
           {/* 手动输入 + 拉取按钮 */}
           <div className="grid md:grid-cols-3 gap-3 items-end">
             <div>
               <label className="text-sm text-gray-600">Latitude / 纬度</label>
-              <Input type="number" step="0.0001" value={lat ?? ''} onChange={(e)=>setLat(parseFloat(e.target.value))}/>
+              <Input type="number" step="0.0001" value={latInput} onChange={(e)=>editCoord("lat", e.target.value)}/>
             </div>
             <div>
               <label className="text-sm text-gray-600">Longitude / 经度</label>
-              <Input type="number" step="0.0001" value={lon ?? ''} onChange={(e)=>setLon(parseFloat(e.target.value))}/>
+              <Input type="number" step="0.0001" value={lonInput} onChange={(e)=>editCoord("lon", e.target.value)}/>
             </div>
             <div className="flex gap-2">
-              <Button onClick={fetchForecast} disabled={! (lat!=null && lon!=null) || loading} className="gap-2">
+              <Button onClick={()=>fetchForecast(true)} disabled={! (lat!=null && lon!=null) || coordErrors.length>0 || loading} className="gap-2">
                 {loading ? (<><Loader2 className="w-4 h-4 animate-spin"/> 加载…</>) : (<>获取预报</>)}
               </Button>
             </div>
           </div>
+          {coordErrors.length>0 && (
+            <ul className="-mt-2 list-disc pl-5 text-xs text-rose-700">
+              {coordErrors.map((e,i)=>(<li key={i}>{e}</li>))}
+            </ul>
+          )}
+
+          {loadError && !loading && (
+            <div className="flex flex-wrap items-start justify-between gap-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-800">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0"/>
+                <div>
+                  <div className="font-medium">{loadError.message}</div>
+                  <div className="text-xs text-rose-700">{fetchErrorHint(loadError)}</div>
+                </div>
+              </div>
+              {loadError.kind!=="invalid-location" && (
+                <Button variant="secondary" className="text-xs" onClick={()=>fetchForecast(true)}>重试 / Retry</Button>
+              )}
+            </div>
+          )}
 
           <div className="grid md:grid-cols-2 gap-4">
+            <div className="p-3 rounded-2xl bg-white shadow-sm col-span-full">
+              <div className="mb-2 text-sm text-gray-600">Mode / 预测模式</div>
+              <div className="flex flex-wrap gap-2">
+                {([["sunset","日落 / Sunset"],["sunrise","日出 / Sunrise"],["both","两者 / Both"]] as [PredictMode,string][]).map(([m,label])=>(
+                  <Button key={m} variant={mode===m ? "default" : "secondary"} onClick={()=>{ setMode(m); setOpenDetail(null); }}>{label}</Button>
+                ))}
+              </div>
+            </div>
+            <div className="p-3 rounded-2xl bg-white shadow-sm col-span-full">
+              <div className="mb-2 text-sm text-gray-600">Data source / 数据源</div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+                  value={providerId}
+                  onChange={(e)=>setProviderId(e.target.value as ProviderId)}
+                >
+                  {PROVIDER_OPTIONS.map(p=>(<option key={p.id} value={p.id}>{p.label}</option>))}
+                </select>
+                {providerId==="fixture" && (
+                  <select
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-orange-500 focus:outline-none"
+                    value={fixtureId}
+                    onChange={(e)=>setFixtureId(e.target.value)}
+                  >
+                    {FIXTURES.map(f=>(<option key={f.id} value={f.id}>{f.label}</option>))}
+                  </select>
+                )}
+              </div>
+              {providerId==="fixture" && (
+                <div className="mt-1 text-xs text-gray-500">离线回放：样例数据按天平移到今天，与所选坐标无关。Offline replay of saved data, shifted to start today.</div>
+              )}
+              {canEnsemble && (
+                <div className="mt-2 grid gap-1 text-sm text-gray-700">
+                  <label className="inline-flex items-center gap-2">
+                    <input type="checkbox" checked={ensembleOn} onChange={(e)=>setEnsembleOn(e.target.checked)} />
+                    多模型集合 / Multi-model ensemble
+                  </label>
+                  {ensembleOn && (
+                    <div className="flex flex-wrap gap-3 pl-6 text-xs text-gray-600">
+                      {ENSEMBLE_MODELS.map(m=>(
+                        <label key={m.id} className="inline-flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={ensembleModels.includes(m.id)}
+                            onChange={(e)=>setEnsembleModels(e.target.checked
+                              ? ENSEMBLE_MODELS.map(x=>x.id).filter(id=>id===m.id || ensembleModels.includes(id))
+                              : ensembleModels.filter(id=>id!==m.id))}
+                          />
+                          {m.label}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <label className="mt-2 inline-flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={horizonOn} onChange={(e)=>setHorizonOn(e.target.checked)} />
+                地平线采样 / Horizon sampling
+                <span className="text-xs text-gray-500">沿日落（日出）方位 25/50/100/200 km 取低云 · low cloud along the sun azimuth</span>
+              </label>
+              {providerId==="met-norway" && (
+                <div className="mt-1 text-xs text-gray-500">MET Norway 不提供能见度；约 3 天后为 6 小时步长。No visibility; 6-hourly after ~3 days.</div>
+              )}
+            </div>
             <div className="p-3 rounded-2xl bg-white shadow-sm">
               <div className="mb-2 text-sm text-gray-600">Days / 预测天数：{days}</div>
               <Slider value={[days]} min={1} max={10} step={1} onValueChange={(v)=>setDays(v[0])}/>
             </div>
             <div className="p-3 rounded-2xl bg-white shadow-sm">
-              <div className="mb-2 text-sm text-gray-600">Window / 可视窗口（±分钟）：{windowMinutes}</div>
+              <div className="mb-2 text-sm text-gray-600">Window / 可视窗口：{windowText}</div>
               <Slider value={[windowMinutes]} min={30} max={150} step={15} onValueChange={(v)=>setWindowMinutes(v[0])}/>
+              <div className="mt-3 mb-1 text-sm text-gray-600">Anchor / 窗口锚点</div>
+              <div className="flex flex-wrap gap-1">
+                {TWILIGHT_PHASES.map(p=>(
+                  <Button key={p} variant={anchorPhase===p ? "default" : "secondary"} className="px-2 py-1 text-xs"
+                    onClick={()=>setAnchorPhase(p)}>
+                    {p==="event" ? "日出/日落 / Sun event" : phaseLabel(p, mode==="sunrise" ? "sunrise" : "sunset")}
+                  </Button>
+                ))}
+              </div>
             </div>
             <div className="p-3 rounded-2xl bg-white shadow-sm text-sm text-gray-600 flex flex-col gap-1 col-span-full">
-              <div className="flex items-center gap-2"><Info className="w-4 h-4"/>{(tz && `时区 / Timezone：${tz}`) || "准备就绪 / Ready"}</div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Info className="w-4 h-4"/>{(tz && `时区 / Timezone：${tz}${data?.timezoneApprox ? "（估计 / approximate）" : ""}`) || "准备就绪 / Ready"}
+                {asOf!=null && (
+                  <span className={`rounded-full border px-2 text-xs ${offline ? "bg-amber-50 text-amber-700 border-amber-200" : "bg-gray-50 text-gray-600 border-gray-200"}`}>
+                    {offline ? "离线缓存 / Offline · " : ""}as of {new Date(asOf).toLocaleTimeString([], { hour:"2-digit", minute:"2-digit" })}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                <span>已缓存 / Cached：{cacheInfo.entries} 条 · {Math.round(cacheInfo.bytes/1024)} KB</span>
+                <button
+                  className="underline hover:text-orange-600 disabled:opacity-50"
+                  disabled={!cacheInfo.entries}
+                  onClick={()=>{ void clearCache().then(refreshCacheInfo); }}
+                >清除缓存的预报 / Clear cached forecasts</button>
+              </div>
+            </div>
+
+            {/* 观测点：海拔与地形轮廓 → 本地实际日出/日落 */}
+            <div className="col-span-full">
+              <CollapsibleSection
+                title="Observer & terrain / 观测点与地形"
+                hint={observer ? `本地实际时刻 / Local ${mode==="sunrise" ? "sunrise" : "sunset"}` : "海平面 / Sea level"}
+                storageKey="panel.observer"
+                defaultOpen={false}
+              >
+                <ObserverPanel value={observer} onChange={setObserver} local={(todayItem ?? sunsets[0])?.local} />
+              </CollapsibleSection>
             </div>
 
             {/* 参数折叠面板 */}
@@ -523,117 +768,36 @@ export default function SunsetPredictor(){
       {!data && (<div className="text-sm text-gray-700 flex items-center gap-2"><Cloud className="w-4 h-4"/> 自动或手动设置坐标后点击「获取预报」。</div>)}
 
       <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
-        {sunsets.map((s, idx) => {
-          const theme = scoreTheme(s.score);
-          return (
-            <Card key={idx} className="overflow-hidden shadow-md hover:shadow-xl transition rounded-2xl">
-              <CardContent className="p-5">
-                {/* 顶部日期 + 成绩 */}
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex items-center gap-2">
-                    <CalendarDays className="w-5 h-5 text-gray-700"/>
-                    <div>
-                      <div className="text-lg font-semibold text-gray-900">
-                        {s.date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}
-                      </div>
-                      <div className="text-xs text-gray-600">日落 / Sunset: {s.localISO}（±{windowMinutes} 分钟）</div>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div style={{background:theme.bg,color:theme.fg,borderColor:theme.ring}} className="inline-flex items-baseline gap-1 border rounded-full px-3 py-1">
-                      <span className="text-lg font-bold">{s.score}</span>
-                      <span className="text-xs opacity-70">/100</span>
-                    </div>
-                    <div className="text-sm" style={{color:theme.fg}}>{s.label}</div>
-                  </div>
-                </div>
-
-                {/* 顶部横向柱状图：显示所有因子（无 aod） */}
-                <CloudBars
-                  values={{
-                    high: s.highPct ?? 0,           // %
-                    mid:  s.midPct ?? 0,            // %
-                    low:  s.lowPct ?? 0,            // %
-                    pre:  s.aggPrecip.avg ?? 0,     // %
-                    vis:  s.aggVisKm.avg ?? 0,      // km
-                    wind: s.aggWind.avg ?? 0,       // m/s
-                  }}
-                  bands={bandsAll}
-                />
-
-                {/* 指标卡片：在小屏单列，大屏两列 */}
-                <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
-                  <StatCard title="High cloud / 高云"   agg={s.aggHigh}   unit="%" />
-                  <StatCard title="Mid cloud / 中云"    agg={s.aggMid}    unit="%" />
-                  <StatCard title="Low cloud / 低云"    agg={s.aggLow}    unit="%" />
-                  <StatCard title="Precip prob / 降水概率" agg={s.aggPrecip} unit="%" />
-                  <StatCard title="Visibility / 能见度"  agg={s.aggVisKm} unit=" km" />
-                  <StatCard title="Wind / 风速"          agg={s.aggWind}  unit=" m/s" />
-                </div>
-
-                {/* 计算细节：按钮 + 折叠 */}
-                <div className="mt-4">
-                  <Button variant="secondary" className="text-xs"
-                    onClick={()=>setOpenDetail(openDetail===idx?null:idx)}>
-                    {openDetail===idx ? "隐藏计算细节 / Hide details" : "查看计算细节 / Show details"}
-                  </Button>
-                </div>
-
-                {openDetail===idx && (
-                  <div className="mt-3 rounded-xl border border-gray-100 bg-white/70 p-3 text-xs text-gray-700 space-y-2">
-                    <div><b>公式 / Formula：</b> Score = 100 × ( {s.explain.formula} )</div>
-                    <div className="overflow-x-auto">
-                      <table className="min-w-full text-left text-xs">
-                        <thead>
-                          <tr className="text-gray-500">
-                            <th className="py-1 pr-3">因子 / Factor</th>
-                            <th className="py-1 pr-3">标准化 s</th>
-                            <th className="py-1 pr-3">权重 w</th>
-                            <th className="py-1 pr-3">贡献 w×s×100</th>
-                            <th className="py-1">说明 / Note</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {s.explain.items.map((it)=> (
-                            <tr key={it.key} className="border-t">
-                              <td className="py-1 pr-3">{it.label}</td>
-                              <td className="py-1 pr-3">{it.s.toFixed(2)}</td>
-                              <td className="py-1 pr-3">{it.w.toFixed(2)}</td>
-                              <td className="py-1 pr-3">{it.contribution.toFixed(1)}</td>
-                              <td className="py-1">{it.note ?? "—"}</td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                    <div><b>总分 / Total：</b> {s.explain.total} / 100</div>
-                    <div className="text-[11px] text-gray-500">
-                      注：s 为 0–1 标准化得分，w 为权重。缺失项用中性值处理并在 Note 中标注。<br/>
-                      Note: s normalized to [0–1]; w is weight. Missing inputs fall back to neutral (see Note).
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          );
-        })}
+        {sunsets.map((s, idx) => (
+          <DayCard
+            key={idx}
+            item={s}
+            bands={bandsByEvent[s.event]}
+            windowMinutes={windowMinutes}
+            detailOpen={openDetail===idx}
+            onToggleDetail={()=>setOpenDetail(openDetail===idx?null:idx)}
+            timeZone={tz ?? undefined}
+            onLogObservation={()=>logObservation(s)}
+            tiers={tiers}
+            params={eventParams[s.event]}
+            compare={abSide ? { name:abSide.name, item:sunsetsB.find(b=>abRowKey(b)===abRowKey(s)) } : undefined}
+          />
+        ))}
       </div>
     </div>
   );
 }
 
 /* ---------- UI helpers ---------- */
-function StatCard({ title, agg, unit }:{ title:string; agg:StatAgg; unit:string; }){
-  const fmt = (n?:number)=> n==null ? "—" : (unit.trim()==="%" ? `${Math.round(n)}%` : `${Math.round(n)}${unit}`);
-  return (
-    <div className="rounded-xl border border-gray-100 bg-white/70 px-4 py-3 shadow-sm">
-      <div className="text-gray-700">{title}</div>
-      <div className="mt-1 flex items-baseline justify-between">
-        <div className="text-xs text-gray-500">Min 最小 {fmt(agg.min)} · Max 最大 {fmt(agg.max)}</div>
-        <div className="text-sm font-semibold text-gray-900">Avg 平均 {fmt(agg.avg)}</div>
-      </div>
-    </div>
-  );
+// 加载失败时的下一步建议（按错误类型）
+function fetchErrorHint(e:WeatherFetchError){
+  switch(e.kind){
+    case "rate-limited":     return `已自动重试仍被限流，请${e.retryAfterMs ? ` ${Math.ceil(e.retryAfterMs/1000)} 秒后` : "稍后"}重试。 / Retries were throttled; wait a moment and retry.`;
+    case "offline":          return "检查网络连接；有缓存时会自动显示缓存。 / Check your connection; cached forecasts are used when available.";
+    case "invalid-location": return `请检查纬度/经度。 / Check latitude and longitude.${e.detail ? ` (${e.detail})` : ""}`;
+    case "provider-down":    return "可稍后重试，或在「数据源」中换一个。 / Retry later or switch the data source.";
+    default:                 return e.detail ? e.detail : "请重试。 / Please retry.";
+  }
 }
 
 function CollapsibleSection({
@@ -693,176 +857,3 @@ function WeightRow({label, value, onChange}:{label:string; value:number; onChang
     </div>
   );
 }
-
-function TriRow({
-  name, m, w, color, unit, mRange, wRange, onChange
-}:{
-  name:string; m:number; w:number; color:string; unit:string;
-  mRange:[number,number]; wRange:[number,number];
-  onChange:(m:number,w:number)=>void;
-}){
-  return (
-    <div className="grid gap-2">
-      <div className="flex items-center justify-between text-xs text-gray-700">
-        <div className="flex items-center gap-2">
-          <span className="inline-flex h-2 w-2 rounded-full" style={{background:color}} />
-          <span>{name}</span>
-        </div>
-        <div className="text-[11px] text-gray-500">ideal={m}{unit} · tolerance={w}{unit}</div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">ideal</div>
-        <div className="col-span-8"><Slider value={[m]} min={mRange[0]} max={mRange[1]} step={1} onValueChange={(v)=>onChange(+v[0], w)}/></div>
-        <div className="col-span-2"><Input type="number" value={m} onChange={(e)=>onChange(parseFloat(e.target.value||"0"), w)}/></div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">tolerance</div>
-        <div className="col-span-8"><Slider value={[w]} min={wRange[0]} max={wRange[1]} step={1} onValueChange={(v)=>onChange(m, +v[0])}/></div>
-        <div className="col-span-2"><Input type="number" value={w} onChange={(e)=>onChange(m, parseFloat(e.target.value||"0"))}/></div>
-      </div>
-    </div>
-  );
-}
-
-function ClampDownRow({
-  name, min, max, unit, minRange, maxRange, onChange
-}:{
-  name:string; min:number; max:number; unit:string;
-  minRange:[number,number]; maxRange:[number,number];
-  onChange:(min:number,max:number)=>void;
-}){
-  return (
-    <div className="grid gap-2">
-      <div className="flex items-center justify-between text-xs text-gray-700">
-        <div>{name}</div>
-        <div className="text-[11px] text-gray-500">min={min}{unit} · max={max}{unit}</div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">min</div>
-        <div className="col-span-8"><Slider value={[min]} min={minRange[0]} max={minRange[1]} step={1} onValueChange={(v)=>onChange(+v[0], max)}/></div>
-        <div className="col-span-2"><Input type="number" value={min} onChange={(e)=>onChange(parseFloat(e.target.value||"0"), max)}/></div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">max</div>
-        <div className="col-span-8"><Slider value={[max]} min={maxRange[0]} max={maxRange[1]} step={1} onValueChange={(v)=>onChange(min, +v[0])}/></div>
-        <div className="col-span-2"><Input type="number" value={max} onChange={(e)=>onChange(min, parseFloat(e.target.value||"0"))}/></div>
-      </div>
-    </div>
-  );
-}
-
-function ClampUpRow({
-  name, threshold, full, unit, thrRange, fullRange, onChange
-}:{
-  name:string; threshold:number; full:number; unit:string;
-  thrRange:[number,number]; fullRange:[number,number];
-  onChange:(threshold:number, full:number)=>void;
-}){
-  return (
-    <div className="grid gap-2">
-      <div className="flex items-center justify-between text-xs text-gray-700">
-        <div>{name}</div>
-        <div className="text-[11px] text-gray-500">threshold={threshold}{unit} · full={full}{unit}</div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">threshold</div>
-        <div className="col-span-8"><Slider value={[threshold]} min={thrRange[0]} max={thrRange[1]} step={1} onValueChange={(v)=>onChange(+v[0], full)}/></div>
-        <div className="col-span-2"><Input type="number" value={threshold} onChange={(e)=>onChange(parseFloat(e.target.value||"0"), full)}/></div>
-      </div>
-      <div className="grid grid-cols-12 items-center gap-2">
-        <div className="col-span-2 text-[11px] text-gray-600">full</div>
-        <div className="col-span-8"><Slider value={[full]} min={fullRange[0]} max={fullRange[1]} step={1} onValueChange={(v)=>onChange(threshold, +v[0])}/></div>
-        <div className="col-span-2"><Input type="number" value={full} onChange={(e)=>onChange(threshold, parseFloat(e.target.value||"0"))}/></div>
-      </div>
-    </div>
-  );
-}
-
-/* 全部因子横向柱状图（灰带→柱→理想线；按单位归一） */
-// 固定坐标轴范围，避免不同单位导致柱宽不一致
-const FIXED_DOMAINS: Record<string, [number, number]> = {
-  high: [0, 100],   // %
-  mid:  [0, 100],   // %
-  low:  [0, 100],   // %
-  pre:  [0, 100],   // 降水概率 %
-  vis:  [0, 40],    // km（可按需调整，如 0–30/50）
-  wind: [0, 20],    // m/s
-};
-
-function CloudBars({
-  values,
-  bands
-}:{
-  values: Record<string, number>;
-  bands: Record<string, Band>;
-}){
-  const items = [
-    { key:"high", label:"High / 高云" },
-    { key:"mid",  label:"Mid / 中云" },
-    { key:"low",  label:"Low / 低云" },
-    { key:"pre",  label:"Precip / 降水概率" },
-    { key:"vis",  label:"Visibility / 能见度" },
-    { key:"wind", label:"Wind / 风速" },
-  ] as const;
-
-  const fmt = (val:number, unit:string)=>{
-    if(unit.trim()==="%") return `${Math.round(val)}%`;
-    if(unit.includes("km")) return `${Math.round(val)} km`;
-    if(unit.includes("m/s")) return `${Math.round(val)} m/s`;
-    return `${Math.round(val)}${unit}`;
-  };
-
-  return (
-    <div className="w-full rounded-2xl border border-gray-100 bg-white/70 p-3">
-      <div className="mb-2 text-sm font-medium text-gray-800">
-        All factors around sunset / 日落窗所有因子
-      </div>
-      <div className="space-y-3">
-        {items.map(item=>{
-
-          const vRaw = values[item.key] ?? 0;
-          const band = bands[item.key];
-          const domain = FIXED_DOMAINS[item.key] || [0,100];
-          const toPct = (val:number)=> {
-            const [d0,d1] = domain;
-            const p = ((val - d0) / Math.max(1e-6, (d1 - d0))) * 100;
-            return Math.max(0, Math.min(100, p));
-          };
-
-          const bandLeft  = `${toPct(band.min)}%`;
-          const bandRight = toPct(band.max);
-          const bandWidth = `${Math.max(0, bandRight - toPct(band.min))}%`;
-          const markerLeft= `${toPct(band.center)}%`;
-
-          const widthPct  = toPct(vRaw);
-          return (
-            <div key={item.key}>
-              <div className="mb-1 flex items-center justify-between text-xs text-gray-600">
-                <div className="flex items-center gap-2">
-                  <span className="inline-flex h-2 w-2 rounded-full" style={{ background: band.color }} />
-                  {item.label}
-                </div>
-                <div className="tabular-nums">
-                  {fmt(vRaw, band.unit)}
-                  <span className="text-gray-400"> · 目标 {fmt(band.min, band.unit)}–{fmt(band.max, band.unit)}</span>
-                </div>
-              </div>
-
-              <div className="relative h-3 w-full rounded-full bg-gray-100 overflow-hidden">
-                {/* 目标区间（底层） */}
-                <div className="absolute top-0 bottom-0 rounded-full"
-                     style={{ left: bandLeft, width: bandWidth, background: "rgba(0,0,0,0.06)" }} />
-                {/* 彩色柱（中层） */}
-                <div className="absolute top-0 bottom-0 rounded-full"
-                     style={{ width: `${widthPct}%`, background: band.color, transition: "width 300ms ease" }} />
-                {/* 理想点（最上层） */}
-                <div className="absolute top-[-2px] bottom-[-2px] w-[2px] bg-gray-800"
-                     style={{ left: markerLeft }} title={`理想值 ${fmt(band.center, band.unit)}`} />
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
-}
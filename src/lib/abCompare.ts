@@ -0,0 +1,64 @@
+import type { EventParams, ExplainRow, SunEvent, SunsetItem } from "./scoring";
+
+/* ---------- A/B 参数对比 ----------
+   同一份预报分别用 A（当前参数）与 B（另一套参数包或方案）打分，
+   按 (事件, 日期) 配对，给出分差与各因子贡献的变化。 */
+export type ABSide = { name: string; params: Partial<Record<SunEvent, EventParams>> };
+
+export type FactorDelta = {
+  key: string;
+  label: string;
+  a?: ExplainRow;              // 该因子在 A 中未计分时缺省
+  b?: ExplainRow;
+  delta: number;               // 贡献差（分），B − A
+  changed: boolean;
+};
+
+export type ABRow = {
+  key: string;                 // `${event}|${dateKey}`
+  event: SunEvent;
+  date: Date;
+  dateKey: string;             // 地点时区的日期
+  a?: SunsetItem;
+  b?: SunsetItem;
+  delta?: number;              // 分差 B − A（两边都有时）
+  factors: FactorDelta[];
+};
+
+export const abRowKey = (it: Pick<SunsetItem, "event"|"dateKey">)=>`${it.event}|${it.dateKey}`;
+const round1 = (x: number)=>Math.round(x*10)/10;
+
+/* 两边的打分明细逐因子对齐（A 的顺序在前，B 独有的因子排在后面） */
+export function factorDeltas(a: SunsetItem | undefined, b: SunsetItem | undefined): FactorDelta[] {
+  const ai = a?.explain.items ?? [], bi = b?.explain.items ?? [];
+  const keys = [...new Set([...ai, ...bi].map(r=>r.key))];
+  return keys.map(key=>{
+    const ra = ai.find(r=>r.key===key), rb = bi.find(r=>r.key===key);
+    const delta = round1((rb?.contribution ?? 0) - (ra?.contribution ?? 0));
+    return { key, label: (ra ?? rb)!.label, a: ra, b: rb, delta, changed: delta!==0 || !ra || !rb };
+  });
+}
+
+export function pairPredictions(a: SunsetItem[], b: SunsetItem[]): ABRow[] {
+  const rows = new Map<string, ABRow>();
+  const add = (it: SunsetItem, side: "a"|"b")=>{
+    const key = abRowKey(it);
+    if(!rows.has(key)) rows.set(key, { key, event: it.event, date: it.date, dateKey: it.dateKey, factors: [] });
+    rows.get(key)![side] = it;
+  };
+  a.forEach(it=>add(it, "a"));
+  b.forEach(it=>add(it, "b"));
+  const order: Record<SunEvent, number> = { sunrise: 0, sunset: 1 };
+  return [...rows.values()]
+    .map(r=>({ ...r, delta: r.a && r.b ? r.b.score - r.a.score : undefined, factors: factorDeltas(r.a, r.b) }))
+    .sort((x,y)=>x.dateKey.localeCompare(y.dateKey) || order[x.event]-order[y.event]);
+}
+
+/* 汇总：平均分差、变化最大的一天、分级变化的天数 */
+export function abSummary(rows: ABRow[]){
+  const paired = rows.filter(r=>r.delta!=null && !r.a!.polar);
+  const mean = paired.length ? paired.reduce((s,r)=>s + r.delta!, 0)/paired.length : 0;
+  const largest = paired.reduce<ABRow|undefined>((m,r)=>!m || Math.abs(r.delta!)>Math.abs(m.delta!) ? r : m, undefined);
+  const tierChanges = paired.filter(r=>r.a!.label!==r.b!.label).length;
+  return { n: paired.length, meanDelta: mean, largest, tierChanges };
+}
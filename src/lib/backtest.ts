@@ -0,0 +1,74 @@
+import {
+  greatCircleKm, meanAbsError, predictSunsets, spearman,
+  type CalibrationMetrics, type EventParams, type OpenMeteoResponse, type SunEvent, type SunsetItem,
+} from "./scoring";
+import type { ObservationFields } from "./observation";
+
+/* ---------- 历史回测 ----------
+   用过去的逐小时数据跑同一条评分流程，逐日得到各参数包的分数，
+   并与留言板上附近地点的实测评分对照。 */
+export const BACKTEST_MAX_DAYS = 92;
+export const OBSERVATION_RADIUS_KM = 50;
+
+export type BacktestRow = {
+  dateKey: string;
+  date: Date;
+  scores: Record<string, SunsetItem | undefined>;   // 参数包名 → 当天结果
+  observed: number[];                               // 当天附近的实测评分
+};
+
+/* YYYY-MM-DD → 本地日期（取正午，避开夏令时切换） */
+export function parseDateKey(key: string){
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m-1, d, 12);
+}
+
+export function daysBetween(start: string, end: string){
+  return Math.round((parseDateKey(end).getTime() - parseDateKey(start).getTime())/(24*3600*1000)) + 1;
+}
+
+export function backtestScores(
+  data: OpenMeteoResponse,
+  opts: { lat: number; lon: number; start: string; end: string; event: SunEvent; windowMinutes: number },
+  bundles: Record<string, EventParams>,
+): BacktestRow[]{
+  const days = daysBetween(opts.start, opts.end);
+  const rows = new Map<string, BacktestRow>();
+  for(const [name, params] of Object.entries(bundles)){
+    const items = predictSunsets(data, { ...opts, ...params, days, startKey: opts.start, timeZone: data.timezone });
+    for(const item of items){
+      const dateKey = item.dateKey;
+      if(!rows.has(dateKey)) rows.set(dateKey, { dateKey, date: item.date, scores: {}, observed: [] });
+      rows.get(dateKey)!.scores[name] = item;
+    }
+  }
+  return [...rows.values()].sort((a,b)=>a.dateKey.localeCompare(b.dateKey));
+}
+
+type PostLike = ObservationFields & { date: string; lat?: number | null; lon?: number | null };
+
+/* 把半径内、同一事件的实测评分挂到对应日期上（帖子的 event 缺失时看快照） */
+export function attachObservations(rows: BacktestRow[], posts: PostLike[], where: { lat: number; lon: number; event: SunEvent; radiusKm?: number }){
+  const radius = where.radiusKm ?? OBSERVATION_RADIUS_KM;
+  const byDate = new Map(rows.map(r=>[r.dateKey, r]));
+  for(const r of rows) r.observed = [];
+  for(const p of posts){
+    if(p.observed_score==null || p.lat==null || p.lon==null) continue;
+    if((p.event ?? p.snapshot?.event ?? "sunset") !== where.event) continue;
+    if(greatCircleKm(where.lat, where.lon, p.lat, p.lon) > radius) continue;
+    byDate.get(p.date)?.observed.push(p.observed_score);
+  }
+  return rows;
+}
+
+/* 有实测的日期上，某个参数包的 MAE 与秩相关（同日多条取平均） */
+export function backtestMetrics(rows: BacktestRow[], bundle: string): CalibrationMetrics{
+  const pred:number[] = [], obs:number[] = [];
+  for(const r of rows){
+    const item = r.scores[bundle];
+    if(!item || item.polar || !r.observed.length) continue;
+    pred.push(item.score);
+    obs.push(r.observed.reduce((a,b)=>a+b, 0)/r.observed.length);
+  }
+  return { n: pred.length, mae: meanAbsError(pred, obs), spearman: spearman(pred, obs) };
+}
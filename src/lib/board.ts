@@ -0,0 +1,23 @@
+import { createClient } from "@supabase/supabase-js";
+import { SUPABASE_URL, SUPABASE_ANON_KEY } from "../components/supabaseConfig";
+import { readObservation } from "./observation";
+
+/* ---------- 留言板数据（Supabase posts 表） ---------- */
+export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+/* 读取全部帖子（新→旧）；files 兼容字符串存储，实测字段缺失按 null */
+export async function loadPosts<T = any>(): Promise<T[]>{
+  const { data, error } = await supabase
+    .from("posts")
+    .select("*")
+    .order("created_at", { ascending: false });
+  if(error) throw error;
+  const rows = (data as any[]) ?? [];
+  rows.forEach(r=>{
+    if(!Array.isArray(r.files)){
+      try{ r.files = JSON.parse(r.files); }catch{ r.files = []; }
+    }
+    Object.assign(r, readObservation(r));
+  });
+  return rows as T[];
+}
@@ -0,0 +1,124 @@
+import { SCORE_TIERS, type EventParams, type ScoreTier, type SunEvent } from "./scoring";
+import { cacheKey, readResult, writeResult, type WeatherProvider } from "./weather";
+import { backtestScores, parseDateKey } from "./backtest";
+
+/* ---------- 火烧云气候统计 ----------
+   用多年历史逐小时数据逐日打分，按 ISO 周（1–53）汇总分布：中位数、四分位、
+   Great 及以上 / Fire 天数占比（分别为分级的第二档与最高档）。结果按 地点 + 事件 + 年份 + 参数 + 分级
+   存在 IndexedDB 的结果仓库（不随预报缓存裁剪或清除），同一组合不再重复拉取与计算。 */
+export const CLIMATOLOGY_YEARS: [number, number] = [1, 5];
+export const CLIMATOLOGY_CACHE_PROVIDER = "climatology";
+
+export type ClimatologyWeek = {
+  week: number;
+  n: number;                 // 有分数的天数
+  median: number;
+  p25: number; p75: number;
+  shareGreat: number;        // 0–1，Great 及以上
+  shareFire: number;         // 0–1
+};
+
+export type Climatology = {
+  lat: number; lon: number; event: SunEvent;
+  years: number[];
+  days: number;
+  weeks: ClimatologyWeek[];  // 按周序，缺数据的周省略
+  computedAt: number;
+};
+
+/* ISO 8601 周序（周一为一周开始，含 1 月 4 日的那周为第 1 周） */
+export function isoWeek(d: Date){
+  const t = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
+  const day = t.getUTCDay() || 7;
+  t.setUTCDate(t.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(t.getUTCFullYear(), 0, 1));
+  return Math.ceil(((t.getTime() - yearStart.getTime())/86400000 + 1)/7);
+}
+
+/* 某年第 week 周的周一（展示用） */
+export function isoWeekStart(year: number, week: number){
+  const jan4 = new Date(year, 0, 4);
+  const monday = new Date(jan4); monday.setDate(jan4.getDate() - ((jan4.getDay() || 7) - 1) + (week-1)*7);
+  return monday;
+}
+
+// 线性插值分位数（输入已排序）
+function q(sorted: number[], p: number){
+  const i = (sorted.length-1)*p, lo = Math.floor(i), hi = Math.ceil(i);
+  return sorted[lo] + (sorted[hi] - sorted[lo])*(i - lo);
+}
+
+export function weeklyClimatology(daily: { date: Date; score: number }[], tiers: readonly ScoreTier[] = SCORE_TIERS): ClimatologyWeek[]{
+  const fireMin = tiers[0].min;
+  const greatMin = (tiers[1] ?? tiers[0]).min;
+  const byWeek = new Map<number, number[]>();
+  for(const d of daily){
+    const w = isoWeek(d.date);
+    if(!byWeek.has(w)) byWeek.set(w, []);
+    byWeek.get(w)!.push(d.score);
+  }
+  return [...byWeek.entries()].sort((a,b)=>a[0]-b[0]).map(([week, scores])=>{
+    const s = [...scores].sort((a,b)=>a-b);
+    return {
+      week, n: s.length,
+      median: q(s, 0.5), p25: q(s, 0.25), p75: q(s, 0.75),
+      shareGreat: s.filter(x=>x>=greatMin).length/s.length,
+      shareFire:  s.filter(x=>x>=fireMin).length/s.length,
+    };
+  });
+}
+
+/* 最近 n 个完整年份（不含今年） */
+export function recentYears(n: number, today = new Date()){
+  const last = today.getFullYear() - 1;
+  return Array.from({ length: n }, (_, i)=>last - n + 1 + i);
+}
+
+// 参数或分级变了结果也要重算：把它们压成短指纹放进缓存键
+function paramsFingerprint(params: EventParams, tiers: readonly ScoreTier[]){
+  const s = JSON.stringify([params, tiers.map(t=>t.min)]);
+  let h = 0;
+  for(let i=0;i<s.length;i++) h = (h*31 + s.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+export type ClimatologyOptions = {
+  lat: number; lon: number; event: SunEvent; years: number[]; windowMinutes: number; params: EventParams;
+  tiers?: readonly ScoreTier[];  // 分级（默认 SCORE_TIERS），决定 Great+ / Fire 占比的门槛
+};
+
+function climatologyKey({ lat, lon, event, years, windowMinutes, params, tiers = SCORE_TIERS }: ClimatologyOptions){
+  return cacheKey({
+    provider: CLIMATOLOGY_CACHE_PROVIDER, lat, lon, days: years.length,
+    range: `${event}|${years[0]}-${years[years.length-1]}|±${windowMinutes}|${paramsFingerprint(params, tiers)}`,
+  });
+}
+
+export async function readCachedClimatology(opts: ClimatologyOptions){
+  return (await readResult<Climatology>(climatologyKey(opts)))?.payload;
+}
+
+/* 逐年拉取历史数据并打分；onProgress(已完成年数, 总年数) */
+export async function computeClimatology(
+  provider: WeatherProvider,
+  opts: ClimatologyOptions & { signal?: AbortSignal },
+  onProgress?: (done: number, total: number)=>void,
+): Promise<Climatology>{
+  if(!provider.fetchHistory) throw new Error("该数据源不支持历史数据 / This source has no history");
+  const daily: { date: Date; score: number }[] = [];
+  for(const [i, year] of opts.years.entries()){
+    const start = `${year}-01-01`, end = `${year}-12-31`;
+    const data = await provider.fetchHistory({ lat: opts.lat, lon: opts.lon, start, end, signal: opts.signal });
+    const rows = backtestScores(data, { lat: opts.lat, lon: opts.lon, start, end, event: opts.event, windowMinutes: opts.windowMinutes }, { main: opts.params });
+    // 极昼/极夜的日子没有日落（日出），不计入分布
+    for(const r of rows){ const item = r.scores.main; if(item && !item.polar) daily.push({ date: parseDateKey(item.dateKey), score: item.score }); }
+    onProgress?.(i+1, opts.years.length);
+  }
+  if(!daily.length) throw new Error("所选年份没有可用数据 / No data for the selected years");
+  const result: Climatology = {
+    lat: opts.lat, lon: opts.lon, event: opts.event, years: opts.years,
+    days: daily.length, weeks: weeklyClimatology(daily, opts.tiers), computedAt: Date.now(),
+  };
+  await writeResult(climatologyKey(opts), opts.lat, opts.lon, result);
+  return result;
+}
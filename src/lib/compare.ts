@@ -0,0 +1,39 @@
+import type { SunsetItem } from "./scoring";
+
+/* ---------- 多地点对比 ----------
+   把每个地点的逐日结果排成 日期 × 地点 的矩阵，并找出每天的最佳地点 */
+export type CompareLocation = { id: string; lat: number; lon: number; name: string };
+
+export type CompareRow = {
+  dateKey: string;                               // 地点时区的日期 YYYY-MM-DD
+  date: Date;
+  cells: Record<string, SunsetItem | undefined>; // 地点 id → 当天结果
+  best?: { id: string; score: number };
+};
+
+export function locationId(lat: number, lon: number){ return `${lat.toFixed(4)},${lon.toFixed(4)}`; }
+
+export function buildCompareMatrix(results: Record<string, SunsetItem[]>): CompareRow[] {
+  const rows = new Map<string, CompareRow>();
+  for(const [id, items] of Object.entries(results)){
+    for(const item of items){
+      const dateKey = item.dateKey;
+      if(!rows.has(dateKey)) rows.set(dateKey, { dateKey, date: item.date, cells: {} });
+      rows.get(dateKey)!.cells[id] = item;
+    }
+  }
+  const out = [...rows.values()].sort((a,b)=>a.dateKey.localeCompare(b.dateKey));
+  for(const row of out){
+    for(const [id, item] of Object.entries(row.cells)){
+      if(item && !item.polar && (!row.best || item.score > row.best.score)) row.best = { id, score: item.score };
+    }
+  }
+  return out;
+}
+
+/* 按某一天的分数从高到低排列地点（极昼/极夜其次，无数据的排最后） */
+export function rankLocations(row: CompareRow | undefined, ids: string[]): string[] {
+  if(!row) return ids;
+  const score = (id: string)=>{ const it = row.cells[id]; return !it ? -2 : it.polar ? -1 : it.score; };
+  return [...ids].sort((a,b)=>score(b)-score(a));
+}
@@ -0,0 +1,134 @@
+import {
+  defaultEventParams, validateAggregation, validateMissingPolicy, validateModels, validateObserver, validateWeights, TWILIGHT_PHASES,
+  type EventParams, type Observer, type PredictMode, type SunEvent, type TerrainPoint, type TwilightPhase,
+} from "./scoring";
+
+/* ---------- 分享链接 ----------
+   预测器状态 ↔ URL 查询串。简单字段直接可读（lat/lon/days/win/anchor/mode/detail），
+   观测者高度为 alt=（米），地形轮廓为 hz=方位:仰角,…；
+   权重与模型仅在偏离默认值时以 base64url(JSON) 放入 p=。
+   解析时逐项校验，不合法的项回退默认值并给出提示，不抛错。 */
+export type PredictorLinkState = {
+  lat?: number;
+  lon?: number;
+  days?: number;
+  windowMinutes?: number;
+  anchor?: TwilightPhase;                          // 默认 event 时不写入
+  mode?: PredictMode;
+  detail?: number | null;                          // openDetail（卡片序号）
+  observer?: Observer;                             // 观测者高度与地形轮廓
+  params?: Partial<Record<SunEvent, EventParams>>;
+};
+
+export const DAYS_RANGE: [number, number] = [1, 10];
+export const WINDOW_RANGE: [number, number] = [30, 150];
+
+function toBase64Url(text: string){
+  const bytes = new TextEncoder().encode(text);
+  let bin = ""; bytes.forEach(b=>{ bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g,"-").replace(/\//g,"_").replace(/=+$/,"");
+}
+function fromBase64Url(s: string){
+  const b64 = s.replace(/-/g,"+").replace(/_/g,"/");
+  const bin = atob(b64 + "===".slice((b64.length+3)%4));
+  return new TextDecoder().decode(Uint8Array.from(bin, c=>c.charCodeAt(0)));
+}
+
+const sameJSON = (a: unknown, b: unknown)=>JSON.stringify(a)===JSON.stringify(b);
+
+export function encodeLinkState(state: PredictorLinkState): string {
+  const q = new URLSearchParams();
+  if(state.lat!=null) q.set("lat", state.lat.toFixed(5));
+  if(state.lon!=null) q.set("lon", state.lon.toFixed(5));
+  if(state.days!=null) q.set("days", String(state.days));
+  if(state.windowMinutes!=null) q.set("win", String(state.windowMinutes));
+  if(state.anchor && state.anchor!=="event") q.set("anchor", state.anchor);
+  if(state.mode) q.set("mode", state.mode);
+  if(state.detail!=null) q.set("detail", String(state.detail));
+  if(state.observer?.altitude) q.set("alt", String(Math.round(state.observer.altitude)));
+  if(state.observer?.profile?.length) q.set("hz", state.observer.profile.map(([a, e])=>`${+a.toFixed(1)}:${+e.toFixed(1)}`).join(","));
+  if(state.params){
+    const changed = Object.fromEntries(
+      (Object.entries(state.params) as [SunEvent, EventParams][]).filter(([ev,p])=>!sameJSON(p, defaultEventParams[ev]))
+    );
+    if(Object.keys(changed).length) q.set("p", toBase64Url(JSON.stringify(changed)));
+  }
+  return q.toString();
+}
+
+export function decodeLinkState(search: string): { state: PredictorLinkState; warnings: string[] } {
+  const q = new URLSearchParams(search);
+  const state: PredictorLinkState = {};
+  const warnings: string[] = [];
+
+  const num = (key: string, [lo, hi]: [number, number], label: string)=>{
+    const raw = q.get(key);
+    if(raw==null) return undefined;
+    const v = Number(raw);
+    if(raw.trim()==="" || !Number.isFinite(v) || v<lo || v>hi){
+      warnings.push(`${label} 参数无效（${raw}），已使用默认值 / invalid ${key}, using default`);
+      return undefined;
+    }
+    return v;
+  };
+
+  const lat = num("lat", [-90, 90], "纬度");
+  const lon = num("lon", [-180, 180], "经度");
+  if(lat!=null && lon!=null){ state.lat = lat; state.lon = lon; }
+  else if(q.has("lat") !== q.has("lon")) warnings.push("缺少纬度或经度，已忽略位置 / lat and lon must be given together");
+
+  const days = num("days", DAYS_RANGE, "天数");
+  if(days!=null) state.days = Math.round(days);
+  const win = num("win", WINDOW_RANGE, "窗口");
+  if(win!=null) state.windowMinutes = Math.round(win);
+
+  const anchor = q.get("anchor");
+  if(anchor!=null){
+    if((TWILIGHT_PHASES as string[]).includes(anchor)) state.anchor = anchor as TwilightPhase;
+    else warnings.push(`锚点参数无效（${anchor}）/ invalid anchor, using default`);
+  }
+
+  const mode = q.get("mode");
+  if(mode!=null){
+    if(mode==="sunset" || mode==="sunrise" || mode==="both") state.mode = mode;
+    else warnings.push(`模式参数无效（${mode}）/ invalid mode, using default`);
+  }
+
+  const detail = num("detail", [0, 100], "详情");
+  if(detail!=null) state.detail = Math.round(detail);
+
+  const altRaw = q.get("alt"), hz = q.get("hz");
+  if(altRaw!=null || hz!=null){
+    const observer: Observer = {
+      ...(altRaw!=null ? { altitude: Number(altRaw) } : {}),
+      ...(hz!=null ? { profile: hz.split(",").map(pair=>pair.split(":").map(Number) as TerrainPoint) } : {}),
+    };
+    const errs = validateObserver(observer);
+    if(errs.length) warnings.push(`观测者参数无效，已忽略 / invalid observer: ${errs.slice(0,3).join("; ")}`);
+    else state.observer = observer;
+  }
+
+  const p = q.get("p");
+  if(p!=null){
+    try{
+      const raw = JSON.parse(fromBase64Url(p)) as Record<string, { weights?: unknown; models?: unknown; aggregation?: unknown; missing?: unknown }>;
+      const params: Partial<Record<SunEvent, EventParams>> = {};
+      for(const ev of ["sunset","sunrise"] as SunEvent[]){
+        if(!raw?.[ev]) continue;
+        const errs = [
+          ...validateWeights(raw[ev].weights, `${ev}.weights`),
+          ...validateModels(raw[ev].models, `${ev}.models`),
+          ...validateAggregation(raw[ev].aggregation, `${ev}.aggregation`),
+          ...validateMissingPolicy(raw[ev].missing, `${ev}.missing`),
+        ];
+        if(errs.length) warnings.push(`${ev} 参数无效，已使用默认值 / invalid ${ev} parameters: ${errs.slice(0,3).join("; ")}`);
+        else params[ev] = raw[ev] as EventParams;
+      }
+      if(Object.keys(params).length) state.params = params;
+    }catch{
+      warnings.push("权重/模型参数无法解析，已使用默认值 / could not decode weights and models");
+    }
+  }
+
+  return { state, warnings };
+}
@@ -0,0 +1,19 @@
+import type { CompareLocation } from "./compare";
+
+/* ---------- 收藏地点（localStorage） ---------- */
+const STORAGE_KEY = "favorites.locations";
+
+export function loadFavorites(): CompareLocation[] {
+  if(typeof window === "undefined") return [];
+  try{
+    const raw = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw)
+      ? raw.filter(f=>f && Number.isFinite(f.lat) && Number.isFinite(f.lon) && typeof f.name === "string")
+      : [];
+  }catch{ return []; }
+}
+
+export function saveFavorites(list: CompareLocation[]){
+  if(typeof window === "undefined") return;
+  try{ window.localStorage.setItem(STORAGE_KEY, JSON.stringify(list)); }catch{}
+}
@@ -0,0 +1,152 @@
+import type {
+  Aggregation, CalibrationSample, MissingPolicy, Observer, ScoreModels, StatAgg, SunEvent, SunsetItem, TwilightPhase, Weights,
+} from "./scoring";
+
+/* ---------- 实测记录 + 预测快照 ----------
+   留言板的帖子可附带：实测火烧云评分（0–100，或按五档记为该档代表分）、日出/日落，
+   以及发帖时冻结的预测快照（分数、权重、模型、各因子窗口统计），用于事后核对预测。
+   posts 表需新增三列（旧帖为 null），见 supabase/migrations/20261019000000_posts_observations.sql。
+   未附带实测或快照的帖子不写这三列，未迁移的表上普通留言仍可发布。 */
+export type PredictionSnapshot = {
+  version: 1;
+  event: SunEvent;
+  date: string;                    // YYYY-MM-DD（本地日期）
+  lat: number;
+  lon: number;
+  place?: string | null;
+  windowMinutes: number;
+  anchorPhase: TwilightPhase;
+  observer?: Observer;             // 观测者高度/地形轮廓（设置时窗口围绕本地实际时刻）
+  localEvent?: string;             // 本地实际日出/日落（ISO）
+  provider?: string;
+  score: number;
+  label: string;
+  weights: Weights;
+  models: ScoreModels;
+  aggregation?: Aggregation;       // 非默认的窗口聚合策略（因子的 value 按它计算）
+  missing?: MissingPolicy;         // 非默认的缺失处理
+  factors: {
+    high: StatAgg; mid: StatAgg; low: StatAgg;
+    precip: StatAgg; visKm: StatAgg; wind: StatAgg;
+    horizonBlockage?: number;
+    rh?: StatAgg; dew?: StatAgg; pres?: StatAgg; aod?: StatAgg;   // 可选因子（开启时）
+  };
+  ensemble?: { median: number; min: number; max: number; spread: number };
+  capturedAt: string;              // ISO
+};
+
+export type ObservationFields = {
+  event: SunEvent | null;
+  observed_score: number | null;
+  snapshot: PredictionSnapshot | null;
+};
+
+export function localDateKey(d: Date){
+  const p = (n:number)=>String(n).padStart(2,"0");
+  return `${d.getFullYear()}-${p(d.getMonth()+1)}-${p(d.getDate())}`;
+}
+
+export function snapshotFromItem(
+  item: SunsetItem,
+  ctx: { lat: number; lon: number; place?: string | null; windowMinutes: number; weights: Weights; models: ScoreModels; aggregation?: Aggregation; missing?: MissingPolicy; observer?: Observer; provider?: string },
+): PredictionSnapshot {
+  const e = item.ensemble, a = item.agg;
+  return {
+    version: 1,
+    event: item.event,
+    date: item.dateKey,
+    lat: ctx.lat, lon: ctx.lon, place: ctx.place ?? null,
+    windowMinutes: ctx.windowMinutes,
+    anchorPhase: item.anchorPhase,
+    ...(ctx.observer ? { observer: ctx.observer } : {}),
+    ...(item.local?.time ? { localEvent: item.local.time.toISOString() } : {}),
+    provider: ctx.provider,
+    score: item.score,
+    label: item.label,
+    weights: ctx.weights,
+    models: ctx.models,
+    ...(ctx.aggregation ? { aggregation: ctx.aggregation } : {}),
+    ...(ctx.missing ? { missing: ctx.missing } : {}),
+    factors: {
+      high: a.high ?? {}, mid: a.mid ?? {}, low: a.low ?? {},
+      precip: a.pre ?? {}, visKm: a.vis ?? {}, wind: a.wind ?? {},
+      horizonBlockage: item.horizon?.blockage,
+      rh: a.rh, dew: a.dew, pres: a.pres, aod: a.aod,
+    },
+    ensemble: e ? { median: e.median, min: e.min, max: e.max, spread: e.spread } : undefined,
+    capturedAt: new Date().toISOString(),
+  };
+}
+
+/* 帖子中的实测列：没有实测评分也没有快照时返回空对象（不写 event/observed_score/snapshot） */
+export function observationColumns(o: { event: SunEvent; observed: number | null; snapshot: PredictionSnapshot | null }): Partial<ObservationFields> {
+  if(o.observed==null && !o.snapshot) return {};
+  return {
+    event: o.event,
+    ...(o.observed!=null ? { observed_score: o.observed } : {}),
+    ...(o.snapshot ? { snapshot: o.snapshot } : {}),
+  };
+}
+
+const isObj = (v:unknown):v is Record<string, unknown> => !!v && typeof v==="object";
+
+/* 旧帖或手工数据：字段不全时按 null 处理，不抛错 */
+export function readObservation(row: unknown): ObservationFields {
+  const r = isObj(row) ? row : {};
+  const event = r.event==="sunset" || r.event==="sunrise" ? r.event : null;
+  const score = Number(r.observed_score);
+  let snapshot: unknown = r.snapshot ?? null;
+  if(typeof snapshot==="string"){ try{ snapshot = JSON.parse(snapshot); }catch{ snapshot = null; } }
+  return {
+    event,
+    observed_score: r.observed_score!=null && Number.isFinite(score) ? Math.max(0, Math.min(100, Math.round(score))) : null,
+    snapshot: isObj(snapshot) && snapshot.version===1 && Number.isFinite(snapshot.score) ? snapshot as unknown as PredictionSnapshot : null,
+  };
+}
+
+/* ---------- 校准数据集 ----------
+   接受两种 JSON：留言板导出（posts 数组，取 observed_score + snapshot.factors），
+   或 { observations: [{ event, observed, factors: { high, mid, low, precip, visKm, wind, rh?, dew?, pres?, aod? } }] }，
+   factors 各项可为数字或 StatAgg（取计分所用的 value，旧快照没有时取 avg）。不完整的记录计入 skipped。 */
+export type CalibrationRecord = CalibrationSample & { event: SunEvent };
+
+export function recordsFromObservations(json: unknown): { records: CalibrationRecord[]; skipped: number } {
+  const rows: unknown[] = Array.isArray(json) ? json : isObj(json) && Array.isArray(json.observations) ? json.observations : [];
+  const num = (v:unknown)=>{ const x = isObj(v) ? v.value ?? v.avg : v; return typeof x==="number" && Number.isFinite(x) ? x : undefined; };
+  const records: CalibrationRecord[] = [];
+  let skipped = 0;
+  for(const raw of rows){
+    const row = isObj(raw) ? raw : {};
+    const obs = "observed_score" in row ? readObservation(row) : null;
+    const observed = obs ? obs.observed_score : num(row.observed);
+    const factors: unknown = obs ? obs.snapshot?.factors : row.factors;
+    const event = obs ? (obs.event ?? obs.snapshot?.event) : (row.event==="sunrise" ? "sunrise" : "sunset");
+    if(observed==null || observed<0 || observed>100 || !isObj(factors) || !event){ skipped++; continue; }
+    records.push({
+      event, observed,
+      values: {
+        high: num(factors.high), mid: num(factors.mid), low: num(factors.low),
+        pre: num(factors.precip), vis: num(factors.visKm), wind: num(factors.wind),
+        rh: num(factors.rh), dew: num(factors.dew), pres: num(factors.pres), aod: num(factors.aod),
+      },
+    });
+  }
+  return { records, skipped };
+}
+
+/* ---------- 预测页 → 留言板 的预填（同源 sessionStorage，一次性读取） ---------- */
+const PREFILL_KEY = "board.prefill";
+
+export function stashBoardPrefill(snapshot: PredictionSnapshot){
+  if(typeof window === "undefined") return;
+  try{ window.sessionStorage.setItem(PREFILL_KEY, JSON.stringify(snapshot)); }catch{}
+}
+
+export function takeBoardPrefill(): PredictionSnapshot | null {
+  if(typeof window === "undefined") return null;
+  try{
+    const raw = window.sessionStorage.getItem(PREFILL_KEY);
+    window.sessionStorage.removeItem(PREFILL_KEY);
+    return raw ? readObservation({ snapshot: raw }).snapshot : null;
+  }catch{ return null; }
+}
@@ -0,0 +1,214 @@
+import {
+  FACTORS, SCORE_TIERS, validateAggregation, validateMissingPolicy, validateModels, validateWeights,
+  type Aggregation, type EventParams, type MissingPolicy, type FactorKey, type ScoreTier, type SunEvent, type Weights,
+} from "./scoring";
+import { WINDOW_RANGE } from "./deepLink";
+
+/* ---------- 参数包（导入/导出 JSON） ----------
+   v2：权重 + 模型之外，还带 ±窗口分钟、分级阈值与配色、元数据，开启的可选因子，以及（可选的）窗口聚合策略与缺失处理。
+   v1（{ version: 1, weights, models }）导入时自动迁移为 v2，窗口与分级取默认值；导出一律为 v2。
+   顶层参数属于 event 所指的事件；日出+日落一起导出时，两个事件各自的参数另放在 byEvent 中，
+   只认顶层字段的旧读取方仍能得到 event 那一套。
+   校验返回带字段路径的错误列表，供界面逐条显示。 */
+export const BUNDLE_VERSION = 2;
+
+export type BundleMeta = {
+  name: string;
+  author?: string;
+  description?: string;
+  created: string;                 // ISO
+};
+
+/* 一个事件的参数（参数包顶层与 byEvent 中的每一项同形） */
+export type BundleParams = {
+  factors?: FactorKey[];           // 开启的可选因子；省略时以 weights 中出现的键为准
+  weights: Weights;
+  models: EventParams["models"];
+  aggregation?: Aggregation;       // 省略 = 等权均值、对称窗口
+  missing?: MissingPolicy;         // 省略 = 中性值
+};
+
+export type ParamBundle = BundleParams & {
+  version: 2;
+  meta: BundleMeta;
+  windowMinutes: number;
+  tiers: ScoreTier[];              // 从高到低，最后一档 min 须为 0
+  event?: SunEvent;                // 顶层参数所属的事件；省略 = 未指定（按当前编辑的事件导入）
+  byEvent?: Partial<Record<SunEvent, BundleParams>>;   // 日出、日落各一套（一起导出时）
+};
+
+// 可由权重开关的可选因子（horizon 取决于是否开启地平线采样，不在此列）
+const TOGGLEABLE = FACTORS.filter(f=>f.optional && f.source!=="horizon");
+
+const isNum = (v:unknown):v is number => typeof v==="number" && Number.isFinite(v);
+const isObj = (v:unknown):v is Record<string, unknown> => !!v && typeof v==="object" && !Array.isArray(v);
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function bundleParams(params: EventParams): BundleParams {
+  return {
+    factors: TOGGLEABLE.filter(f=>params.weights[f.weightKey]!=null).map(f=>f.key),
+    weights: params.weights,
+    models: params.models,
+    ...(params.aggregation ? { aggregation: params.aggregation } : {}),
+    ...(params.missing ? { missing: params.missing } : {}),
+  };
+}
+
+/* params 为顶层（event 所指事件）的参数；byEvent 给出时一并写入两个事件的参数 */
+export function makeBundle(
+  params: EventParams,
+  opts: {
+    windowMinutes: number; tiers?: readonly ScoreTier[]; meta: Partial<BundleMeta> & { name: string }; now?: Date;
+    event?: SunEvent; byEvent?: Partial<Record<SunEvent, EventParams>>;
+  },
+): ParamBundle {
+  const { name, author, description } = opts.meta;
+  const byEvent = opts.byEvent
+    ? Object.fromEntries(Object.entries(opts.byEvent).map(([ev, p])=>[ev, bundleParams(p!)])) as Partial<Record<SunEvent, BundleParams>>
+    : undefined;
+  return {
+    version: 2,
+    meta: {
+      name,
+      ...(author ? { author } : {}),
+      ...(description ? { description } : {}),
+      created: opts.meta.created ?? (opts.now ?? new Date()).toISOString(),
+    },
+    windowMinutes: opts.windowMinutes,
+    tiers: (opts.tiers ?? SCORE_TIERS).map(t=>({ ...t })),
+    ...(opts.event ? { event: opts.event } : {}),
+    ...bundleParams(params),
+    ...(byEvent ? { byEvent } : {}),
+  };
+}
+
+export function validateTiers(tiers:unknown, path="tiers"):string[]{
+  if(!Array.isArray(tiers) || !tiers.length) return [`${path}: 应为非空数组 / must be a non-empty array`];
+  const errs:string[] = [];
+  tiers.forEach((t, i)=>{
+    const p = `${path}[${i}]`;
+    if(!isObj(t)){ errs.push(`${p}: 应为对象 / must be an object`); return; }
+    for(const k of ["min","mid"]){
+      const v = t[k];
+      if(!isNum(v)) errs.push(`${p}.${k}: 应为数字 / must be a number`);
+      else if(v<0 || v>100) errs.push(`${p}.${k}: 应在 0–100 / must be within 0–100`);
+    }
+    if(typeof t.label!=="string" || !t.label.trim()) errs.push(`${p}.label: 应为非空字符串 / must be a non-empty string`);
+    for(const k of ["bg","fg","ring"]){
+      if(typeof t[k]!=="string" || !HEX.test(t[k] as string)) errs.push(`${p}.${k}: 应为 #rgb 或 #rrggbb 颜色 / must be a #rgb or #rrggbb color`);
+    }
+    if(isNum(t.min) && isNum(t.mid) && t.mid<t.min) errs.push(`${p}.mid: 不能低于 min / must be ≥ min`);
+    const prev = tiers[i-1];
+    if(i>0 && isObj(prev) && isNum(prev.min) && isNum(t.min) && t.min>=prev.min){
+      errs.push(`${p}.min: 须低于上一档（${prev.min}）/ tiers must be ordered from high to low`);
+    }
+    if(i>0 && isObj(prev) && isNum(prev.min) && isNum(t.mid) && t.mid>=prev.min){
+      errs.push(`${p}.mid: 须低于上一档的 min（${prev.min}）/ must be below the next tier's min`);
+    }
+  });
+  const last = tiers[tiers.length-1];
+  if(isObj(last) && isNum(last.min) && last.min!==0) errs.push(`${path}[${tiers.length-1}].min: 最后一档须从 0 开始 / the last tier must start at 0`);
+  return errs;
+}
+
+function validateMeta(meta:unknown, path="meta"):string[]{
+  if(!isObj(meta)) return [`${path}: 缺失或不是对象 / missing or not an object`];
+  const errs:string[] = [];
+  if(typeof meta.name!=="string" || !meta.name.trim()) errs.push(`${path}.name: 应为非空字符串 / must be a non-empty string`);
+  for(const k of ["author","description"]){
+    if(meta[k]!=null && typeof meta[k]!=="string") errs.push(`${path}.${k}: 应为字符串 / must be a string`);
+  }
+  if(typeof meta.created!=="string" || !Number.isFinite(Date.parse(meta.created))){
+    errs.push(`${path}.created: 应为 ISO 日期 / must be an ISO date`);
+  }
+  return errs;
+}
+
+function validateFactorSet(factors:unknown, path="factors"):string[]{
+  if(factors==null) return [];
+  if(!Array.isArray(factors)) return [`${path}: 应为数组 / must be an array`];
+  return factors.flatMap((k, i)=>TOGGLEABLE.some(f=>f.key===k)
+    ? [] : [`${path}[${i}]: 不是可选因子 "${k}"（可用：${TOGGLEABLE.map(f=>f.key).join(", ")}）/ not an optional factor`]);
+}
+
+function validateBundleParams(p:Record<string, unknown>, prefix = ""):string[]{
+  return [
+    ...validateFactorSet(p.factors, `${prefix}factors`),
+    ...validateWeights(p.weights, `${prefix}weights`), ...validateModels(p.models, `${prefix}models`),
+    ...validateAggregation(p.aggregation, `${prefix}aggregation`), ...validateMissingPolicy(p.missing, `${prefix}missing`),
+  ];
+}
+
+const EVENTS: SunEvent[] = ["sunset","sunrise"];
+
+function validateByEvent(byEvent:unknown, path="byEvent"):string[]{
+  if(byEvent==null) return [];
+  if(!isObj(byEvent)) return [`${path}: 应为对象 / must be an object`];
+  return Object.entries(byEvent).flatMap(([ev, p])=>
+    !EVENTS.includes(ev as SunEvent) ? [`${path}.${ev}: 应为 sunset 或 sunrise / must be "sunset" or "sunrise"`]
+    : !isObj(p) ? [`${path}.${ev}: 应为对象 / must be an object`]
+    : validateBundleParams(p, `${path}.${ev}.`));
+}
+
+/* v2 结构校验；空数组 = 合法 */
+export function validateBundle(json:unknown):string[]{
+  if(!isObj(json)) return ["(root): 应为 JSON 对象 / must be a JSON object"];
+  if(json.version!==BUNDLE_VERSION) return [`version: 应为 ${BUNDLE_VERSION} / must be ${BUNDLE_VERSION}`];
+  const errs = [...validateMeta(json.meta)];
+  const [lo, hi] = WINDOW_RANGE;
+  if(!isNum(json.windowMinutes)) errs.push("windowMinutes: 应为数字 / must be a number");
+  else if(json.windowMinutes<lo || json.windowMinutes>hi) errs.push(`windowMinutes: 应在 ${lo}–${hi} / must be within ${lo}–${hi}`);
+  errs.push(...validateTiers(json.tiers));
+  if(json.event!=null && !EVENTS.includes(json.event as SunEvent)) errs.push(`event: 应为 sunset 或 sunrise / must be "sunset" or "sunrise"`);
+  errs.push(...validateBundleParams(json), ...validateByEvent(json.byEvent));
+  return errs;
+}
+
+/* v1 → v2：窗口与分级取默认值，可选因子由权重推出 */
+export function migrateV1(json:{ weights: Weights; models: EventParams["models"] }, opts:{ name?: string; now?: Date } = {}):ParamBundle{
+  return makeBundle({ weights: json.weights, models: json.models }, {
+    windowMinutes: 90,
+    meta: { name: opts.name || "v1 参数 / v1 parameters", description: "由 v1 参数文件迁移 / Migrated from a v1 parameter file" },
+    now: opts.now,
+  });
+}
+
+/* 解析任意版本的参数文件：errors 非空时 bundle 为 null */
+export function parseBundle(json:unknown, opts:{ name?: string; now?: Date } = {}):{ bundle: ParamBundle|null; errors: string[]; migrated: boolean }{
+  if(isObj(json) && json.version===1){
+    const errors = [...validateWeights(json.weights), ...validateModels(json.models)];
+    return errors.length
+      ? { bundle: null, errors, migrated: false }
+      : { bundle: migrateV1(json as Parameters<typeof migrateV1>[0], opts), errors, migrated: true };
+  }
+  if(isObj(json) && json.version!=null && json.version!==BUNDLE_VERSION){
+    return { bundle: null, errors: [`version: 不支持的版本 ${String(json.version)}（支持 1、2）/ unsupported version`], migrated: false };
+  }
+  const errors = validateBundle(json);
+  return { bundle: errors.length ? null : json as ParamBundle, errors, migrated: false };
+}
+
+/* 参数包 → 评分参数：按 factors 补齐开启因子的默认权重与曲线，移除未开启的可选权重。
+   给出 event 且包内有该事件的一套（byEvent）时取它，否则取顶层 */
+export function paramsFromBundle(bundle:ParamBundle, event?:SunEvent):EventParams{
+  const b:BundleParams = (event && bundle.byEvent?.[event]) || bundle;
+  const extra = { ...(b.aggregation ? { aggregation: b.aggregation } : {}), ...(b.missing ? { missing: b.missing } : {}) };
+  if(!b.factors) return { weights: b.weights, models: b.models, ...extra };
+  const weights:Weights = { ...b.weights };
+  const models = { ...b.models };
+  for(const f of TOGGLEABLE){
+    if(b.factors.includes(f.key)){
+      weights[f.weightKey] ??= f.defaultWeight;
+      models[f.key] ??= { ...f.defaultModel };
+    }else{
+      delete weights[f.weightKey];
+    }
+  }
+  return { weights, models, ...extra };
+}
+
+/* 包内带有参数的事件：byEvent 中的各事件，否则为顶层所属的 event（未指定时为空） */
+export function bundleEvents(b:ParamBundle):SunEvent[]{
+  if(b.byEvent) return EVENTS.filter(ev=>b.byEvent![ev]);
+  return b.event ? [b.event] : [];
+}
@@ -0,0 +1,128 @@
+import {
+  defaultEventParams, validateAggregation, validateMissingPolicy, validateModels, validateObserver, validateWeights,
+  type EventParams, type Observer, type ScoreModels, type SunEvent, type Weights,
+} from "./scoring";
+import { DAYS_RANGE, WINDOW_RANGE } from "./deepLink";
+
+/* ---------- 参数方案库（localStorage） ----------
+   一个方案 = 日出、日落两套权重与模型。内置方案只读，可另存为自己的方案；
+   自定义方案、上次使用的方案以及 days / windowMinutes / 观测者都存在本地，刷新后恢复。 */
+export type ParamProfile = {
+  id: string;
+  name: string;
+  builtin?: boolean;
+  params: Record<SunEvent, EventParams>;
+  updatedAt: number;
+};
+
+const PROFILES_KEY = "profiles.library";
+const ACTIVE_KEY = "profiles.active";
+const SETTINGS_KEY = "predictor.settings";
+
+// 在两个事件的默认参数上叠加同样的改动
+function preset(id: string, name: string, weights: Partial<Weights>, models: Partial<ScoreModels>): ParamProfile {
+  const on = (ev: SunEvent): EventParams => ({
+    weights: { ...defaultEventParams[ev].weights, ...weights },
+    models: { ...defaultEventParams[ev].models, ...models },
+  });
+  return { id, name, builtin: true, params: { sunset: on("sunset"), sunrise: on("sunrise") }, updatedAt: 0 };
+}
+
+export const DEFAULT_PROFILE_ID = "builtin:default";
+
+export const BUILTIN_PROFILES: ParamProfile[] = [
+  preset(DEFAULT_PROFILE_ID, "默认 / Default", {}, {}),
+  // 追高、中云被点亮：两者权重更高、理想云量略多，低云仍需较少
+  preset("builtin:fire", "火烧云猎人 / Fire-cloud hunter",
+    { highCloud: 0.40, midCloud: 0.30, lowCloud: 0.12, precip: 0.06, visibility: 0.04, wind: 0.08 },
+    {
+      high: { type: "tri", m: 55, w: 25, color: "#ef4444", unit: "%" },
+      mid:  { type: "tri", m: 45, w: 22, color: "#f59e0b", unit: "%" },
+    }),
+  // 地平线通透：严控低云与湿度，能见度要求更高
+  preset("builtin:clean", "地平线通透 / Clean horizon",
+    { highCloud: 0.15, midCloud: 0.12, lowCloud: 0.30, precip: 0.10, visibility: 0.20, wind: 0.05, humidity: 0.08 },
+    {
+      low: { type: "tri", m: 0, w: 12, color: "#3b82f6", unit: "%" },
+      vis: { type: "clampUp", threshold: 10, full: 30, color: "#a855f7", unit: " km" },
+    }),
+  // 风暴戏剧：更多中低云、容忍阵雨，看重气压回升（系统过境后的放晴）
+  preset("builtin:storm", "风暴戏剧 / Stormy drama",
+    { highCloud: 0.20, midCloud: 0.30, lowCloud: 0.15, precip: 0.05, visibility: 0.10, wind: 0.10, pressureTrend: 0.10 },
+    {
+      mid:  { type: "tri", m: 60, w: 25, color: "#f59e0b", unit: "%" },
+      low:  { type: "tri", m: 20, w: 20, color: "#3b82f6", unit: "%" },
+      pre:  { type: "clampDown", min: 20, max: 100, color: "#22c55e", unit: "%" },
+      wind: { type: "tri", m: 7, w: 5, color: "#0ea5e9", unit: " m/s" },
+    }),
+];
+
+function validProfile(p: any): p is ParamProfile {
+  return !!p && typeof p.id==="string" && typeof p.name==="string" && !!p.params
+    && (["sunset","sunrise"] as SunEvent[]).every(ev=>
+      !validateWeights(p.params[ev]?.weights).length && !validateModels(p.params[ev]?.models).length
+      && !validateAggregation(p.params[ev]?.aggregation).length && !validateMissingPolicy(p.params[ev]?.missing).length);
+}
+
+/* 自定义方案（不含内置）；无效条目直接丢弃 */
+export function loadProfiles(): ParamProfile[] {
+  if(typeof window === "undefined") return [];
+  try{
+    const raw = JSON.parse(window.localStorage.getItem(PROFILES_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(validProfile).map(p=>({ ...p, builtin: undefined })) : [];
+  }catch{ return []; }
+}
+
+export function saveProfiles(list: ParamProfile[]){
+  if(typeof window === "undefined") return;
+  try{ window.localStorage.setItem(PROFILES_KEY, JSON.stringify(list.filter(p=>!p.builtin))); }catch{}
+}
+
+export function loadActiveProfileId(): string | null {
+  if(typeof window === "undefined") return null;
+  try{ return window.localStorage.getItem(ACTIVE_KEY); }catch{ return null; }
+}
+
+export function saveActiveProfileId(id: string){
+  if(typeof window === "undefined") return;
+  try{ window.localStorage.setItem(ACTIVE_KEY, id); }catch{}
+}
+
+export type PredictorSettings = { days?: number; windowMinutes?: number; observer?: Observer };
+
+export function loadPredictorSettings(): PredictorSettings {
+  if(typeof window === "undefined") return {};
+  try{
+    const raw = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? "{}");
+    const inRange = (v: unknown, [lo, hi]: [number, number])=> typeof v==="number" && v>=lo && v<=hi ? v : undefined;
+    return {
+      days: inRange(raw?.days, DAYS_RANGE), windowMinutes: inRange(raw?.windowMinutes, WINDOW_RANGE),
+      observer: raw?.observer && !validateObserver(raw.observer).length ? raw.observer : undefined,
+    };
+  }catch{ return {}; }
+}
+
+export function savePredictorSettings(s: PredictorSettings){
+  if(typeof window === "undefined") return;
+  try{ window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(s)); }catch{}
+}
+
+export function newProfileId(){
+  return `user:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/* 重名时追加序号：「名称 (2)」 */
+export function uniqueProfileName(list: ParamProfile[], base: string){
+  const names = new Set(list.map(p=>p.name));
+  if(!names.has(base)) return base;
+  let i = 2;
+  while(names.has(`${base} (${i})`)) i++;
+  return `${base} (${i})`;
+}
+
+/* 上次使用的方案（内置或自定义）；找不到时为 null */
+export function loadActiveProfile(): ParamProfile | null {
+  const id = loadActiveProfileId();
+  if(!id) return null;
+  return [...BUILTIN_PROFILES, ...loadProfiles()].find(p=>p.id===id) ?? null;
+}
@@ -0,0 +1,106 @@
+import type { AggKernel, Aggregation, FactorAgg, StatAgg } from "./types";
+
+export function metersToKm(m:number){ return m/1000; }
+
+// 0–1 → 0–100 归一化（open-meteo 有时给 0–1）
+export function normalizePctArray(arr:(number|undefined)[]):number[]{
+  const nums = arr.filter((v):v is number => typeof v==="number");
+  if(!nums.length) return [];
+  const maxAbs = Math.max(...nums.map(v=>Math.abs(v)));
+  return maxAbs<=1.01 ? nums.map(v=>v*100) : nums;
+}
+export function aggPctOverIndices(source:(number|undefined)[], idx:number[]):StatAgg{
+  const picked = idx.map(i=>source?.[i]).filter((v):v is number => typeof v==="number");
+  if(!picked.length) return {};
+  const norm = normalizePctArray(picked);
+  const sum = norm.reduce((a,b)=>a+b,0);
+  return { avg: sum/norm.length, min: Math.min(...norm), max: Math.max(...norm) };
+}
+export function aggNumOverIndices(source:(number|undefined)[], idx:number[], map?:(n:number)=>number):StatAgg{
+  const picked = idx.map(i=>source?.[i]).filter((v):v is number => typeof v==="number");
+  if(!picked.length) return {};
+  const vals = map ? picked.map(map) : picked as number[];
+  const sum = vals.reduce((a,b)=>a+b,0);
+  return { avg: sum/vals.length, min: Math.min(...vals), max: Math.max(...vals) };
+}
+
+/* ---------- 可配置的窗口聚合 ---------- */
+export const AGG_KERNELS: { id: AggKernel; label: string }[] = [
+  { id: "uniform",    label: "等权 / Uniform" },
+  { id: "triangular", label: "三角核 / Triangular" },
+  { id: "gaussian",   label: "高斯核 / Gaussian" },
+];
+export const AGG_SIDE_RANGE: [number, number] = [0.25, 2];   // before/after 倍数的范围
+
+/* 窗口起止：事件前 before×window、事件后 after×window 分钟 */
+export function windowBounds(anchor:Date, windowMinutes:number, agg?:Aggregation){
+  const ms = windowMinutes*60*1000;
+  return {
+    start: new Date(anchor.getTime() - (agg?.before ?? 1)*ms),
+    end:   new Date(anchor.getTime() + (agg?.after ?? 1)*ms),
+  };
+}
+
+/* 窗口前后的实际分钟数（取整）；文案对称时为「±N 分钟」 */
+export function windowSpan(windowMinutes:number, agg?:Aggregation){
+  return { before: Math.round((agg?.before ?? 1)*windowMinutes), after: Math.round((agg?.after ?? 1)*windowMinutes) };
+}
+export function formatWindowSpan(windowMinutes:number, agg?:Aggregation){
+  const { before, after } = windowSpan(windowMinutes, agg);
+  return before===after ? `±${before} 分钟` : `前 ${before} / 后 ${after} 分钟`;
+}
+
+/* 某时刻的核权重：三角核在窗口边缘降到 0；高斯核 σ 取该侧窗口长度的一半 */
+export function kernelWeight(t:number, anchor:number, start:number, end:number, kernel:AggKernel = "uniform"){
+  if(kernel==="uniform") return 1;
+  const side = t<anchor ? anchor - start : end - anchor;
+  if(side<=0) return 1;
+  const u = Math.abs(t - anchor)/side;
+  return kernel==="triangular" ? Math.max(0, 1 - u) : Math.exp(-2*u*u);
+}
+
+/* 加权统计：均值、分位数（按累计权重取最近秩）用核权重；最小/最大取窗口内全部小时 */
+export function weightedStat(vals:number[], ws:number[], spec:FactorAgg = { stat: "mean" }):number|undefined{
+  if(!vals.length) return undefined;
+  if(spec.stat==="min") return Math.min(...vals);
+  if(spec.stat==="max") return Math.max(...vals);
+  const total = ws.reduce((a,b)=>a+b, 0);
+  // 权重全为 0（只剩窗口边缘的小时）时退回等权
+  const w = total>0 ? ws : vals.map(()=>1);
+  const sum = total>0 ? total : vals.length;
+  if(spec.stat==="mean") return vals.reduce((a,v,i)=>a + v*w[i], 0)/sum;
+  const target = Math.min(100, Math.max(0, spec.p ?? 50))/100*sum;
+  const order = vals.map((v,i)=>({ v, w: w[i] })).sort((a,b)=>a.v-b.v);
+  let acc = 0;
+  for(const o of order){ acc += o.w; if(acc>=target - 1e-9 && o.w>0) return o.v; }
+  return order[order.length-1].v;
+}
+
+/* 窗口聚合：weights 与 idx 一一对应；pct 因子先做 0–1 → 0–100 归一化 */
+export function aggWindow(source:(number|undefined)[], idx:number[], weights:number[], opts:{ pct?:boolean; spec?:FactorAgg } = {}):StatAgg{
+  const pairs = idx.map((i,k)=>({ v: source?.[i], w: weights[k] ?? 1 })).filter((p):p is { v:number; w:number } => typeof p.v==="number");
+  if(!pairs.length) return {};
+  const vals = opts.pct ? normalizePctArray(pairs.map(p=>p.v)) : pairs.map(p=>p.v);
+  const ws = pairs.map(p=>p.w);
+  const avg = weightedStat(vals, ws);
+  return { avg, min: Math.min(...vals), max: Math.max(...vals), value: opts.spec ? weightedStat(vals, ws, opts.spec) : avg };
+}
+
+export function aggStatLabel(spec?:FactorAgg){
+  switch(spec?.stat ?? "mean"){
+    case "mean": return "均值 / mean";
+    case "min":  return "最小 / min";
+    case "max":  return "最大 / max";
+    case "percentile": return `P${spec?.p ?? 50}`;
+  }
+}
+
+/* 说明文字：核、前后窗口与非均值的因子统计量（labelOf 把因子键换成名称） */
+export function describeAggregation(agg:Aggregation|undefined, windowMinutes:number, labelOf:(key:string)=>string = k=>k){
+  const kernel = AGG_KERNELS.find(k=>k.id===(agg?.kernel ?? "uniform"))!.label;
+  const win = formatWindowSpan(windowMinutes, agg);
+  const stats = Object.entries(agg?.factors ?? {})
+    .filter(([,s])=>s && s.stat!=="mean")
+    .map(([k,s])=>`${labelOf(k)} 取 ${aggStatLabel(s)}`);
+  return [kernel, win, ...stats].join(" · ");
+}
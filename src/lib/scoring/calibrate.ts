@@ -0,0 +1,180 @@
+import type { EventParams, ScoreModel, ScoreModels } from "./types";
+import { clamp } from "./models";
+import { activeFactors } from "./registry";
+import { scoreFactors, type FactorValues } from "./factors";
+
+/* ---------- 由实测记录自动校准 ----------
+   样本 = 窗口因子统计 + 实测评分（0–100）。在当前参数附近做确定性的坐标搜索：
+   每轮逐个参数尝试 ±步长，变好就接受，一轮无改进则步长减半。
+   目标 = MAE + 向起点的轻微收缩（样本少时避免参数跑飞）。不含随机数，同一数据集结果可复现。 */
+export type CalibrationSample = { values: FactorValues; observed: number };
+export type CalibrationMetrics = { n: number; mae: number; spearman: number | null };
+export type CalibrationResult = {
+  params: EventParams;
+  before: CalibrationMetrics;
+  after: CalibrationMetrics;
+  sweeps: number;
+};
+
+export const CALIBRATION_MIN_SAMPLES = 5;
+
+/* ---------- 指标 ---------- */
+export function meanAbsError(pred:number[], obs:number[]){
+  if(!pred.length) return 0;
+  return pred.reduce((a,p,i)=>a + Math.abs(p - obs[i]), 0)/pred.length;
+}
+
+// 平均秩（并列取均值）
+function ranks(xs:number[]){
+  const order = xs.map((x,i)=>[x,i] as const).sort((a,b)=>a[0]-b[0]);
+  const r = new Array<number>(xs.length);
+  for(let i=0;i<order.length;){
+    let j=i; while(j+1<order.length && order[j+1][0]===order[i][0]) j++;
+    for(let k=i;k<=j;k++) r[order[k][1]] = (i+j)/2 + 1;
+    i = j+1;
+  }
+  return r;
+}
+
+/* Spearman 秩相关；样本不足或一方无变化时返回 null */
+export function spearman(a:number[], b:number[]):number|null{
+  if(a.length<3) return null;
+  const ra = ranks(a), rb = ranks(b);
+  const mean = (xs:number[])=>xs.reduce((s,x)=>s+x,0)/xs.length;
+  const ma = mean(ra), mb = mean(rb);
+  let num=0, da=0, db=0;
+  for(let i=0;i<ra.length;i++){ const x=ra[i]-ma, y=rb[i]-mb; num+=x*y; da+=x*x; db+=y*y; }
+  return da && db ? num/Math.sqrt(da*db) : null;
+}
+
+export function evaluateParams(samples:CalibrationSample[], params:EventParams):CalibrationMetrics{
+  const pred = samples.map(s=>scoreFactors(s.values, params.weights, params.models, undefined, params.missing).score);
+  const obs = samples.map(s=>s.observed);
+  return { n: samples.length, mae: meanAbsError(pred, obs), spearman: spearman(pred, obs) };
+}
+
+/* ---------- 参数向量 ---------- */
+type Param = {
+  get: (p:EventParams)=>number;
+  set: (p:EventParams, v:number)=>void;
+  lo: number; hi: number; step: number;
+};
+
+// 参与拟合的因子：当前参数里计分的本地因子（地平线遮挡不在实测快照的拟合范围内）
+function fitFactors(start:EventParams){ return activeFactors(start.weights); }
+
+function paramSpace(start:EventParams):Param[]{
+  const out:Param[] = [];
+  const factors = fitFactors(start);
+  for(const f of factors){
+    const k = f.weightKey;
+    out.push({ get:p=>p.weights[k] ?? 0, set:(p,v)=>{ p.weights[k] = v; }, lo:0, hi:1, step:0.05 });
+  }
+  for(const f of factors){
+    const k = f.key;
+    // 曲线参数在因子量程内搜索；宽度类参数取量程的 1/50–1
+    // 拟合中曲线类型不变：只读写与起点同类型的模型（类型不符时读 NaN、不写入）
+    const [lo, hi] = f.domain, d = hi - lo;
+    const field = <N extends string, M extends ScoreModel & Record<N, number>>(m:M, name:N, a:number, b:number, step = d/10):Param=>{
+      const same = (x?:ScoreModel): x is M => x?.type===m.type;
+      return {
+        get: p=>{ const x = p.models[k]; if(!same(x)) return NaN; const r:Record<N, number> = x; return r[name]; },
+        set: (p,v)=>{ const x = p.models[k]; if(!same(x)) return; const r:Record<N, number> = x; r[name] = v; },
+        lo:a, hi:b, step,
+      };
+    };
+    const m = start.models[k] ?? f.defaultModel;
+    switch(m.type){
+      case "tri": case "invTri": out.push(field(m, "m", lo, hi), field(m, "w", d/50, d)); break;
+      case "clampUp":   out.push(field(m, "threshold", lo, hi), field(m, "full", lo, hi)); break;
+      case "clampDown": out.push(field(m, "min", lo, hi), field(m, "max", lo, hi)); break;
+      case "gauss":     out.push(field(m, "m", lo, hi), field(m, "sigma", d/50, d)); break;
+      case "trapezoid": out.push(field(m, "a", lo, hi), field(m, "b", lo, hi), field(m, "c", lo, hi), field(m, "d", lo, hi)); break;
+      case "logistic": {
+        // 斜率保持方向不变：过渡宽度约 4/|k|，在 d/50–d 之间
+        const sign = m.k<0 ? -1 : 1;
+        out.push(field(m, "mid", lo, hi), field(m, "k", sign>0 ? 4/d : -200/d, sign>0 ? 200/d : -4/d, 4/d));
+        break;
+      }
+      case "piecewise":
+        // 只拟合各点的 s，x 位置保持不变
+        m.points.forEach((_, i)=>out.push({
+          get: p=>{ const x = p.models[k]; return x?.type==="piecewise" ? x.points[i][1] : NaN; },
+          set: (p,v)=>{ const x = p.models[k]; if(x?.type==="piecewise") x.points[i][1] = v; },
+          lo: 0, hi: 1, step: 0.1,
+        }));
+        break;
+    }
+  }
+  return out;
+}
+
+// 阈值模型须保持上下界有序，否则 scoreByModel 会除以 0 或反向
+function feasible(models:ScoreModels){
+  const gap = (a:number,b:number)=>b - a >= 0.5;
+  return Object.values(models).every(m=>{
+    if(!m) return true;
+    if(m.type==="clampUp") return gap(m.threshold, m.full);
+    if(m.type==="clampDown") return gap(m.min, m.max);
+    if(m.type==="trapezoid") return m.a<=m.b && m.b<=m.c && m.c<=m.d;
+    return true;
+  });
+}
+
+const cloneParams = (p:EventParams):EventParams=>JSON.parse(JSON.stringify(p));
+
+export function calibrateParams(
+  samples:CalibrationSample[],
+  start:EventParams,
+  opts:{ maxSweeps?: number; shrink?: number } = {},
+):CalibrationResult{
+  if(samples.length < CALIBRATION_MIN_SAMPLES){
+    throw new Error(`至少需要 ${CALIBRATION_MIN_SAMPLES} 条带实测评分的记录 / need at least ${CALIBRATION_MIN_SAMPLES} rated observations`);
+  }
+  const maxSweeps = opts.maxSweeps ?? 200;
+  const shrink = opts.shrink ?? 2;        // 每个参数偏离一整个量程的惩罚（分）
+  // 可选因子未设置曲线时从注册表默认曲线起步
+  start = cloneParams(start);
+  for(const f of fitFactors(start)) start.models[f.key] ??= { ...f.defaultModel };
+  const space = paramSpace(start);
+  const origin = space.map(s=>s.get(start));
+
+  // 拟合用连续分数（不取整），报告指标仍用页面上显示的整数分
+  const objective = (p:EventParams)=>{
+    let err = 0;
+    for(const s of samples){
+      const items = scoreFactors(s.values, p.weights, p.models, undefined, p.missing).items;
+      err += Math.abs(clamp(items.reduce((a,it)=>a + it.s*it.w*100, 0), 0, 100) - s.observed);
+    }
+    const reg = space.reduce((a,s,i)=>a + ((s.get(p) - origin[i])/(s.hi - s.lo))**2, 0);
+    return err/samples.length + shrink*reg;
+  };
+
+  const cur = cloneParams(start);
+  let best = objective(cur);
+  const steps = space.map(s=>s.step);
+  let sweeps = 0;
+  for(; sweeps<maxSweeps; sweeps++){
+    let improved = false;
+    space.forEach((s,i)=>{
+      for(const dir of [1, -1]){
+        const old = s.get(cur);
+        const v = clamp(old + dir*steps[i], s.lo, s.hi);
+        if(v===old) continue;
+        s.set(cur, v);
+        const f = feasible(cur.models) ? objective(cur) : Infinity;
+        if(f < best - 1e-9){ best = f; improved = true; break; }
+        s.set(cur, old);
+      }
+    });
+    if(!improved){
+      if(steps.every((st,i)=>st <= space[i].step/64)) break;
+      for(let i=0;i<steps.length;i++) steps[i] /= 2;
+    }
+  }
+
+  // 参数取整到面板滑块的精度
+  space.forEach(s=>s.set(cur, s.step<1 ? Math.round(s.get(cur)*100)/100 : Math.round(s.get(cur)*10)/10));
+  if(!feasible(cur.models)) return { params: cloneParams(start), before: evaluateParams(samples, start), after: evaluateParams(samples, start), sweeps };
+  return { params: cur, before: evaluateParams(samples, start), after: evaluateParams(samples, cur), sweeps };
+}
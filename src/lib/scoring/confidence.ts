@@ -0,0 +1,61 @@
+import type { Confidence, FactorKey, HorizonAgg } from "./types";
+
+/* ---------- 数据置信度 ----------
+   分数本身不反映数据是否齐全：缺失项按中性值计分时分数看起来照样"正常"。
+   置信度把三件事合成一个 0–100 的数：
+   - 覆盖率：每个参与计分的因子在窗口内有值的小时数 / 窗口应有的小时数，按权重平均；
+     地平线遮挡按有低云数据的采样点比例计；
+   - 预报时效：24 小时内为 1，之后线性降到 10 天时的 0.5；
+   - 缺失因子：窗口内完全没有数据的因子，每个再乘 0.9。 */
+export const LEAD_FULL_HOURS = 24;
+export const LEAD_MIN_HOURS = 240;
+export const LEAD_MIN_FACTOR = 0.5;
+export const MISSING_PENALTY = 0.9;
+
+const HOUR_MS = 3600*1000;
+
+/* 窗口 [start, end] 内应有的整点数（逐小时预报） */
+export function expectedHours(start:Date, end:Date){
+  return Math.max(1, Math.floor(end.getTime()/HOUR_MS) - Math.ceil(start.getTime()/HOUR_MS) + 1);
+}
+
+/* 预报时效系数 */
+export function leadFactor(leadHours:number){
+  if(leadHours<=LEAD_FULL_HOURS) return 1;
+  const u = Math.min(1, (leadHours - LEAD_FULL_HOURS)/(LEAD_MIN_HOURS - LEAD_FULL_HOURS));
+  return 1 - u*(1 - LEAD_MIN_FACTOR);
+}
+
+export function confidenceLevel(score:number):Confidence["level"]{
+  return score>=75 ? "high" : score>=50 ? "medium" : "low";
+}
+
+export function confidenceLabel(level:Confidence["level"]){
+  return level==="high" ? "高 / High" : level==="medium" ? "中 / Medium" : "低 / Low";
+}
+
+/* counts：各因子窗口内有值的小时数；weights：各因子权重（与计分一致） */
+export function dataConfidence(opts:{
+  counts: Partial<Record<FactorKey, number>>;
+  weights: Partial<Record<FactorKey, number>>;
+  expected: number;
+  horizon?: HorizonAgg;
+  event: Date;
+  now: Date;
+}):Confidence{
+  const rows = (Object.keys(opts.weights) as FactorKey[]).map(key=>{
+    const w = opts.weights[key] ?? 0;
+    if(key==="horizon"){
+      const pts = opts.horizon?.points ?? [];
+      return { key, w, cov: pts.length ? pts.filter(p=>p.lowPct!=null).length/pts.length : 0 };
+    }
+    return { key, w, cov: Math.min(1, (opts.counts[key] ?? 0)/opts.expected) };
+  });
+  const wsum = rows.reduce((a,r)=>a + r.w, 0);
+  const coverage = wsum>0 ? rows.reduce((a,r)=>a + r.w*r.cov, 0)/wsum : 0;
+  const missing = rows.filter(r=>r.cov===0).map(r=>r.key);
+  const leadHours = Math.max(0, (opts.event.getTime() - opts.now.getTime())/HOUR_MS);
+  const lead = leadFactor(leadHours);
+  const score = Math.round(100*coverage*lead*MISSING_PENALTY**missing.length);
+  return { score, level: confidenceLevel(score), coverage, leadHours, lead, missing };
+}
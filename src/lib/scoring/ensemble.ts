@@ -0,0 +1,66 @@
+import type { EnsembleStats, EventParams, OpenMeteoResponse, SunEvent, SunsetItem } from "./types";
+import { predictEvents, type EventsOptions } from "./predict";
+import { labelFromScore } from "./labels";
+import { itemValues } from "./factors";
+
+/* 极差超过该值视为"模型分歧较大" */
+export const ENSEMBLE_SPREAD_WARN = 25;
+const ENSEMBLE_SPREAD_OK = 12;
+
+// 线性插值分位数（sorted 已升序）
+export function quantile(sorted:number[], q:number){
+  if(!sorted.length) return NaN;
+  const pos = (sorted.length-1)*q;
+  const lo = Math.floor(pos), hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi]-sorted[lo])*(pos-lo);
+}
+
+export function ensembleStats(members:EnsembleStats["members"]):EnsembleStats{
+  const sorted = members.map(m=>m.score).sort((a,b)=>a-b);
+  const min = sorted[0], max = sorted[sorted.length-1];
+  const spread = max - min;
+  return {
+    members,
+    median: Math.round(quantile(sorted, 0.5)),
+    min, max,
+    p25: quantile(sorted, 0.25),
+    p75: quantile(sorted, 0.75),
+    spread,
+    agreement: spread<=ENSEMBLE_SPREAD_OK ? "high" : spread<ENSEMBLE_SPREAD_WARN ? "medium" : "low",
+  };
+}
+
+/* 每个模型各跑一遍同一套评分流程，再按 (事件, 日期) 合并：
+   分数取中位数，细节沿用最接近中位数的那个成员；各成员的因子取值一并保留，供 what-if 逐成员重算 */
+export function predictEnsemble(
+  members:Record<string, OpenMeteoResponse>,
+  opts:EventsOptions,
+  params:Partial<Record<SunEvent,EventParams>>,
+):SunsetItem[]{
+  const groups = new Map<string, { model:string; item:SunsetItem }[]>();
+  const today = opts.today ?? new Date();
+  for(const [model, data] of Object.entries(members)){
+    for(const item of predictEvents(data, { ...opts, today }, params)){
+      const key = `${item.event}|${item.dateKey}`;
+      if(!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push({ model, item });
+    }
+  }
+
+  const out:SunsetItem[] = [];
+  for(const group of groups.values()){
+    const stats = ensembleStats(group.map(g=>({ model:g.model, score:g.item.score, values:itemValues(g.item) })));
+    const rep = group.reduce((best,g)=>
+      Math.abs(g.item.score-stats.median) < Math.abs(best.item.score-stats.median) ? g : best);
+    out.push({
+      ...rep.item,
+      score: stats.median,
+      label: labelFromScore(stats.median, opts.tiers),
+      explain: { ...rep.item.explain, total: stats.median },
+      ensemble: { ...stats, representative: rep.model },
+    });
+  }
+  // 与 predictEvents 相同：按日期，同一天日出在前
+  const order:Record<SunEvent,number> = { sunrise:0, sunset:1 };
+  return out.sort((a,b)=>a.dateKey.localeCompare(b.dateKey) || order[a.event]-order[b.event]);
+}
@@ -0,0 +1,48 @@
+import type { ExplainRow, FactorKey, HorizonAgg, MissingPolicy, ScoreModels, SunsetItem, Weights } from "./types";
+import { clamp, scoreByModel } from "./models";
+import { activeFactors } from "./registry";
+
+/* 一组因子取值（窗口平均，或时间轴上某一时刻），键与单位见因子注册表 */
+export type FactorValues = Partial<Record<FactorKey, number>>;
+
+export type FactorScore = { items: ExplainRow[]; score: number; formula: string };
+
+/* 打分明细里各因子的窗口均值（horizon 为遮挡 %） */
+export function itemValues(item: SunsetItem): FactorValues {
+  return Object.fromEntries(item.explain.items.filter(r=>r.value!=null).map(r=>[r.key, r.value]));
+}
+
+/* 因子取值 → 标准化 s、加权贡献与总分；缺失项默认用中性值并在 note 中标注，
+   missing="renormalize" 时缺失项权重记 0、其余权重按比例放大到原合计（全部缺失时仍用中性值）
+   参与的因子由注册表与权重决定（可选因子需有权重键；horizon 需有采样） */
+export function scoreFactors(v:FactorValues, w:Weights, models:ScoreModels, horizon?:HorizonAgg, missing:MissingPolicy = "neutral"):FactorScore{
+  const noData = (x?:number)=> x==null ? "No data / 无数据" : undefined;
+  let parts: Omit<ExplainRow,"contribution">[] = activeFactors(w, { horizon: !!horizon }).map(f=>{
+    const x = f.key==="horizon" ? horizon!.blockage : v[f.key];
+    const note = f.key==="horizon" && x!=null
+      ? `方位 ${Math.round(horizon!.bearing)}° · 遮挡 ${Math.round(x)}%`
+      : noData(x);
+    return {
+      key: f.key, label: f.label, value: x,
+      s: scoreByModel(x, models[f.key] ?? f.defaultModel) ?? f.neutral,
+      w: w[f.weightKey] ?? f.defaultWeight,
+      note,
+    };
+  });
+
+  if(missing==="renormalize"){
+    const total = parts.reduce((a,it)=>a + it.w, 0);
+    const avail = parts.reduce((a,it)=>a + (it.value==null ? 0 : it.w), 0);
+    if(avail>0 && avail<total){
+      parts = parts.map(it=>it.value==null
+        ? { ...it, w: 0, note: "No data / 无数据 · 权重已重新分配 / weight redistributed" }
+        : { ...it, w: it.w*total/avail });
+    }
+  }
+
+  const items = parts.map(it => ({ ...it, contribution: Math.round(it.s * it.w * 1000)/10 }));
+  const score0 = items.reduce((acc,it)=>acc+it.contribution,0);
+  const score = Math.round(clamp(score0,0,100));
+  const formula = items.filter(it=>it.w>0).map(it=>`${it.w.toFixed(2)}×${it.s.toFixed(2)}`).join(" + ");
+  return { items, score, formula };
+}
@@ -0,0 +1,63 @@
+import * as SunCalc from "suncalc";
+import type { HorizonAgg, OpenMeteoResponse, SunEvent } from "./types";
+import { aggPctOverIndices } from "./aggregate";
+
+/* ---------- 地平线方向采样 ----------
+   火烧云需要：头顶有中高云承接光线，同时太阳方向的地平线足够通透让光照进来。
+   沿日落（日出）方位角在 25/50/100/200 km 处取点，汇总窗口内低云量，
+   按距离加权得到"地平线低云遮挡"。越远的点越接近光线擦过的路径，权重越大。 */
+export const HORIZON_DISTANCES_KM = [25, 50, 100, 200];
+export const HORIZON_POINT_WEIGHTS = [0.15, 0.20, 0.30, 0.35];
+
+/* 某地某天事件时刻太阳的方位（度，正北=0 顺时针） */
+export function eventBearing(day:Date, lat:number, lon:number, event:SunEvent){
+  const t = SunCalc.getTimes(day, lat, lon)[event];
+  // SunCalc 的 azimuth 以正南为 0、向西为正（弧度）
+  const az = SunCalc.getPosition(t, lat, lon).azimuth * 180/Math.PI;
+  return (az + 180 + 360) % 360;
+}
+
+/* 大圆航线：由起点、方位与距离求终点 */
+export function destinationPoint(lat:number, lon:number, bearingDeg:number, distKm:number){
+  const R = 6371, rad = Math.PI/180;
+  const d = distKm/R, th = bearingDeg*rad;
+  const la1 = lat*rad, lo1 = lon*rad;
+  const la2 = Math.asin(Math.sin(la1)*Math.cos(d) + Math.cos(la1)*Math.sin(d)*Math.cos(th));
+  const lo2 = lo1 + Math.atan2(Math.sin(th)*Math.sin(d)*Math.cos(la1), Math.cos(d) - Math.sin(la1)*Math.sin(la2));
+  return { lat: la2/rad, lon: ((lo2/rad + 540) % 360) - 180 };
+}
+
+/* 两点间大圆距离（km） */
+export function greatCircleKm(lat1:number, lon1:number, lat2:number, lon2:number){
+  const R = 6371, rad = Math.PI/180;
+  const dLa = (lat2-lat1)*rad, dLo = (lon2-lon1)*rad;
+  const a = Math.sin(dLa/2)**2 + Math.cos(lat1*rad)*Math.cos(lat2*rad)*Math.sin(dLo/2)**2;
+  return 2*R*Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function horizonSamplePoints(lat:number, lon:number, bearing:number){
+  return HORIZON_DISTANCES_KM.map((distanceKm, i)=>({
+    distanceKm, weight: HORIZON_POINT_WEIGHTS[i], ...destinationPoint(lat, lon, bearing, distanceKm),
+  }));
+}
+
+/* 采样点及其预报（由调用方拉取） */
+export type HorizonSeries = {
+  event: SunEvent;
+  bearing: number;
+  points: { distanceKm: number; weight: number; lat: number; lon: number; data: OpenMeteoResponse }[];
+};
+
+/* 在 [start, end] 窗口内汇总各点低云，并按距离权重求遮挡值（缺数据的点不参与加权） */
+export function aggregateHorizon(series:HorizonSeries, start:Date, end:Date):HorizonAgg{
+  const points = series.points.map(p=>{
+    const t = p.data.hourly.time.map(s=>new Date(s));
+    const idx:number[] = []; for(let i=0;i<t.length;i++){ if(t[i]>=start && t[i]<=end) idx.push(i); }
+    const low = aggPctOverIndices(p.data.hourly.cloudcover_low ?? [], idx).avg;
+    return { distanceKm: p.distanceKm, lat: p.lat, lon: p.lon, weight: p.weight, lowPct: low, share: 0 };
+  });
+  const wsum = points.reduce((a,p)=>a + (p.lowPct==null ? 0 : p.weight), 0);
+  if(!wsum) return { bearing: series.bearing, points };
+  for(const p of points){ if(p.lowPct!=null) p.share = p.weight/wsum * p.lowPct; }
+  return { bearing: series.bearing, points, blockage: points.reduce((a,p)=>a+p.share, 0) };
+}
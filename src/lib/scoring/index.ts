@@ -0,0 +1,18 @@
+// 日落评分引擎：与 React 无关，可在页面、脚本中复用
+export * from "./types";
+export * from "./registry";
+export * from "./models";
+export * from "./aggregate";
+export * from "./labels";
+export * from "./predict";
+export * from "./ensemble";
+export * from "./validate";
+export * from "./horizon";
+export * from "./factors";
+export * from "./timeline";
+export * from "./twilight";
+export * from "./timezone";
+export * from "./calibrate";
+export * from "./sensitivity";
+export * from "./confidence";
+export * from "./terrain";
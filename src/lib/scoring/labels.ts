@@ -0,0 +1,27 @@
+import type { SunEvent } from "./types";
+
+/* ---------- 分级标签与配色 ---------- */
+/* 分级：最低分、代表分（按档位记录实测时使用）、标签与卡片配色 */
+export type ScoreTier = { min:number; mid:number; label:string; bg:string; fg:string; ring:string };
+export type ScoreTheme = Pick<ScoreTier, "bg"|"fg"|"ring">;
+
+/* 默认五档（从高到低）；参数包可携带自定义分级 */
+export const SCORE_TIERS: readonly ScoreTier[] = [
+  { min:85, mid:92, label:"🔥 Fire / 火烧云", bg:"#fff1f2", fg:"#e11d48", ring:"#fecdd3" },
+  { min:70, mid:77, label:"Great / 极佳",     bg:"#fff7ed", fg:"#ea580c", ring:"#fed7aa" },
+  { min:55, mid:62, label:"Good / 较好",      bg:"#fffbeb", fg:"#ca8a04", ring:"#fde68a" },
+  { min:40, mid:47, label:"Fair / 一般",      bg:"#f3f4f6", fg:"#6b7280", ring:"#e5e7eb" },
+  { min:0,  mid:20, label:"Poor / 不佳",      bg:"#f3f4f6", fg:"#6b7280", ring:"#e5e7eb" },
+];
+
+export function tierFromScore(s:number, tiers:readonly ScoreTier[] = SCORE_TIERS):ScoreTier{
+  return tiers.find(t=>s>=t.min) ?? tiers[tiers.length-1];
+}
+export function labelFromScore(s:number, tiers:readonly ScoreTier[] = SCORE_TIERS):string{ return tierFromScore(s, tiers).label; }
+export function scoreTheme(s:number, tiers:readonly ScoreTier[] = SCORE_TIERS):ScoreTheme{
+  const { bg, fg, ring } = tierFromScore(s, tiers);
+  return { bg, fg, ring };
+}
+
+/* 事件名（卡片/标题用） */
+export function eventLabel(e:SunEvent){ return e==="sunrise" ? "日出 / Sunrise" : "日落 / Sunset"; }
@@ -0,0 +1,175 @@
+import type { Band, EventParams, FactorKey, ScoreModel, ScoreModelType, ScoreModels, SunEvent, Weights } from "./types";
+import { FACTORS, factorDef } from "./registry";
+
+/* ---------- 默认参数（来自因子注册表，只含非可选因子） ---------- */
+const coreFactors = FACTORS.filter(f=>!f.optional);
+export const defaultWeights: Weights = Object.fromEntries(coreFactors.map(f=>[f.weightKey, f.defaultWeight])) as Weights;
+export const defaultModels: ScoreModels = Object.fromEntries(coreFactors.map(f=>[f.key, f.defaultModel])) as ScoreModels;
+
+/* 地平线低云遮挡（仅开启方向采样时计分；未设置时使用这里的默认） */
+export const defaultHorizonWeight = factorDef("horizon").defaultWeight;
+export const defaultHorizonModel = factorDef("horizon").defaultModel;
+
+/* 日出：清晨多辐射雾/低云与霾，更看重低云与能见度，风的影响较小 */
+export const defaultSunriseWeights: Weights = {
+  highCloud: 0.30,
+  midCloud: 0.25,
+  lowCloud: 0.20,
+  precip: 0.10,
+  visibility: 0.10,
+  wind: 0.05,
+};
+
+export const defaultSunriseModels: ScoreModels = {
+  ...defaultModels,
+  low:  { type:"tri",    m:0,  w:15, color:"#3b82f6", unit:"%" },   // 低云/雾：容忍度更小
+  vis:  { type:"clampUp",   threshold:8, full:20, color:"#a855f7", unit:" km" }, // 晨霾常见，阈值更高
+  wind: { type:"tri",    m:3,  w:4,  color:"#0ea5e9", unit:" m/s" },
+};
+
+export const defaultEventParams: Record<SunEvent, EventParams> = {
+  sunset:  { weights: defaultWeights,        models: defaultModels },
+  sunrise: { weights: defaultSunriseWeights, models: defaultSunriseModels },
+};
+
+/* 各因子取值的量程（单位见注册表），用于曲线绘制、拖动与区间截断 */
+export const MODEL_DOMAINS = Object.fromEntries(FACTORS.map(f=>[f.key, f.domain])) as Record<FactorKey, [number, number]>;
+
+/* ---------- Utils ---------- */
+export function clamp(x:number,a:number,b:number){ return Math.max(a, Math.min(b,x)); }
+export function tri(x:number,m:number,w:number){ const d=Math.abs(x-m); return clamp(1-d/w,0,1); }
+
+/* 根据模型求 s（0–1） */
+export function scoreByModel(x:number|undefined, model:ScoreModel): number|undefined {
+  if(x==null || Number.isNaN(x)) return undefined;
+  switch(model.type){
+    case "tri":     return tri(x, model.m, model.w);
+    case "invTri":  return 1 - tri(x, model.m, model.w);
+    case "clampUp": return clamp((x - model.threshold)/(model.full - model.threshold), 0, 1);
+    case "clampDown": return 1 - clamp((x - model.min)/(model.max - model.min), 0, 1);
+    case "gauss":   return model.sigma>0 ? Math.exp(-((x - model.m)**2)/(2*model.sigma**2)) : (x===model.m ? 1 : 0);
+    case "logistic": return 1/(1 + Math.exp(-model.k*(x - model.mid)));
+    case "trapezoid": {
+      const { a, b, c, d } = model;
+      const up   = x>=b ? 1 : (b>a ? clamp((x - a)/(b - a), 0, 1) : 0);
+      const down = x<=c ? 1 : (d>c ? clamp((d - x)/(d - c), 0, 1) : 0);
+      return Math.min(up, down);
+    }
+    case "piecewise": return piecewise(x, model.points);
+  }
+}
+
+/* 折线插值：两端以外取端点值；点序无要求 */
+export function piecewise(x:number, points:[number, number][]): number|undefined {
+  if(!points.length) return undefined;
+  const pts = [...points].sort((a,b)=>a[0]-b[0]);
+  if(x<=pts[0][0]) return clamp(pts[0][1], 0, 1);
+  for(let i=1;i<pts.length;i++){
+    const [x0,s0] = pts[i-1], [x1,s1] = pts[i];
+    if(x<=x1) return clamp(x1===x0 ? s1 : s0 + (s1 - s0)*(x - x0)/(x1 - x0), 0, 1);
+  }
+  return clamp(pts[pts.length-1][1], 0, 1);
+}
+
+/* 在量程上等距采样曲线（绘图与推导区间用） */
+export function sampleModel(model:ScoreModel, domain:[number, number], n = 101): [number, number][]{
+  return Array.from({ length: n }, (_, i)=>{
+    const x = domain[0] + (domain[1] - domain[0])*i/(n - 1);
+    return [x, scoreByModel(x, model) ?? 0] as [number, number];
+  });
+}
+
+/* 切换曲线类型：沿用当前曲线的目标区间，尽量保持形状相近 */
+export function convertModel(key: keyof ScoreModels, m: ScoreModel, type: ScoreModelType): ScoreModel {
+  if(m.type===type) return m;
+  const [lo, hi] = MODEL_DOMAINS[key];
+  const band = bandFromModel(key, m);
+  const half = Math.max((band.max - band.min)/2, (hi - lo)/20);
+  const base = { color: m.color, unit: m.unit };
+  const r = (v:number)=>+v.toFixed(hi - lo <= 2 ? 2 : 1);
+  switch(type){
+    case "tri":       return { ...base, type, m: r(band.center), w: r(half*2) };
+    case "invTri":    return { ...base, type, m: r(clamp(band.max + half*2, lo, hi)), w: r(half*2) };   // 目标区间落在 m-w 以下
+    case "clampUp":   return { ...base, type, threshold: r(band.min), full: r(Math.max(band.max, band.min + half)) };
+    case "clampDown": return { ...base, type, min: r(band.min), max: r(Math.min(hi, band.min + half*5)) };
+    case "gauss":     return { ...base, type, m: r(band.center), sigma: r(half) };
+    case "logistic": {
+      // 满分端在区间右侧则递增，否则递减
+      const rising = band.center >= (band.min + band.max)/2 && band.center > lo;
+      return { ...base, type, mid: r((band.min + band.max)/2), k: +((rising ? 4 : -4)/half).toFixed(3) };
+    }
+    case "trapezoid": return { ...base, type, a: r(clamp(band.min - half, lo, hi)), b: r(band.min), c: r(band.max), d: r(clamp(band.max + half, lo, hi)) };
+    case "piecewise": return { ...base, type, points: sampleModel(m, [lo, hi], 11).map(([x, s])=>[r(x), Math.round(s*100)/100]) };
+  }
+}
+
+/* 由 scoreModels 推导柱状图目标区间（包含单位） */
+export function bandFromModel(key: keyof ScoreModels, m: ScoreModel): Band {
+  const [lo, hi] = MODEL_DOMAINS[key];
+  switch (m.type) {
+    case "tri":
+      return {
+        min: clamp(m.m - m.w, lo, hi),
+        max: clamp(m.m + m.w, lo, hi),
+        center: m.m,
+        color: m.color,
+        unit: m.unit,
+      };
+    case "invTri":
+      return {
+        min: lo,                            // 越低越好，展示 [下限, m-w]
+        max: clamp(m.m - m.w, lo, hi),
+        center: lo,
+        color: m.color,
+        unit: m.unit,
+      };
+    case "clampUp":
+      return {
+        min: m.threshold,                   // 从 threshold 到 full 逐步满分
+        max: m.full,
+        center: m.full,
+        color: m.color,
+        unit: m.unit,
+      };
+    case "clampDown": {
+      // 越小越好：展示靠近 min 的一段目标区间（20% 范围）
+      const span = Math.max(0, (m.max - m.min) * 0.2);
+      return {
+        min: m.min,
+        max: m.min + span,
+        center: m.min,
+        color: m.color,
+        unit: m.unit,
+      };
+    }
+    case "gauss":
+      return {
+        min: clamp(m.m - m.sigma, lo, hi),    // ±σ 内 s ≥ 0.61
+        max: clamp(m.m + m.sigma, lo, hi),
+        center: m.m,
+        color: m.color,
+        unit: m.unit,
+      };
+    case "trapezoid":
+      return { min: m.b, max: m.c, center: (m.b + m.c)/2, color: m.color, unit: m.unit };
+    case "logistic":
+    case "piecewise": {
+      // 无解析区间：取采样中 s ≥ 0.8×峰值 的范围，峰值处为中心
+      const pts = sampleModel(m, [lo, hi]);
+      const peak = Math.max(...pts.map(p=>p[1]));
+      const good = pts.filter(p=>p[1] >= peak*0.8);
+      return {
+        min: good[0][0],
+        max: good[good.length-1][0],
+        center: pts.find(p=>p[1]===peak)![0],
+        color: m.color,
+        unit: m.unit,
+      };
+    }
+  }
+}
+
+/* 计算所有因子的 band（含单位）供 Bar 使用；未设置的可选因子用注册表默认曲线 */
+export function bandsFromModels(models: ScoreModels): Record<FactorKey, Band> {
+  return Object.fromEntries(FACTORS.map(f=>[f.key, bandFromModel(f.key, models[f.key] ?? f.defaultModel)])) as Record<FactorKey, Band>;
+}
@@ -0,0 +1,135 @@
+import type { Aggregation, EventParams, FactorKey, MissingPolicy, Observer, OpenMeteoResponse, ScoreModels, SunEvent, SunsetItem, TwilightPhase, Weights } from "./types";
+import { aggStatLabel, aggWindow, describeAggregation, kernelWeight, windowBounds } from "./aggregate";
+import { activeFactors, factorDef } from "./registry";
+import { labelFromScore, type ScoreTier } from "./labels";
+import { aggregateHorizon, type HorizonSeries } from "./horizon";
+import { scoreFactors } from "./factors";
+import { bestMoment, scoreTimeline } from "./timeline";
+import { polarState, twilightTimes } from "./twilight";
+import { addDaysToKey, isValidTimeZone, zonedDateKey, zonedNoon } from "./timezone";
+import { dataConfidence, expectedHours } from "./confidence";
+import { hasObserver, localSunEvent } from "./terrain";
+
+export type PredictOptions = {
+  lat: number;
+  lon: number;
+  days: number;
+  windowMinutes: number;    // 事件前后 ±分钟
+  event?: SunEvent;         // 日落（默认）或日出
+  anchorPhase?: TwilightPhase; // 窗口中心：事件本身（默认）、黄金时刻或民用/航海曙暮光
+  weights: Weights;
+  models: ScoreModels;
+  aggregation?: Aggregation; // 窗口聚合策略（核、前后窗口、各因子统计量）；省略 = 等权均值、对称窗口
+  missing?: MissingPolicy;  // 缺失因子：中性值（默认）或重新分配权重
+  now?: Date;               // 置信度中预报时效的基准（默认当前时间）
+  today?: Date;             // 起始日（默认当前时间；脚本/回放可固定），按地点时区取日期
+  startKey?: string;        // 起始日期 YYYY-MM-DD（地点时区），优先于 today；回测用
+  timeZone?: string;        // 地点 IANA 时区（预报的 timezone）；省略时用浏览器时区
+  horizon?: HorizonSeries;  // 地平线方向采样点预报（可选，提供时加入遮挡因子）
+  observer?: Observer;      // 观测者高度与地形轮廓（可选）：窗口改为围绕本地实际日出/日落
+  tiers?: readonly ScoreTier[]; // 分级标签（默认 SCORE_TIERS）
+};
+
+/* 对一份 Open-Meteo 逐小时预报逐日打分（纯函数，不依赖 React）
+   日期按地点时区划分；窗口以 event 在 anchorPhase 阶段的天文时刻为中心，
+   给出观测者时事件本身改用本地实际时刻（曙暮光阶段按太阳高度定义，不受地形影响）。
+   极昼/极夜的日子给出 polar 标记的空条目（score 0），由界面显示"无日落"卡片 */
+export function predictSunsets(data:OpenMeteoResponse, opts:PredictOptions):SunsetItem[]{
+  const { lat, lon, days, windowMinutes, weights, models, aggregation, missing } = opts;
+  const now = opts.now ?? new Date();
+  const event = opts.event ?? "sunset";
+  const anchorPhase = opts.anchorPhase ?? "event";
+  const t = data.hourly.time.map(s=>new Date(s));
+  const out:SunsetItem[]=[];
+  const tz = opts.timeZone && isValidTimeZone(opts.timeZone) ? opts.timeZone : undefined;
+  const startKey = opts.startKey ?? zonedDateKey(opts.today ?? new Date(), tz);
+  const localTime = (d:Date)=>d.toLocaleString(undefined, { timeZone: tz });
+  // 参与计分的本地因子，逐小时序列只换算一次
+  const series = activeFactors(weights).map(def=>({ def, values: def.series(data.hourly), spec: aggregation?.factors?.[def.key] }));
+  const aggText = describeAggregation(aggregation, windowMinutes, k=>factorDef(k as FactorKey).short);
+
+  for(let d=0; d<days; d++){
+    const dateKey = addDaysToKey(startKey, d);
+    const day = zonedNoon(dateKey, tz);
+    const twilight = twilightTimes(day, lat, lon, event);
+
+    const polar = Number.isNaN(twilight.event.getTime()) ? polarState(day, lat, lon) : undefined;
+    if(polar){
+      out.push({
+        event, date: day, dateKey, timeZone: tz, localISO: day.toLocaleDateString(undefined, { timeZone: tz }),
+        score: 0, label: "—", agg: {}, explain: { items: [], total: 0, formula: "" },
+        twilight, anchorPhase, polar,
+      });
+      continue;
+    }
+    // 观测者高度/地形：事件本身取本地实际时刻；地形整天遮挡等无穿越的日子仍用天文时刻
+    const local = hasObserver(opts.observer) ? localSunEvent(day, lat, lon, event, opts.observer, twilight.event) : undefined;
+    const eventTime = local?.time ?? twilight.event;
+    // 所选阶段当天不存在（高纬白夜没有航海/民用昏影）时改用事件本身
+    const anchorOk = !Number.isNaN(twilight[anchorPhase].getTime());
+    const anchor = anchorOk && anchorPhase!=="event" ? twilight[anchorPhase] : eventTime;
+    const { start: windowStart, end: windowEnd } = windowBounds(anchor, windowMinutes, aggregation);
+
+    const idx:number[]=[]; for(let i=0;i<t.length;i++){ if(t[i]>=windowStart && t[i]<=windowEnd) idx.push(i); }
+    if(!idx.length) continue;
+    const kw = idx.map(i=>kernelWeight(t[i].getTime(), anchor.getTime(), windowStart.getTime(), windowEnd.getTime(), aggregation?.kernel));
+
+    // 聚合统计（按注册表逐因子，核加权；value 为所选统计量）
+    const agg = Object.fromEntries(series.map(({ def, values, spec })=>
+      [def.key, aggWindow(values, idx, kw, { pct: def.pct, spec })]));
+
+    // 窗口聚合值 → 分数；地平线低云遮挡（开启时）
+    const horizon = opts.horizon ? aggregateHorizon(opts.horizon, windowStart, windowEnd) : undefined;
+    const scored = scoreFactors(
+      Object.fromEntries(Object.entries(agg).map(([k, a])=>[k, a.value])), weights, models, horizon, missing);
+    const { score, formula } = scored;
+    const items = scored.items.map(it=>{
+      const spec = series.find(s=>s.def.key===it.key)?.spec;
+      return spec && spec.stat!=="mean" ? { ...it, stat: aggStatLabel(spec) } : it;
+    });
+
+    const timeline = scoreTimeline(data.hourly, windowStart, windowEnd, anchor, weights, models, horizon, undefined, missing);
+
+    // 置信度：按原始权重（重新分配之前）衡量各因子的覆盖
+    const confidence = dataConfidence({
+      counts: Object.fromEntries(series.map(({ def, values })=>[def.key, idx.filter(i=>typeof values[i]==="number").length])),
+      weights: Object.fromEntries([
+        ...series.map(({ def })=>[def.key, weights[def.weightKey] ?? def.defaultWeight]),
+        ...(horizon ? [["horizon", weights[factorDef("horizon").weightKey] ?? factorDef("horizon").defaultWeight]] : []),
+      ]),
+      expected: expectedHours(windowStart, windowEnd),
+      horizon, event: anchor, now,
+    });
+
+    out.push({
+      event, date: day, dateKey, timeZone: tz, localISO: localTime(twilight.event), score, label: labelFromScore(score, opts.tiers),
+      agg,
+      explain: { items, total: score, formula, aggregation: aggText },
+      horizon, timeline, best: bestMoment(timeline, anchor), twilight,
+      confidence,
+      ...(local ? { local } : {}),
+      anchorPhase: anchorOk ? anchorPhase : "event",
+      ...(anchorOk ? {} : { requestedAnchor: anchorPhase }),
+    });
+  }
+  return out;
+}
+
+/* 多事件共用的选项；地平线采样按事件分别提供（日出朝东、日落朝西） */
+export type EventsOptions = Omit<PredictOptions,"event"|"weights"|"models"|"horizon"> & {
+  horizon?: Partial<Record<SunEvent, HorizonSeries>>;
+};
+
+/* 多个事件一起预测，并按日期合并（同一天日出在前） */
+export function predictEvents(
+  data:OpenMeteoResponse,
+  opts:EventsOptions,
+  params:Partial<Record<SunEvent,EventParams>>,
+):SunsetItem[]{
+  const order:SunEvent[] = ["sunrise","sunset"];
+  const today = opts.today ?? new Date();
+  const out = order
+    .filter(ev=>params[ev])
+    .flatMap(ev=>predictSunsets(data, { ...opts, today, event:ev, ...params[ev]!, horizon:opts.horizon?.[ev] }));
+  return out.sort((a,b)=>a.dateKey.localeCompare(b.dateKey));
+}
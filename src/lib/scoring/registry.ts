@@ -0,0 +1,129 @@
+import type { FactorKey, ModelUnit, OpenMeteoHourly, ScoreModel, Weights } from "./types";
+
+/* ---------- 因子注册表 ----------
+   每个因子声明：数据来源与变量、单位与量程、默认曲线与权重、无数据时的中性 s。
+   拉取的变量、窗口统计、打分明细、柱状图与指标卡都按这里的顺序生成。
+   optional 因子默认不参与：对应的权重键出现在 Weights 里才计分。
+   horizon 由沿方位的采样点单独计算，不来自本地逐小时序列。 */
+export type FactorSource = "forecast" | "airQuality" | "horizon";
+type Hourly = OpenMeteoHourly;
+
+export type FactorDef = {
+  key: FactorKey;
+  weightKey: keyof Weights;
+  label: string;            // 明细表 / 柱状图
+  short: string;            // 面板上的简称
+  unit: ModelUnit;
+  digits: number;           // 显示精度（小数位）
+  domain: [number, number];
+  source: FactorSource;
+  variables: (keyof Hourly)[];
+  series: (h:Hourly)=>(number|undefined)[];   // 逐小时取值，已换算为 unit
+  pct?: boolean;            // 百分比：兼容 0–1 / 0–100 两种来源
+  defaultModel: ScoreModel;
+  defaultWeight: number;
+  neutral: number;          // 无数据时的 s
+  optional?: boolean;
+  hint?: string;
+};
+
+const raw = (k:keyof Hourly)=>(h:Hourly)=>(h[k] as (number|undefined)[] | undefined) ?? [];
+
+// 同一时刻两列之差（任一缺失则缺失）
+const diff = (a:keyof Hourly, b:keyof Hourly)=>(h:Hourly)=>{
+  const x = raw(a)(h), y = raw(b)(h);
+  return h.time.map((_, i)=>typeof x[i]==="number" && typeof y[i]==="number" ? x[i]! - y[i]! : undefined);
+};
+
+// 相对 hours 小时前的变化；找不到恰好对应的时刻则缺失（MET 稀疏时段）
+const change = (k:keyof Hourly, hours:number)=>(h:Hourly)=>{
+  const v = raw(k)(h);
+  const times = h.time.map(s=>new Date(s).getTime());
+  const at = new Map(times.map((t, i)=>[t, i]));
+  return times.map((t, i)=>{
+    const j = at.get(t - hours*3600*1000);
+    return j!=null && typeof v[i]==="number" && typeof v[j]==="number" ? v[i]! - v[j]! : undefined;
+  });
+};
+
+export const FACTORS: FactorDef[] = [
+  {
+    key:"high", weightKey:"highCloud", label:"High cloud / 高云", short:"高云", unit:"%", digits:0, domain:[0,100],
+    source:"forecast", variables:["cloudcover_high"], series:raw("cloudcover_high"), pct:true,
+    defaultModel:{ type:"tri", m:50, w:20, color:"#ef4444", unit:"%" }, defaultWeight:0.35, neutral:0.5,   // 理想 50% ±20
+  },
+  {
+    key:"mid", weightKey:"midCloud", label:"Mid cloud / 中云", short:"中云", unit:"%", digits:0, domain:[0,100],
+    source:"forecast", variables:["cloudcover_mid"], series:raw("cloudcover_mid"), pct:true,
+    defaultModel:{ type:"tri", m:40, w:20, color:"#f59e0b", unit:"%" }, defaultWeight:0.25, neutral:0.5,   // 理想 40% ±20
+  },
+  {
+    key:"low", weightKey:"lowCloud", label:"Low cloud / 低云", short:"低云", unit:"%", digits:0, domain:[0,100],
+    source:"forecast", variables:["cloudcover_low"], series:raw("cloudcover_low"), pct:true,
+    defaultModel:{ type:"tri", m:0, w:20, color:"#3b82f6", unit:"%" }, defaultWeight:0.15, neutral:0.5,    // 越低越好
+  },
+  {
+    key:"pre", weightKey:"precip", label:"Precip prob / 降水概率", short:"降水", unit:"%", digits:0, domain:[0,100],
+    source:"forecast", variables:["precipitation_probability"], series:raw("precipitation_probability"), pct:true,
+    defaultModel:{ type:"clampDown", min:0, max:100, color:"#22c55e", unit:"%" }, defaultWeight:0.10, neutral:0.6,
+  },
+  {
+    key:"vis", weightKey:"visibility", label:"Visibility / 能见度", short:"能见度", unit:" km", digits:0, domain:[0,50],
+    source:"forecast", variables:["visibility"], series:h=>raw("visibility")(h).map(m=>m==null ? m : m/1000),
+    defaultModel:{ type:"clampUp", threshold:5, full:15, color:"#a855f7", unit:" km" }, defaultWeight:0.07, neutral:0.6,  // >5km 线性增至 15km 满分
+  },
+  {
+    key:"wind", weightKey:"wind", label:"Wind / 风速", short:"风速", unit:" m/s", digits:0, domain:[0,20],
+    source:"forecast", variables:["wind_speed_10m"], series:raw("wind_speed_10m"),
+    defaultModel:{ type:"tri", m:4, w:4, color:"#0ea5e9", unit:" m/s" }, defaultWeight:0.08, neutral:0.6,
+  },
+  {
+    key:"horizon", weightKey:"horizon", label:"Horizon low cloud / 地平线低云", short:"地平线遮挡", unit:"%", digits:0, domain:[0,100],
+    source:"horizon", variables:["cloudcover_low"], series:()=>[],
+    defaultModel:{ type:"clampDown", min:0, max:70, color:"#64748b", unit:"%" }, defaultWeight:0.15, neutral:0.5,  // 遮挡越少越好
+    optional:true, hint:"沿太阳方位采样，需开启地平线采样",
+  },
+  {
+    key:"rh", weightKey:"humidity", label:"Humidity / 相对湿度", short:"湿度", unit:"%", digits:0, domain:[0,100],
+    source:"forecast", variables:["relative_humidity_2m"], series:raw("relative_humidity_2m"), pct:true,
+    defaultModel:{ type:"clampDown", min:50, max:100, color:"#14b8a6", unit:"%" }, defaultWeight:0.05, neutral:0.5,
+    optional:true, hint:"湿度高易起霾、色彩发灰",
+  },
+  {
+    key:"dew", weightKey:"dewSpread", label:"Dew-point spread / 温度露点差", short:"露点差", unit:" °C", digits:1, domain:[0,20],
+    source:"forecast", variables:["temperature_2m","dew_point_2m"], series:diff("temperature_2m","dew_point_2m"),
+    defaultModel:{ type:"clampUp", threshold:1, full:8, color:"#06b6d4", unit:" °C" }, defaultWeight:0.05, neutral:0.5,
+    optional:true, hint:"差值小于 2 °C 时易起雾",
+  },
+  {
+    key:"pres", weightKey:"pressureTrend", label:"Pressure trend (3h) / 气压变化", short:"气压趋势", unit:" hPa", digits:1, domain:[-6,6],
+    source:"forecast", variables:["pressure_msl"], series:change("pressure_msl", 3),
+    defaultModel:{ type:"gauss", m:0.5, sigma:2.5, color:"#6366f1", unit:" hPa" }, defaultWeight:0.05, neutral:0.5,
+    optional:true, hint:"微升（锋面过后转晴）最佳，骤降多为系统来临",
+  },
+  {
+    key:"aod", weightKey:"aerosol", label:"Aerosol (AOD) / 气溶胶", short:"气溶胶", unit:"", digits:2, domain:[0,1],
+    source:"airQuality", variables:["aerosol_optical_depth"], series:raw("aerosol_optical_depth"),
+    defaultModel:{ type:"gauss", m:0.15, sigma:0.2, color:"#d97706", unit:"" }, defaultWeight:0.08, neutral:0.5,
+    optional:true, hint:"少量气溶胶增色，过多则发暗；来自 Open-Meteo 空气质量接口",
+  },
+];
+
+const BY_KEY = new Map(FACTORS.map(f=>[f.key, f]));
+export function factorDef(key:FactorKey):FactorDef{ return BY_KEY.get(key)!; }
+
+/* 该组权重下参与计分的因子（horizon 另需有采样数据） */
+export function activeFactors(w:Weights, opts:{ horizon?: boolean } = {}):FactorDef[]{
+  return FACTORS.filter(f=>
+    f.source==="horizon" ? !!opts.horizon : !f.optional || w[f.weightKey]!=null);
+}
+
+/* 某数据来源需要的逐小时变量（去重） */
+export function sourceVariables(source:FactorSource):(keyof Hourly)[]{
+  return [...new Set(FACTORS.filter(f=>f.source===source).flatMap(f=>f.variables))];
+}
+
+/* 按因子的显示精度格式化 */
+export function formatFactor(def:FactorDef, v?:number){
+  return v==null ? "—" : `${v.toFixed(def.digits)}${def.unit}`;
+}
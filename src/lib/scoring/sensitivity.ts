@@ -0,0 +1,55 @@
+import type { EventParams, FactorKey, SunsetItem } from "./types";
+import { itemValues, scoreFactors, type FactorScore, type FactorValues } from "./factors";
+import { quantile } from "./ensemble";
+
+/* ---------- 敏感度分析 ----------
+   固定其他因子的窗口均值，让某个因子在窗口内的 min–max 间变化，看总分能摆动多少（龙卷风图）；
+   what-if 则直接替换若干因子的取值，用同一套 scoreFactors / scoreByModel 重新打分。
+   多模型条目：每个成员各自替换后重算，分数取中位数（与卡片上的集合分数一致），明细沿用代表成员。 */
+
+export function whatIfScore(item: SunsetItem, overrides: FactorValues, params: EventParams): FactorScore {
+  const horizon = item.horizon && overrides.horizon!=null ? { ...item.horizon, blockage: overrides.horizon } : item.horizon;
+  const score = (values: FactorValues)=>scoreFactors({ ...values, ...overrides }, params.weights, params.models, horizon, params.missing);
+  const rep = score(itemValues(item));
+  const members = item.ensemble?.members;
+  if(!members?.length || !members.every(m=>m.values)) return rep;
+  const sorted = members.map(m=>score(m.values!).score).sort((a,b)=>a-b);
+  return { ...rep, score: Math.round(quantile(sorted, 0.5)) };
+}
+
+export type FactorSensitivity = {
+  key: FactorKey;
+  label: string;
+  value?: number;
+  range?: [number, number];        // 窗口内 min–max；无数据或不变时省略
+  low: { x: number; score: number };   // 区间内得分最低处
+  high: { x: number; score: number };  // 区间内得分最高处
+  swing: number;                   // high − low
+};
+
+// 窗口内取值范围；horizon 用各采样点的低云
+function rangeOf(item: SunsetItem, key: FactorKey): [number, number] | undefined {
+  if(key==="horizon"){
+    const lows = (item.horizon?.points ?? []).map(p=>p.lowPct).filter((x): x is number => x!=null);
+    return lows.length ? [Math.min(...lows), Math.max(...lows)] : undefined;
+  }
+  const a = item.agg[key];
+  return a?.min!=null && a?.max!=null ? [a.min, a.max] : undefined;
+}
+
+/* 各因子在窗口 min–max 内的分数摆幅，按摆幅从大到小；曲线未必单调，区间内等距采样取最值 */
+export function sensitivity(item: SunsetItem, params: EventParams, samples = 21): FactorSensitivity[] {
+  const base = whatIfScore(item, {}, params).score;
+  return item.explain.items.map(row=>{
+    const key = row.key as FactorKey;
+    const range = rangeOf(item, key);
+    const flat = { x: row.value ?? NaN, score: base };
+    if(!range || range[1]<=range[0]) return { key, label: row.label, value: row.value, low: flat, high: flat, swing: 0 };
+    const xs = Array.from({ length: samples }, (_, i)=>range[0] + (range[1]-range[0])*i/(samples-1));
+    if(row.value!=null) xs.push(row.value);
+    const pts = xs.map(x=>({ x, score: whatIfScore(item, { [key]: x }, params).score }));
+    const low = pts.reduce((m,p)=>p.score<m.score ? p : m);
+    const high = pts.reduce((m,p)=>p.score>m.score ? p : m);
+    return { key, label: row.label, value: row.value, range, low, high, swing: high.score - low.score };
+  }).sort((a,b)=>b.swing - a.swing);
+}
@@ -0,0 +1,133 @@
+import * as SunCalc from "suncalc";
+import type { LocalSunEvent, Observer, SunEvent, SunsetItem, TerrainPoint } from "./types";
+
+/* ---------- 观测者高度与地形遮挡 ----------
+   SunCalc 的日出/日落按海平面上的平坦地平计算（太阳中心 -0.833°）。实际看到的时刻取决于视地平：
+   - 站得高：地平俯角 ≈ 1.76′·√h（h 为米，已含地面折射），太阳更晚落下、更早升起；
+   - 山谷：日落方向（日出为东面）的山脊抬高了地平，太阳提前落到山后。
+   视地平 = max(−俯角, 地形轮廓在该方位的仰角)。太阳方位随时间变化，
+   所以从正午（日出为正午前 12 小时）起逐步比较太阳高度与其方位上的视地平，
+   日落取最后一次、日出取第一次穿越，再二分细化到秒级。 */
+export const OBSERVER_ALTITUDE_RANGE: [number, number] = [-500, 9000];
+export const TERRAIN_ELEVATION_RANGE: [number, number] = [-5, 60];
+export const TERRAIN_MAX_POINTS = 360;
+export const SUN_SEMIDIAMETER = 0.266;   // 度
+
+const DEG = 180/Math.PI;
+const HOUR_MS = 3600*1000;
+const SCAN_STEP_MS = 2*60*1000;          // 太阳每 2 分钟约移动 0.5°，窄的山口也不会跳过
+const BISECT_STEPS = 12;
+
+/* 地平俯角（度）：海拔 h 米处看到的海平面地平低于天文地平的角度 */
+export function horizonDip(altitude = 0){
+  return altitude>0 ? 1.76*Math.sqrt(altitude)/60 : 0;
+}
+
+/* 大气折射（Bennett 公式，视高度 h 度 → 度）；低于天文地平时按 0° 处取值 */
+export function refraction(h:number){
+  const a = Math.max(0, h);
+  return 1/Math.tan((a + 7.31/(a + 4.4))/DEG)/60;
+}
+
+const wrap = (az:number)=>((az % 360) + 360) % 360;
+
+/* 按方位排序（0–360），插值前调用一次 */
+export function sortProfile(profile:TerrainPoint[]):TerrainPoint[]{
+  return profile.map(([a, e])=>[wrap(a), e] as TerrainPoint).sort((p, q)=>p[0]-q[0]);
+}
+
+/* 已排序轮廓在方位 az 的仰角：相邻两点间线性插值，首尾跨 0° 相接；空轮廓返回 undefined */
+export function profileAt(sorted:TerrainPoint[], az:number){
+  if(!sorted.length) return undefined;
+  if(sorted.length===1) return sorted[0][1];
+  const x = wrap(az);
+  const i = sorted.findIndex(p=>p[0]>x);
+  const [a0, e0] = i<=0 ? sorted[sorted.length-1] : sorted[i-1];
+  const [a1, e1] = i<=0 ? sorted[0] : sorted[i];
+  const span = wrap(a1 - a0) || 360;
+  return e0 + (e1 - e0)*wrap(x - a0)/span;
+}
+
+/* 某方位的视地平高度（度） */
+export function apparentHorizon(observer:Observer, az:number, sorted = sortProfile(observer.profile ?? [])){
+  const dip = -horizonDip(observer.altitude);
+  const terrain = profileAt(sorted, az);
+  return terrain==null ? dip : Math.max(dip, terrain);
+}
+
+/* 是否需要修正：有正的高度或非空轮廓 */
+export function hasObserver(o?:Observer): o is Observer {
+  return !!o && ((o.altitude ?? 0)>0 || !!o.profile?.length);
+}
+
+/* 本地实际日出/日落；astro 为 SunCalc 的天文时刻（用于偏移与无穿越时的方位） */
+export function localSunEvent(day:Date, lat:number, lon:number, event:SunEvent, observer:Observer, astro:Date):LocalSunEvent{
+  const sorted = sortProfile(observer.profile ?? []);
+  const at = (t:number)=>{
+    const p = SunCalc.getPosition(new Date(t), lat, lon);
+    const az = wrap(p.azimuth*DEG + 180);   // SunCalc 以正南为 0、向西为正
+    const horizon = apparentHorizon(observer, az, sorted);
+    // 太阳上缘触及视地平时，太阳中心的真高度 = 视地平 − 折射 − 视半径
+    return { az, horizon, up: p.altitude*DEG > horizon - refraction(horizon) - SUN_SEMIDIAMETER };
+  };
+  const noon = SunCalc.getTimes(day, lat, lon).solarNoon.getTime();
+  const [from, to] = event==="sunset" ? [noon, noon + 12*HOUR_MS] : [noon - 12*HOUR_MS, noon];
+  const rises = event==="sunrise";
+
+  let bracket: [number, number] | undefined;
+  let everUp = false;
+  let prev = at(from).up;
+  for(let t=from + SCAN_STEP_MS; t<=to; t+=SCAN_STEP_MS){
+    const up = at(t).up;
+    everUp ||= up || prev;
+    if(rises ? !prev && up : prev && !up){
+      bracket = [t - SCAN_STEP_MS, t];
+      if(rises) break;
+    }
+    prev = up;
+  }
+
+  if(!bracket){
+    const a = at(astro.getTime());
+    return { azimuth: a.az, horizon: a.horizon, noCrossing: everUp ? "clear" : "hidden" };
+  }
+  let [lo, hi] = bracket;
+  for(let k=0; k<BISECT_STEPS; k++){
+    const mid = (lo + hi)/2;
+    // 日落：lo 侧在地平上；日出：hi 侧在地平上
+    if(at(mid).up !== rises) lo = mid; else hi = mid;
+  }
+  const time = new Date(Math.round((lo + hi)/2));
+  const a = at(time.getTime());
+  return { time, azimuth: a.az, horizon: a.horizon, shiftMinutes: (time.getTime() - astro.getTime())/60000 };
+}
+
+/* 窗口实际围绕的时刻：锚点为事件本身且有本地实际时刻时取后者 */
+export function anchorTime(item:Pick<SunsetItem, "anchorPhase" | "twilight" | "local">){
+  return item.anchorPhase==="event" && item.local?.time ? item.local.time : item.twilight[item.anchorPhase];
+}
+
+/* 地形轮廓 CSV：每行「方位,仰角」（逗号、分号、制表符或空格分隔），# 之后为注释；
+   第一行含非数字时视为表头。返回按方位排序的轮廓与逐行错误，不抛错 */
+export function parseHorizonProfile(text:string):{ profile: TerrainPoint[]; errors: string[] }{
+  const profile: TerrainPoint[] = [];
+  const errors: string[] = [];
+  const [elLo, elHi] = TERRAIN_ELEVATION_RANGE;
+  let first = true;
+  text.split(/\r?\n/).forEach((raw, i)=>{
+    const line = raw.replace(/#.*/, "").trim();
+    if(!line) return;
+    const cells = line.split(/[,;\t ]+/);
+    const [az, el] = cells.map(Number);
+    const header = first && cells.some(c=>Number.isNaN(Number(c)));
+    first = false;
+    if(header) return;
+    const at = `第 ${i+1} 行 / line ${i+1}`;
+    if(cells.length<2 || !Number.isFinite(az) || !Number.isFinite(el)) errors.push(`${at}: 应为「方位,仰角」/ expected "azimuth,elevation"`);
+    else if(az<0 || az>360) errors.push(`${at}: 方位应在 0–360° / azimuth must be within 0–360°`);
+    else if(el<elLo || el>elHi) errors.push(`${at}: 仰角应在 ${elLo}–${elHi}° / elevation must be within ${elLo}–${elHi}°`);
+    else profile.push([az, el]);
+  });
+  if(profile.length>TERRAIN_MAX_POINTS) errors.push(`最多 ${TERRAIN_MAX_POINTS} 个点 / at most ${TERRAIN_MAX_POINTS} points`);
+  return { profile: sortProfile(profile), errors };
+}
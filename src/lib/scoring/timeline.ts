@@ -0,0 +1,57 @@
+import type { HorizonAgg, MissingPolicy, OpenMeteoHourly, ScoreModels, TimelinePoint, Weights } from "./types";
+import { activeFactors } from "./registry";
+import { scoreFactors, type FactorValues } from "./factors";
+
+/* ---------- 窗口内时间轴 ----------
+   各因子的逐小时序列线性插值到 10 分钟步长，逐时刻打分，找出最佳拍摄时刻。
+   地平线遮挡按整个窗口汇总，各时刻共用。 */
+export const TIMELINE_STEP_MIN = 10;
+
+/* 在 at 处线性插值；一侧缺值时取另一侧，超出序列范围返回 undefined */
+export function interpolateAt(times:number[], values:(number|undefined)[]|undefined, at:number):number|undefined{
+  if(!values || !times.length || at<times[0] || at>times[times.length-1]) return undefined;
+  let i = 0; while(i<times.length-1 && times[i+1]<at) i++;
+  const t0 = times[i], t1 = times[i+1] ?? t0;
+  const v0 = values[i], v1 = values[i+1];
+  if(typeof v0!=="number") return typeof v1==="number" && at>t0 ? v1 : undefined;
+  if(typeof v1!=="number" || t1===t0) return v0;
+  return v0 + (v1 - v0) * (at - t0)/(t1 - t0);
+}
+
+// 与 normalizePctArray 相同的判断：整列都 ≤1 时视为 0–1 比例
+function pctScale(values?:(number|undefined)[]){
+  const nums = (values ?? []).filter((v):v is number => typeof v==="number");
+  return nums.length && Math.max(...nums.map(Math.abs))<=1.01 ? 100 : 1;
+}
+
+export function scoreTimeline(
+  hourly:OpenMeteoHourly, start:Date, end:Date, anchor:Date,
+  weights:Weights, models:ScoreModels, horizon?:HorizonAgg, stepMinutes = TIMELINE_STEP_MIN, missing?:MissingPolicy,
+):TimelinePoint[]{
+  const times = hourly.time.map(s=>new Date(s).getTime());
+  const factors = activeFactors(weights).map(def=>{
+    const values = def.series(hourly);
+    const k = def.pct ? pctScale(values) : 1;
+    return { key: def.key, value: (t:number)=>{ const v = interpolateAt(times, values, t); return v==null ? undefined : v*k; } };
+  });
+
+  // 以事件时刻为基准对齐步长，保证时间轴经过事件本身
+  const step = stepMinutes*60*1000;
+  const first = anchor.getTime() - Math.floor((anchor.getTime() - start.getTime())/step)*step;
+  const out:TimelinePoint[] = [];
+  for(let t=first; t<=end.getTime(); t+=step){
+    const v:FactorValues = Object.fromEntries(factors.map(f=>[f.key, f.value(t)]));
+    out.push({ time: new Date(t), ...scoreFactors(v, weights, models, horizon, missing) });
+  }
+  return out;
+}
+
+/* 最佳时刻：分数最高；并列时取离事件时刻最近的 */
+export function bestMoment(timeline:TimelinePoint[], anchor:Date):TimelinePoint|undefined{
+  let best:TimelinePoint|undefined;
+  const dist = (p:TimelinePoint)=>Math.abs(p.time.getTime() - anchor.getTime());
+  for(const p of timeline){
+    if(!best || p.score>best.score || (p.score===best.score && dist(p)<dist(best))) best = p;
+  }
+  return best;
+}
@@ -0,0 +1,83 @@
+/* ---------- 地点时区 ----------
+   逐日窗口按预报地点的 IANA 时区划分日期，时刻也按该时区显示，
+   与浏览器所在时区无关（在洛桑查看东京也是东京的日期与钟点）。
+   timeZone 省略时退回浏览器本地时区。只依赖 Intl，不引入时区库。 */
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+// 每个时区缓存一个格式化器；无法识别的时区名返回 null（退回本地）
+function formatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone ?? "";
+  if(!formatters.has(key)){
+    try{
+      formatters.set(key, new Intl.DateTimeFormat("en-US", {
+        timeZone, hourCycle: "h23",
+        year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+      }));
+    }catch{ formatters.set(key, null); }
+  }
+  return formatters.get(key) ?? formatter(undefined);
+}
+
+/* 能否识别的时区名 */
+export function isValidTimeZone(timeZone: string){
+  try{ new Intl.DateTimeFormat("en-US", { timeZone }); return true; }catch{ return false; }
+}
+
+// 某一时刻在该时区的墙上时间（按 UTC 字段表示）
+function wallClock(t: number, timeZone?: string){
+  const parts = Object.fromEntries(formatter(timeZone).formatToParts(new Date(t)).map(p=>[p.type, p.value]));
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour % 24, +parts.minute, +parts.second);
+}
+
+/* 该时刻相对 UTC 的偏移（分钟，东正西负） */
+export function zoneOffsetMinutes(t: Date | number, timeZone?: string){
+  const ms = typeof t==="number" ? t : t.getTime();
+  const whole = Math.floor(ms/1000)*1000;
+  return Math.round((wallClock(whole, timeZone) - whole)/60000);
+}
+
+/* 时间串是否自带时区（Z 或 ±hh:mm） */
+export function hasZone(s: string){ return /[zZ]|[+-]\d\d:?\d\d$/.test(s); }
+
+/* 无时区的墙上时间（YYYY-MM-DDTHH:mm[:ss]，如 Open-Meteo timezone=auto 的返回）→ 绝对时刻；
+   夏令时跳过的那一小时按切换后的偏移计 */
+export function zonedToUtc(wall: string, timeZone?: string): Date {
+  const [date, time = "00:00"] = wall.split("T");
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm, ss = 0] = time.split(":").map(Number);
+  const asUtc = Date.UTC(y, m-1, d, hh, mm, ss);
+  let t = asUtc - zoneOffsetMinutes(asUtc, timeZone)*60000;
+  t = asUtc - zoneOffsetMinutes(t, timeZone)*60000;   // 跨偏移变化时再校正一次
+  return new Date(t);
+}
+
+/* 该时刻在地点时区的日期 YYYY-MM-DD */
+export function zonedDateKey(d: Date, timeZone?: string){
+  return new Date(wallClock(d.getTime(), timeZone)).toISOString().slice(0, 10);
+}
+
+/* YYYY-MM-DD 加减天数 */
+export function addDaysToKey(key: string, days: number){
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, m-1, d + days)).toISOString().slice(0, 10);
+}
+
+/* 同一地点钟点的 days 个日历日之后（跨夏令时切换时绝对间隔不是 24 小时的整数倍） */
+export function addZonedDays(d: Date, days: number, timeZone?: string){
+  const wall = new Date(d.getTime() + zoneOffsetMinutes(d, timeZone)*60000).toISOString();
+  return zonedToUtc(`${addDaysToKey(wall.slice(0, 10), days)}T${wall.slice(11, 19)}`, timeZone);
+}
+
+/* 地点时区该日正午（SunCalc 取最近的太阳上中天，用正午可稳定落在当天） */
+export function zonedNoon(key: string, timeZone?: string){ return zonedToUtc(`${key}T12:00`, timeZone); }
+
+/* 浏览器所在时区；数据源不提供时区又查不到时的退路 */
+export function browserTimeZone(){
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/* 按日期键显示日期（与浏览器时区无关；日期键本身已是地点时区的日期） */
+export function formatDateKey(key: string, opts: Intl.DateTimeFormatOptions = { weekday: "short", month: "short", day: "numeric" }){
+  return new Date(`${key}T12:00:00Z`).toLocaleDateString(undefined, { ...opts, timeZone: "UTC" });
+}
@@ -0,0 +1,54 @@
+import * as SunCalc from "suncalc";
+import type { PolarState, SunEvent, TwilightPhase, TwilightTimes } from "./types";
+import { eventLabel } from "./labels";
+
+/* ---------- 黄金时刻 / 蓝调 / 民用与航海曙暮光 ----------
+   日落：黄金时刻开始（太阳高 6°）→ 日落 → 民用昏影终（-6°，蓝调结束）→ 航海昏影终（-12°）
+   日出按时间倒序对称：航海晨光始 → 民用晨光始 → 日出 → 黄金时刻结束。
+   极昼/极夜时 SunCalc 返回 Invalid Date，由调用方判断。 */
+export const TWILIGHT_PHASES: TwilightPhase[] = ["golden", "event", "civil", "nautical"];
+
+export function twilightTimes(day:Date, lat:number, lon:number, event:SunEvent):TwilightTimes{
+  const t = SunCalc.getTimes(day, lat, lon);
+  return event==="sunrise"
+    ? { golden: t.goldenHourEnd, event: t.sunrise, civil: t.dawn, nautical: t.nauticalDawn }
+    : { golden: t.goldenHour,    event: t.sunset,  civil: t.dusk, nautical: t.nauticalDusk };
+}
+
+/* 当天没有日出/日落时判断是极昼还是极夜：上中天时太阳在地平线（-0.833°）以上即极昼 */
+export function polarState(day:Date, lat:number, lon:number):PolarState|undefined{
+  const t = SunCalc.getTimes(day, lat, lon);
+  if(!Number.isNaN(t.sunset.getTime()) && !Number.isNaN(t.sunrise.getTime())) return undefined;
+  const alt = SunCalc.getPosition(t.solarNoon, lat, lon).altitude * 180/Math.PI;
+  return alt > -0.833 ? "midnightSun" : "polarNight";
+}
+
+export function polarLabel(state:PolarState, event:SunEvent){
+  const none = event==="sunset" ? "无日落 / No sunset" : "无日出 / No sunrise";
+  return state==="midnightSun"
+    ? `极昼：太阳整天不落，${none}（Midnight sun）`
+    : `极夜：太阳整天不升，${none}（Polar night）`;
+}
+
+export function phaseLabel(phase:TwilightPhase, event:SunEvent){
+  const dusk = event==="sunset";
+  switch(phase){
+    case "golden":   return dusk ? "黄金时刻开始 / Golden hour" : "黄金时刻结束 / Golden hour end";
+    case "event":    return eventLabel(event);
+    case "civil":    return dusk ? "民用昏影终 / Civil dusk" : "民用晨光始 / Civil dawn";
+    case "nautical": return dusk ? "航海昏影终 / Nautical dusk" : "航海晨光始 / Nautical dawn";
+  }
+}
+
+/* 规划条上的时段：黄金时刻、蓝调（民用曙暮光）、航海曙暮光，按时间先后排列 */
+export type TwilightSegment = { key: "golden" | "blue" | "nautical"; label: string; start: Date; end: Date; color: string };
+
+export function twilightSegments(tw:TwilightTimes, event:SunEvent):TwilightSegment[]{
+  const golden = { key:"golden" as const,   label:"Golden hour / 黄金时刻",    color:"#fbbf24" };
+  const blue   = { key:"blue" as const,     label:"Blue hour / 蓝调",          color:"#60a5fa" };
+  const naut   = { key:"nautical" as const, label:"Nautical / 航海曙暮光",     color:"#1e3a8a" };
+  const segs = event==="sunset"
+    ? [{ ...golden, start:tw.golden, end:tw.event }, { ...blue, start:tw.event, end:tw.civil }, { ...naut, start:tw.civil, end:tw.nautical }]
+    : [{ ...naut, start:tw.nautical, end:tw.civil }, { ...blue, start:tw.civil, end:tw.event }, { ...golden, start:tw.event, end:tw.golden }];
+  return segs.filter(s=>!Number.isNaN(s.start.getTime()) && !Number.isNaN(s.end.getTime()));
+}
@@ -0,0 +1,169 @@
+/* ---------- Open-Meteo ---------- */
+export interface OpenMeteoHourly {
+  time: string[];
+  cloudcover?: number[];
+  cloudcover_low?: number[];
+  cloudcover_mid?: number[];
+  cloudcover_high?: number[];
+  precipitation_probability?: number[];
+  visibility?: number[];       // meters
+  wind_speed_10m?: number[];   // m/s
+  relative_humidity_2m?: number[];  // %
+  temperature_2m?: number[];   // °C
+  dew_point_2m?: number[];     // °C
+  pressure_msl?: number[];     // hPa
+  aerosol_optical_depth?: number[]; // 550 nm，来自空气质量接口
+}
+export interface OpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  hourly: OpenMeteoHourly;
+}
+
+/* ---------- 结果 ---------- */
+export type SunEvent = "sunset" | "sunrise";
+export type PredictMode = SunEvent | "both";
+export type StatAgg = { avg?: number; min?: number; max?: number; value?: number };  // avg 为核加权均值；value 为按聚合策略计分所用的值
+export type ExplainRow = { key: string; label: string; value?: number; s: number; w: number; contribution: number; note?: string; stat?: string };  // stat：非均值聚合时的统计量（如 P90）
+export type SunsetItem = {
+  event: SunEvent;
+  date: Date;                 // 地点时区该日正午
+  dateKey: string;            // 地点时区的日期 YYYY-MM-DD
+  localISO: string;           // 事件时刻（地点时区）；极昼/极夜时为日期
+  timeZone?: string;          // 地点时区（IANA）
+  score: number;
+  label: string;
+  agg: Partial<Record<FactorKey, StatAgg>>;  // 参与计分的各因子窗口统计（单位见因子注册表）
+  explain: { items: ExplainRow[]; total: number; formula: string; aggregation?: string };  // aggregation：窗口聚合方式说明
+  ensemble?: EnsembleStats;   // 多模型时：各模型分数与离散度
+  horizon?: HorizonAgg;       // 地平线方向采样（开启时）
+  timeline?: TimelinePoint[]; // 窗口内逐 10 分钟分数
+  best?: TimelinePoint;       // 时间轴上的最佳时刻
+  twilight: TwilightTimes;    // 黄金时刻/曙暮光各时刻
+  anchorPhase: TwilightPhase; // ±窗口所围绕的时刻
+  requestedAnchor?: TwilightPhase; // 所选锚点当天不存在（如白夜无航海昏影）而改用事件时刻时记录原选择
+  polar?: PolarState;         // 当天没有日出/日落：不打分（score 0，explain 为空）
+  local?: LocalSunEvent;      // 设置了观测者高度/地形轮廓时：本地实际日出/日落（窗口锚定于此）
+  confidence?: Confidence;    // 数据质量：窗口覆盖、预报时效与缺失因子
+};
+
+/* 数据置信度（0–100）= 覆盖率 × 时效系数 × 0.9^缺失因子数 */
+export type Confidence = {
+  score: number;
+  level: "high" | "medium" | "low";
+  coverage: number;           // 按权重平均的窗口内有效小时比例 0–1
+  leadHours: number;          // 距事件的预报时效（小时，过去为 0）
+  lead: number;               // 时效系数 0.5–1
+  missing: FactorKey[];       // 窗口内完全无数据的因子
+};
+
+/* 极昼（太阳整天不落）/ 极夜（整天不升） */
+export type PolarState = "midnightSun" | "polarNight";
+
+/* 观测者：海拔（地平俯角）与地形轮廓（各方位的地形仰角） */
+export type TerrainPoint = [number, number];   // [方位（度，正北=0 顺时针）, 仰角（度，负 = 低于天文地平）]
+export type Observer = {
+  altitude?: number;          // 观测者高出视地平面的高度（米）；山顶看海取海拔
+  profile?: TerrainPoint[];   // 地形轮廓，按方位插值；省略 = 只按俯角计算
+};
+
+/* 本地实际日出/日落：太阳上缘触及视地平（地形轮廓与俯角中较高者）的时刻 */
+export type LocalSunEvent = {
+  time?: Date;                // 省略：当天没有穿越（见 noCrossing），窗口仍用天文时刻
+  azimuth: number;            // 该时刻太阳方位（度）；无穿越时为天文时刻的方位
+  horizon: number;            // 该方位视地平高度（度）
+  shiftMinutes?: number;      // 相对天文时刻的偏移（分钟，正 = 更晚）
+  noCrossing?: "hidden" | "clear";   // hidden：地形整天挡住太阳；clear：太阳不落入视地平
+};
+
+/* 曙暮光阶段：窗口可锚定在其中任一时刻（event = 日出/日落本身） */
+export type TwilightPhase = "golden" | "event" | "civil" | "nautical";
+export type TwilightTimes = Record<TwilightPhase, Date>;
+
+/* 时间轴上某一时刻：插值后的因子明细与分数 */
+export type TimelinePoint = { time: Date; score: number; items: ExplainRow[]; formula: string };
+
+/* 地平线方向各采样点的窗口低云及其对遮挡值的贡献 */
+export type HorizonAgg = {
+  bearing: number;            // 度，正北=0
+  points: { distanceKm: number; lat: number; lon: number; weight: number; lowPct?: number; share: number }[];
+  blockage?: number;          // 加权低云 %（= Σ share）
+};
+
+/* 多模型集合统计（分数 0–100） */
+export type EnsembleStats = {
+  members: { model: string; score: number; values?: Partial<Record<FactorKey, number>> }[];  // values：该成员各因子的窗口取值（what-if 逐成员重算）
+  median: number;
+  min: number; max: number;
+  p25: number; p75: number;
+  spread: number;                          // max - min
+  agreement: "high" | "medium" | "low";    // 模型一致性
+  representative?: string;                 // 细节沿用的成员
+};
+
+/* ---------- Weights（键名见因子注册表 weightKey） ---------- */
+export type Weights = {
+  highCloud: number;
+  midCloud: number;
+  lowCloud: number;
+  precip: number;
+  visibility: number;
+  wind: number;
+  horizon?: number;   // 地平线低云遮挡（仅开启采样时参与）
+  // 可选因子：键存在即参与计分
+  humidity?: number;
+  dewSpread?: number;
+  pressureTrend?: number;
+  aerosol?: number;
+};
+
+/* ====== 评分模型（可调；aod 为可选因子） ====== */
+export type ModelUnit = "%"|" m/s"|" km"|" °C"|" hPa"|"";
+export type TriModel = { type:"tri"|"invTri"; m:number; w:number; color:string; unit:ModelUnit };
+export type ClampUpModel = { type:"clampUp"; threshold:number; full:number; color:string; unit:ModelUnit };
+export type ClampDownModel = { type:"clampDown"; min:number; max:number; color:string; unit:ModelUnit };
+export type GaussModel = { type:"gauss"; m:number; sigma:number; color:string; unit:ModelUnit };           // 理想 m，σ 处降到 0.61
+export type LogisticModel = { type:"logistic"; mid:number; k:number; color:string; unit:ModelUnit };      // k>0 递增，k<0 递减
+export type TrapezoidModel = { type:"trapezoid"; a:number; b:number; c:number; d:number; color:string; unit:ModelUnit }; // [b,c] 满分
+export type PiecewiseModel = { type:"piecewise"; points:[number, number][]; color:string; unit:ModelUnit };  // [x, s] 折线
+export type ScoreModel = TriModel | ClampUpModel | ClampDownModel | GaussModel | LogisticModel | TrapezoidModel | PiecewiseModel;
+export type ScoreModelType = ScoreModel["type"];
+
+/* 每个因子可任选曲线类型；默认值见 models.ts */
+export type ScoreModels = {
+  high: ScoreModel;
+  mid: ScoreModel;
+  low: ScoreModel;    // tri (低云越低越好，理想=0)
+  pre: ScoreModel;
+  vis: ScoreModel;
+  wind: ScoreModel;
+  horizon?: ScoreModel;
+  rh?: ScoreModel;     // 相对湿度
+  dew?: ScoreModel;    // 温度露点差
+  pres?: ScoreModel;   // 3 小时气压变化
+  aod?: ScoreModel;    // 气溶胶光学厚度
+};
+export type FactorKey = keyof ScoreModels;
+
+/* ---------- 窗口聚合 ----------
+   时间核决定窗口内各小时的权重（越靠近事件时刻越重）；每个因子可选统计量；
+   事件前后的窗口长度可以不同（before/after 为 ±windowMinutes 的倍数）。省略 = 等权均值、对称窗口 */
+export type AggKernel = "uniform" | "triangular" | "gaussian";
+export type AggStat = "mean" | "min" | "max" | "percentile";
+export type FactorAgg = { stat: AggStat; p?: number };   // p：分位数 0–100（stat 为 percentile 时）
+export type Aggregation = {
+  kernel: AggKernel;
+  before?: number;    // 事件前窗口 = before × windowMinutes（默认 1）
+  after?: number;     // 事件后窗口 = after × windowMinutes（默认 1）
+  factors?: Partial<Record<FactorKey, FactorAgg>>;   // 未列出的因子取加权均值
+};
+
+/* 缺失因子的处理：neutral = 代入注册表的中性 s（默认）；renormalize = 该因子不计分，其余权重按比例放大 */
+export type MissingPolicy = "neutral" | "renormalize";
+
+/* 每个事件（日出/日落）各自一套权重与模型，以及可选的窗口聚合策略与缺失处理 */
+export type EventParams = { weights: Weights; models: ScoreModels; aggregation?: Aggregation; missing?: MissingPolicy };
+
+/* ---------- 可视化区间类型 ---------- */
+export type Band = { min: number; max: number; center: number; color: string; unit: string };
@@ -0,0 +1,112 @@
+import { FACTORS } from "./registry";
+import { AGG_KERNELS, AGG_SIDE_RANGE } from "./aggregate";
+import { OBSERVER_ALTITUDE_RANGE, TERRAIN_ELEVATION_RANGE, TERRAIN_MAX_POINTS } from "./terrain";
+
+/* ---------- 参数校验 ----------
+   返回错误列表（空数组 = 合法），每条带字段路径，供导入/链接解析提示 */
+
+const isNum = (v:unknown):v is number => typeof v==="number" && Number.isFinite(v);
+const isObj = (v:unknown):v is Record<string, unknown> => !!v && typeof v==="object";
+
+export function validateWeights(w:unknown, path="weights"):string[]{
+  if(!isObj(w)) return [`${path}: 缺失或不是对象 / missing or not an object`];
+  const errs:string[] = [];
+  // 可选因子（含 horizon）：出现时才校验
+  const keys = FACTORS.filter(f=>!f.optional || f.weightKey in w).map(f=>f.weightKey);
+  for(const k of keys){
+    const v = w[k];
+    if(!isNum(v)) errs.push(`${path}.${k}: 应为数字 / must be a number`);
+    else if(v<0) errs.push(`${path}.${k}: 不能为负 / must be ≥ 0`);
+  }
+  return errs;
+}
+
+const MODEL_FIELDS:Record<string,string[]> = {
+  tri: ["m","w"], invTri: ["m","w"], clampUp: ["threshold","full"], clampDown: ["min","max"],
+  gauss: ["m","sigma"], logistic: ["mid","k"], trapezoid: ["a","b","c","d"], piecewise: [],
+};
+
+// 折线至少两个 [x, s] 点，s 在 0–1
+function validatePoints(points:unknown, p:string):string[]{
+  if(!Array.isArray(points) || points.length<2) return [`${p}: 至少需要 2 个点 / needs at least 2 points`];
+  return points.flatMap((pt, i)=>
+    Array.isArray(pt) && pt.length===2 && isNum(pt[0]) && isNum(pt[1]) && pt[1]>=0 && pt[1]<=1
+      ? [] : [`${p}[${i}]: 应为 [x, s]，s 在 0–1 / must be [x, s] with s in 0–1`]);
+}
+
+export function validateModels(m:unknown, path="models"):string[]{
+  if(!isObj(m)) return [`${path}: 缺失或不是对象 / missing or not an object`];
+  const errs:string[] = [];
+  const keys = FACTORS.filter(f=>!f.optional || f.key in m).map(f=>f.key);
+  for(const k of keys){
+    const model = m[k];
+    const p = `${path}.${k}`;
+    if(!isObj(model)){ errs.push(`${p}: 缺失 / missing`); continue; }
+    const fields = typeof model.type==="string" ? MODEL_FIELDS[model.type] : undefined;
+    if(!fields){ errs.push(`${p}.type: 未知类型 "${model.type}" / unknown type`); continue; }
+    for(const f of fields){ if(!isNum(model[f])) errs.push(`${p}.${f}: 应为数字 / must be a number`); }
+    if(model.type==="piecewise") errs.push(...validatePoints(model.points, `${p}.points`));
+    const { a, b, c, d } = model;
+    if(model.type==="trapezoid" && isNum(a) && isNum(b) && isNum(c) && isNum(d) && !(a<=b && b<=c && c<=d)){
+      errs.push(`${p}: 须满足 a ≤ b ≤ c ≤ d / must satisfy a ≤ b ≤ c ≤ d`);
+    }
+    if(typeof model.color!=="string") errs.push(`${p}.color: 应为字符串 / must be a string`);
+    if(typeof model.unit!=="string") errs.push(`${p}.unit: 应为字符串 / must be a string`);
+  }
+  return errs;
+}
+
+const AGG_STATS = ["mean","min","max","percentile"];
+
+/* 窗口聚合（可选）：省略时合法 */
+export function validateAggregation(a:unknown, path="aggregation"):string[]{
+  if(a==null) return [];
+  if(!isObj(a)) return [`${path}: 应为对象 / must be an object`];
+  const errs:string[] = [];
+  if(!AGG_KERNELS.some(k=>k.id===a.kernel)){
+    errs.push(`${path}.kernel: 应为 ${AGG_KERNELS.map(k=>k.id).join(" / ")} / unknown kernel "${a.kernel}"`);
+  }
+  const [lo, hi] = AGG_SIDE_RANGE;
+  for(const side of ["before","after"]){
+    const v = a[side];
+    if(v==null) continue;
+    if(!isNum(v)) errs.push(`${path}.${side}: 应为数字 / must be a number`);
+    else if(v<lo || v>hi) errs.push(`${path}.${side}: 应在 ${lo}–${hi} / must be within ${lo}–${hi}`);
+  }
+  if(a.factors!=null){
+    if(!isObj(a.factors)) errs.push(`${path}.factors: 应为对象 / must be an object`);
+    else for(const [k, spec] of Object.entries(a.factors)){
+      const p = `${path}.factors.${k}`;
+      if(!FACTORS.some(f=>f.key===k && f.source!=="horizon")){ errs.push(`${p}: 未知因子 / unknown factor`); continue; }
+      if(!isObj(spec) || typeof spec.stat!=="string" || !AGG_STATS.includes(spec.stat)){ errs.push(`${p}.stat: 应为 ${AGG_STATS.join(" / ")} / unknown statistic`); continue; }
+      if(spec.stat==="percentile" && (!isNum(spec.p) || spec.p<0 || spec.p>100)) errs.push(`${p}.p: 应为 0–100 的数字 / must be a number within 0–100`);
+    }
+  }
+  return errs;
+}
+
+/* 缺失处理（可选）："neutral" | "renormalize" */
+export function validateMissingPolicy(m:unknown, path="missing"):string[]{
+  return m==null || m==="neutral" || m==="renormalize" ? [] : [`${path}: 应为 neutral 或 renormalize / must be "neutral" or "renormalize"`];
+}
+
+/* 观测者（可选）：高度（米）与地形轮廓 [方位, 仰角][] */
+export function validateObserver(o:unknown, path="observer"):string[]{
+  if(o==null) return [];
+  if(!isObj(o)) return [`${path}: 应为对象 / must be an object`];
+  const errs:string[] = [];
+  const { altitude, profile } = o;
+  const [lo, hi] = OBSERVER_ALTITUDE_RANGE;
+  if(altitude!=null && (!isNum(altitude) || altitude<lo || altitude>hi)) errs.push(`${path}.altitude: 应为 ${lo}–${hi} 米 / must be within ${lo}–${hi} m`);
+  if(profile!=null){
+    const [elLo, elHi] = TERRAIN_ELEVATION_RANGE;
+    if(!Array.isArray(profile)) errs.push(`${path}.profile: 应为数组 / must be an array`);
+    else if(profile.length>TERRAIN_MAX_POINTS) errs.push(`${path}.profile: 最多 ${TERRAIN_MAX_POINTS} 个点 / at most ${TERRAIN_MAX_POINTS} points`);
+    else profile.forEach((pt:unknown, i:number)=>{
+      if(!Array.isArray(pt) || pt.length!==2 || !isNum(pt[0]) || !isNum(pt[1]) || pt[0]<0 || pt[0]>360 || pt[1]<elLo || pt[1]>elHi){
+        errs.push(`${path}.profile[${i}]: 应为 [方位 0–360, 仰角 ${elLo}–${elHi}] / must be [azimuth, elevation]`);
+      }
+    });
+  }
+  return errs;
+}
@@ -0,0 +1,171 @@
+import { isAborted } from "./errors";
+
+/* ---------- 预报缓存（IndexedDB） ----------
+   按 (数据源, 坐标取两位小数, 模型, 天数) 存储；先返回缓存，再后台刷新；
+   网络失败时回退到最近一次缓存。无 IndexedDB（SSR/隐私模式）时全部退化为直连。
+   计算结果（如气候统计）另存在 results 仓库：不参与预报的裁剪，也不随「清除缓存」删除。 */
+
+const DB_NAME = "sunset-predictor";
+const STORE = "forecasts";
+const RESULT_STORE = "results";
+// 2：时间串改为带时区的绝对时刻（…Z），升级时清空 v1 中无时区的旧条目
+// 3：新增 results 仓库，预报条目保留
+const DB_VERSION = 3;
+
+export const CACHE_MAX_ENTRIES = 40;
+export const CACHE_MAX_BYTES = 8 * 1024 * 1024;   // 估算值（JSON 长度）
+export const CACHE_FRESH_MS = 15 * 60 * 1000;     // 15 分钟内视为新鲜，不再请求
+
+export type CacheKeyParts = { provider: string; lat: number; lon: number; days: number; models?: string[]; range?: string };
+export type CacheEntry<T> = { key: string; loc: string; savedAt: number; size: number; payload: T };
+export type CacheStats = { entries: number; bytes: number };
+
+export function locKey(lat: number, lon: number){ return `${lat.toFixed(2)},${lon.toFixed(2)}`; }
+export function cacheKey({ provider, lat, lon, days, models, range }: CacheKeyParts){
+  return `${provider}|${locKey(lat, lon)}|${models?.length ? models.join("+") : "-"}|${days}${range ? `|${range}` : ""}`;
+}
+
+function hasIDB(){ return typeof indexedDB !== "undefined"; }
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase>{
+  if(!dbPromise){
+    dbPromise = new Promise((resolve, reject)=>{
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e)=>{
+        const db = req.result;
+        if(e.oldVersion<2){
+          if(db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+          const store = db.createObjectStore(STORE, { keyPath: "key" });
+          store.createIndex("loc", "loc");
+          store.createIndex("savedAt", "savedAt");
+        }
+        if(!db.objectStoreNames.contains(RESULT_STORE)) db.createObjectStore(RESULT_STORE, { keyPath: "key" });
+      };
+      req.onsuccess = ()=>resolve(req.result);
+      req.onerror = ()=>{ dbPromise = null; reject(req.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T>{
+  return new Promise((resolve, reject)=>{
+    req.onsuccess = ()=>resolve(req.result);
+    req.onerror = ()=>reject(req.error);
+  });
+}
+
+async function allEntries<T>(): Promise<CacheEntry<T>[]>{
+  const db = await openDb();
+  return wrap(db.transaction(STORE).objectStore(STORE).getAll()) as Promise<CacheEntry<T>[]>;
+}
+
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | undefined>{
+  if(!hasIDB()) return undefined;
+  try{
+    const db = await openDb();
+    return await wrap(db.transaction(STORE).objectStore(STORE).get(key)) as CacheEntry<T> | undefined;
+  }catch{ return undefined; }
+}
+
+/* 同一地点最近保存的一条（天数/模型不同也可作离线兜底）；给出 provider 时只看该来源的条目 */
+export async function readLatestForLocation<T>(lat: number, lon: number, provider?: string): Promise<CacheEntry<T> | undefined>{
+  if(!hasIDB()) return undefined;
+  try{
+    const db = await openDb();
+    const rows = await wrap(db.transaction(STORE).objectStore(STORE).index("loc").getAll(locKey(lat, lon))) as CacheEntry<T>[];
+    return rows.filter(r=>!provider || r.key.startsWith(`${provider}|`)).sort((a,b)=>b.savedAt-a.savedAt)[0];
+  }catch{ return undefined; }
+}
+
+export async function writeCache<T>(key: string, lat: number, lon: number, payload: T): Promise<void>{
+  if(!hasIDB()) return;
+  try{
+    const entry: CacheEntry<T> = { key, loc: locKey(lat, lon), savedAt: Date.now(), size: JSON.stringify(payload).length, payload };
+    const db = await openDb();
+    await wrap(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+    await pruneCache();
+  }catch(e){ console.warn("forecast cache write failed", e); }
+}
+
+/* 超出条数或体积上限时，从最旧的开始删除 */
+export async function pruneCache(maxEntries = CACHE_MAX_ENTRIES, maxBytes = CACHE_MAX_BYTES): Promise<void>{
+  if(!hasIDB()) return;
+  const rows = (await allEntries<unknown>()).sort((a,b)=>b.savedAt-a.savedAt);
+  let bytes = 0;
+  const drop: string[] = [];
+  rows.forEach((r, i)=>{
+    bytes += r.size;
+    if(i >= maxEntries || bytes > maxBytes) drop.push(r.key);
+  });
+  if(!drop.length) return;
+  const db = await openDb();
+  const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+  await Promise.all(drop.map(k=>wrap(store.delete(k))));
+}
+
+export async function cacheStats(): Promise<CacheStats>{
+  if(!hasIDB()) return { entries: 0, bytes: 0 };
+  try{
+    const rows = await allEntries<unknown>();
+    return { entries: rows.length, bytes: rows.reduce((a,r)=>a+r.size, 0) };
+  }catch{ return { entries: 0, bytes: 0 }; }
+}
+
+export async function clearCache(): Promise<void>{
+  if(!hasIDB()) return;
+  const db = await openDb();
+  await wrap(db.transaction(STORE, "readwrite").objectStore(STORE).clear());
+}
+
+/* ---------- 计算结果 ----------
+   与预报缓存同库不同仓库：键由调用方决定，只有同键覆盖，没有条数/体积上限 */
+export async function readResult<T>(key: string): Promise<CacheEntry<T> | undefined>{
+  if(!hasIDB()) return undefined;
+  try{
+    const db = await openDb();
+    return await wrap(db.transaction(RESULT_STORE).objectStore(RESULT_STORE).get(key)) as CacheEntry<T> | undefined;
+  }catch{ return undefined; }
+}
+
+export async function writeResult<T>(key: string, lat: number, lon: number, payload: T): Promise<void>{
+  if(!hasIDB()) return;
+  try{
+    const entry: CacheEntry<T> = { key, loc: locKey(lat, lon), savedAt: Date.now(), size: JSON.stringify(payload).length, payload };
+    const db = await openDb();
+    await wrap(db.transaction(RESULT_STORE, "readwrite").objectStore(RESULT_STORE).put(entry));
+  }catch(e){ console.warn("result cache write failed", e); }
+}
+
+/* ---------- stale-while-revalidate ----------
+   onData 可能被调用两次：先缓存（fromCache=true），再网络结果；force 时忽略新鲜期。
+   网络失败时回退到同 key 或同地点、同来源最近的缓存，返回 offline=true 而不抛错；被取消的请求照常抛出。 */
+export type SwrResult = { source: "network" | "cache" | "fresh-cache"; offline: boolean; savedAt: number; error?: unknown };
+
+export async function staleWhileRevalidate<T>(
+  parts: CacheKeyParts,
+  fetcher: ()=>Promise<T>,
+  onData: (payload: T, meta: { savedAt: number; fromCache: boolean })=>void,
+  force = false,
+): Promise<SwrResult>{
+  const key = cacheKey(parts);
+  const cached = await readCache<T>(key);
+  if(cached) onData(cached.payload, { savedAt: cached.savedAt, fromCache: true });
+  if(cached && !force && Date.now() - cached.savedAt < CACHE_FRESH_MS){
+    return { source: "fresh-cache", offline: false, savedAt: cached.savedAt };
+  }
+  try{
+    const fresh = await fetcher();
+    const savedAt = Date.now();
+    onData(fresh, { savedAt, fromCache: false });
+    await writeCache(key, parts.lat, parts.lon, fresh);
+    return { source: "network", offline: false, savedAt };
+  }catch(error){
+    if(isAborted(error)) throw error;
+    const fallback = cached ?? await readLatestForLocation<T>(parts.lat, parts.lon, parts.provider);
+    if(!fallback) throw error;
+    if(!cached) onData(fallback.payload, { savedAt: fallback.savedAt, fromCache: true });
+    return { source: "cache", offline: true, savedAt: fallback.savedAt, error };
+  }
+}
@@ -0,0 +1,78 @@
+/* ---------- 请求错误 ----------
+   数据源请求统一抛出 WeatherFetchError，按 kind 区分原因；界面据此给出具体提示与重试入口，
+   不再直接显示接口返回的原文。message 即面向用户的双语提示，detail 保留原始信息供排查。 */
+export type FetchErrorKind =
+  | "rate-limited"       // 429
+  | "offline"            // 无网络或无法连接
+  | "invalid-location"   // 坐标无效（本地校验或接口 400/422）
+  | "provider-down"      // 5xx
+  | "bad-response"       // 其他 HTTP 错误或响应无法解析
+  | "aborted";           // 被更新的请求取代或组件卸载
+
+export class WeatherFetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly retryAfterMs?: number;   // 429/503 的 Retry-After
+
+  constructor(kind: FetchErrorKind, opts: { status?: number; detail?: string; retryAfterMs?: number; provider?: string } = {}){
+    super(fetchErrorMessage(kind, opts.provider));
+    this.name = "WeatherFetchError";
+    this.kind = kind;
+    this.status = opts.status;
+    this.detail = opts.detail;
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+export function fetchErrorMessage(kind: FetchErrorKind, provider?: string){
+  const who = provider ?? "数据源 / provider";
+  switch(kind){
+    case "rate-limited":     return `请求过于频繁，请稍后再试 / Rate limited by ${who}, try again shortly`;
+    case "offline":          return "无法连接网络 / You appear to be offline";
+    case "invalid-location": return "坐标无效 / Invalid location";
+    case "provider-down":    return `${who} 暂时不可用 / ${who} is unavailable right now`;
+    case "bad-response":     return `${who} 返回了无法识别的数据 / Unexpected response from ${who}`;
+    case "aborted":          return "请求已取消 / Request cancelled";
+  }
+}
+
+/* 429 与 5xx 可以稍后重试；网络错误在浏览器仍在线时也重试（多为瞬时中断） */
+export function isRetryable(e: WeatherFetchError){
+  return e.kind==="rate-limited" || e.kind==="provider-down" || (e.kind==="offline" && !browserOffline());
+}
+
+export function isAborted(e: unknown){
+  return (e instanceof WeatherFetchError && e.kind==="aborted") || (e as { name?: string } | null)?.name==="AbortError";
+}
+
+function browserOffline(){ return typeof navigator!=="undefined" && navigator.onLine===false; }
+
+// Retry-After：秒数或 HTTP 日期
+function retryAfter(res: Response){
+  const v = res.headers.get("retry-after");
+  if(!v) return undefined;
+  const ms = /^\d+$/.test(v.trim()) ? +v*1000 : Date.parse(v) - Date.now();
+  return Number.isFinite(ms) && ms>0 ? ms : undefined;
+}
+
+/* 非 2xx 响应 → 错误；Open-Meteo 的 400 带 {reason}，多为坐标越界 */
+export async function errorFromResponse(res: Response, provider?: string): Promise<WeatherFetchError>{
+  const detail = (await res.text().catch(()=>"")).slice(0, 300);
+  const status = res.status;
+  const kind: FetchErrorKind =
+    status===429 ? "rate-limited"
+    : status===400 || status===422 ? "invalid-location"
+    : status>=500 ? "provider-down"
+    : "bad-response";
+  return new WeatherFetchError(kind, { status, detail, retryAfterMs: retryAfter(res), provider });
+}
+
+/* 任意异常 → WeatherFetchError；network=true 表示异常来自 fetch 本身（网络失败时抛 TypeError） */
+export function toFetchError(e: unknown, provider?: string, network = false): WeatherFetchError {
+  if(e instanceof WeatherFetchError) return e;
+  if(isAborted(e)) return new WeatherFetchError("aborted", { provider });
+  const detail = e instanceof Error ? e.message : String(e);
+  if((network && e instanceof TypeError) || browserOffline()) return new WeatherFetchError("offline", { detail, provider });
+  return new WeatherFetchError("bad-response", { detail, provider });
+}
@@ -0,0 +1,81 @@
+import { addZonedDays, hasZone, zonedDateKey, zonedNoon, type OpenMeteoResponse } from "../scoring";
+import { normalizeOpenMeteo } from "./openMeteo";
+import { fetchJson } from "./request";
+import type { ForecastData, ForecastRequest, WeatherProvider } from "./types";
+
+/* ---------- 离线回放 ----------
+   回放保存下来的 Open-Meteo JSON（public/fixtures/），无需联网即可演示/调试。
+   时间轴整体平移整天数，使第一天对齐"今天"，这样逐日窗口仍能命中数据。 */
+export type FixtureInfo = { id: string; label: string; file: string };
+
+export const FIXTURES: FixtureInfo[] = [
+  { id: "lausanne-summer", label: "Lausanne · summer sample / 洛桑夏季样例", file: "lausanne-summer.json" },
+];
+
+const DAY_MS = 24*3600*1000;
+
+/* 把样例时间平移到以 today 所在日期开始（日期按样例地点的时区取，保持当地钟点不变：
+   逐个时刻按日历日平移，跨夏令时切换时不会整体错开 1 小时） */
+export function shiftToToday(data: ForecastData, today: Date = new Date()): ForecastData {
+  const first = data.hourly.time[0];
+  if(!first) return data;
+  const start = zonedDateKey(new Date(first), data.timezone);
+  const target = zonedDateKey(today, data.timezone);
+  const days = Math.round((Date.parse(target) - Date.parse(start))/DAY_MS);
+  if(!days) return data;
+  const zoned = hasZone(first);
+  const time = data.hourly.time.map(s=>{
+    const d = addZonedDays(new Date(s), days, data.timezone);
+    return zoned ? d.toISOString() : localIsoMinutes(d);
+  });
+  return { ...data, hourly: { ...data.hourly, time } };
+}
+
+// 与 Open-Meteo 相同的无时区格式：YYYY-MM-DDTHH:mm
+function localIsoMinutes(d: Date){
+  const p = (n:number)=>String(n).padStart(2,"0");
+  return `${d.getFullYear()}-${p(d.getMonth()+1)}-${p(d.getDate())}T${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+/* 回测用：把样例按整段循环平铺到 [start, start+days)，每段平移到对应日期 */
+export function tileFixture(data: ForecastData, start: Date, days: number): ForecastData {
+  const first = data.hourly.time[0], last = data.hourly.time[data.hourly.time.length-1];
+  if(!first || !last) return data;
+  const span = Math.max(1, Math.floor((new Date(last).getTime() - new Date(first).getTime())/DAY_MS) + 1);
+  const hourly: Record<string, (number|undefined)[] | string[]> = { time: [] };
+  for(let k=0; k*span<days; k++){
+    const at = new Date(start.getTime() + k*span*DAY_MS);
+    const part = shiftToToday(data, at).hourly as unknown as Record<string, any[]>;
+    for(const [key, arr] of Object.entries(part)){
+      if(!Array.isArray(arr)) continue;
+      hourly[key] = [...(hourly[key] ?? []), ...arr];
+    }
+  }
+  return { ...data, hourly: hourly as unknown as ForecastData["hourly"] };
+}
+
+/* 由一份内存中的 JSON 构造 provider（脚本/测试可直接使用） */
+export function createFixtureProvider(load: (req: ForecastRequest)=>Promise<OpenMeteoResponse>): WeatherProvider {
+  return {
+    id: "fixture",
+    label: "Fixture (offline) / 离线样例",
+    online: false,
+    async fetchForecast(req){
+      const data = shiftToToday(normalizeOpenMeteo(await load(req)));
+      return { ...data, provider: "fixture" };
+    },
+    async fetchHistory({ lat, lon, start, end, signal }){
+      const days = Math.round((Date.parse(end) - Date.parse(start))/DAY_MS) + 1;
+      const raw = normalizeOpenMeteo(await load({ lat, lon, days, signal }));
+      const data = tileFixture(raw, zonedNoon(start, raw.timezone), days);
+      return { ...data, provider: "fixture" };
+    },
+  };
+}
+
+/* 从站点静态目录读取样例文件 */
+export function fixtureProvider(fixtureId: string = FIXTURES[0].id): WeatherProvider {
+  const info = FIXTURES.find(f=>f.id===fixtureId) ?? FIXTURES[0];
+  return createFixtureProvider(({ signal })=>
+    fetchJson<OpenMeteoResponse>(`${import.meta.env.BASE_URL}fixtures/${info.file}`, { signal, provider: `Fixture ${info.file}`, retries: 0 }));
+}
@@ -0,0 +1,19 @@
+import { eventBearing, horizonSamplePoints, type HorizonSeries, type SunEvent } from "../scoring";
+import type { ForecastData, ForecastRequest, WeatherProvider } from "./types";
+
+/* ---------- 地平线采样点的预报 ----------
+   方位取第一天的事件时刻：逐日漂移不到 1°，200 km 处横向偏差可以忽略。
+   load 可替换（例如套一层缓存），默认直接调用 provider。极昼/极夜无方位时返回 null。 */
+export async function fetchHorizonSeries(
+  provider: WeatherProvider,
+  req: ForecastRequest,
+  event: SunEvent,
+  load: (req: ForecastRequest)=>Promise<ForecastData> = (r)=>provider.fetchForecast(r),
+): Promise<HorizonSeries | null>{
+  const bearing = eventBearing(new Date(), req.lat, req.lon, event);
+  if(!Number.isFinite(bearing)) return null;
+  const points = await Promise.all(horizonSamplePoints(req.lat, req.lon, bearing).map(async p=>({
+    ...p, data: await load({ ...req, lat: p.lat, lon: p.lon }),
+  })));
+  return { event, bearing, points };
+}
@@ -0,0 +1,28 @@
+// 天气数据源：统一接口 + 各实现
+import type { ProviderId, WeatherProvider } from "./types";
+import { openMeteoProvider } from "./openMeteo";
+import { metNorwayProvider } from "./metNorway";
+import { fixtureProvider } from "./fixture";
+
+export * from "./types";
+export * from "./openMeteo";
+export * from "./metNorway";
+export * from "./fixture";
+export * from "./cache";
+export * from "./horizon";
+export * from "./errors";
+export * from "./request";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: "open-meteo", label: "Open-Meteo" },
+  { id: "met-norway", label: "MET Norway" },
+  { id: "fixture",    label: "Fixture (offline) / 离线样例" },
+];
+
+export function getProvider(id: ProviderId, fixtureId?: string): WeatherProvider {
+  switch(id){
+    case "open-meteo": return openMeteoProvider;
+    case "met-norway": return metNorwayProvider;
+    case "fixture":    return fixtureProvider(fixtureId);
+  }
+}
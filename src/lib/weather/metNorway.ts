@@ -0,0 +1,70 @@
+import { browserTimeZone } from "../scoring";
+import { isAborted } from "./errors";
+import { lookupTimeZone } from "./openMeteo";
+import { fetchJson } from "./request";
+import type { ForecastData, ForecastRequest, WeatherProvider } from "./types";
+
+/* MET Norway locationforecast 2.0（complete）响应的最小子集 */
+type MetDetails = Record<string, number | undefined>;
+interface MetTimestep {
+  time: string;  // UTC, e.g. 2025-08-20T18:00:00Z
+  data: {
+    instant: { details: MetDetails };
+    next_1_hours?: { details?: MetDetails };
+    next_6_hours?: { details?: MetDetails };
+  };
+}
+interface MetResponse {
+  geometry: { coordinates: [number, number, number?] };  // [lon, lat, alt]
+  properties: { timeseries: MetTimestep[] };
+}
+
+/* MET 的时间步长约 3 天后变为 6 小时；窗口聚合按时间挑选，稀疏时段只会取到较少样本
+   缺失值保留为 undefined（与 Open-Meteo 的 null 一样会在聚合时被跳过）
+   响应不带时区（时间本身为 UTC）：timeZone 为另行查到的地点时区，省略时取浏览器时区并标为估计 */
+export function normalizeMetNorway(json: MetResponse, days: number, timeZone?: string): ForecastData {
+  const [lon, lat] = json.geometry.coordinates;
+  const limit = Date.now() + days*24*3600*1000;
+  const steps = json.properties.timeseries.filter(ts=>new Date(ts.time).getTime() <= limit);
+  const pick = (f:(ts:MetTimestep)=>number|undefined) => steps.map(f) as number[];
+  return {
+    provider: "met-norway",
+    latitude: lat,
+    longitude: lon,
+    timezone: timeZone ?? browserTimeZone(),
+    ...(timeZone ? {} : { timezoneApprox: true }),
+    hourly: {
+      time: steps.map(ts=>ts.time),
+      cloudcover:      pick(ts=>ts.data.instant.details.cloud_area_fraction),
+      cloudcover_low:  pick(ts=>ts.data.instant.details.cloud_area_fraction_low),
+      cloudcover_mid:  pick(ts=>ts.data.instant.details.cloud_area_fraction_medium),
+      cloudcover_high: pick(ts=>ts.data.instant.details.cloud_area_fraction_high),
+      precipitation_probability: pick(ts=>
+        ts.data.next_1_hours?.details?.probability_of_precipitation ??
+        ts.data.next_6_hours?.details?.probability_of_precipitation),
+      // locationforecast 不提供能见度
+      wind_speed_10m:  pick(ts=>ts.data.instant.details.wind_speed),
+      relative_humidity_2m: pick(ts=>ts.data.instant.details.relative_humidity),
+      temperature_2m:  pick(ts=>ts.data.instant.details.air_temperature),
+      dew_point_2m:    pick(ts=>ts.data.instant.details.dew_point_temperature),
+      pressure_msl:    pick(ts=>ts.data.instant.details.air_pressure_at_sea_level),
+    },
+  };
+}
+
+export const metNorwayProvider: WeatherProvider = {
+  id: "met-norway",
+  label: "MET Norway",
+  online: true,
+  async fetchForecast({ lat, lon, days, signal }: ForecastRequest){
+    // MET 要求坐标最多 4 位小数（便于其缓存）
+    const params = new URLSearchParams({ lat:lat.toFixed(4), lon:lon.toFixed(4) });
+    const url = `https://api.met.no/weatherapi/locationforecast/2.0/complete?${params.toString()}`;
+    // 时区查询失败不影响预报本身（取消除外）
+    const [json, timeZone] = await Promise.all([
+      fetchJson<MetResponse>(url, { signal, provider: "MET Norway" }),
+      lookupTimeZone({ lat, lon, signal }).catch((e)=>{ if(isAborted(e)) throw e; return undefined; }),
+    ]);
+    return normalizeMetNorway(json, days, timeZone);
+  },
+};
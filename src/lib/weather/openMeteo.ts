@@ -0,0 +1,127 @@
+import { hasZone, isValidTimeZone, sourceVariables, zonedToUtc, type OpenMeteoHourly, type OpenMeteoResponse } from "../scoring";
+import { WeatherFetchError } from "./errors";
+import { fetchJson } from "./request";
+import type { ForecastData, ForecastRequest, HistoryRequest, WeatherProvider } from "./types";
+
+/* 请求的逐小时变量：总云量 + 因子注册表中来自预报的变量 */
+export const OPEN_METEO_HOURLY: string[] = ["cloudcover", ...sourceVariables("forecast").filter(v=>v!=="cloudcover")];
+/* 空气质量接口（另一域名）的变量，如气溶胶光学厚度 */
+export const AIR_QUALITY_HOURLY: string[] = sourceVariables("airQuality");
+
+/* 可选的集合成员（Open-Meteo models=...） */
+export const ENSEMBLE_MODELS: { id: string; label: string }[] = [
+  { id: "ecmwf_ifs025",         label: "ECMWF IFS" },
+  { id: "gfs_seamless",         label: "NOAA GFS" },
+  { id: "icon_seamless",        label: "DWD ICON" },
+  { id: "meteofrance_seamless", label: "Météo-France" },
+  { id: "gem_seamless",         label: "GEM" },
+];
+export const defaultEnsembleModels = ["ecmwf_ifs025","gfs_seamless","icon_seamless"];
+
+/* timezone=auto 时返回的是地点当地的墙上时间（不带偏移），换成带 Z 的绝对时刻，
+   这样无论浏览器在哪个时区，new Date(time) 都指向同一时刻 */
+export function absoluteTimes(time: string[], timeZone?: string): string[] {
+  return time.map(s=>hasZone(s) ? s : zonedToUtc(s, timeZone).toISOString());
+}
+
+/* Open-Meteo 原始响应 → 统一序列（只保留评分用到的变量） */
+export function normalizeOpenMeteo(json: OpenMeteoResponse): ForecastData {
+  const h = json.hourly as unknown as Record<string, number[] | undefined>;
+  const hourly: Record<string, unknown> = { time: absoluteTimes(json.hourly.time, json.timezone) };
+  for(const v of [...OPEN_METEO_HOURLY, ...AIR_QUALITY_HOURLY]){ if(h[v]) hourly[v] = h[v]; }
+  return {
+    provider: "open-meteo",
+    latitude: json.latitude,
+    longitude: json.longitude,
+    timezone: json.timezone,
+    hourly: hourly as unknown as OpenMeteoHourly,
+  };
+}
+
+/* 把另一份逐小时序列（如空气质量）按时刻并入预报；对不上的时刻留空 */
+export function mergeHourly(data: ForecastData, extra: OpenMeteoHourly): ForecastData {
+  const index = new Map(extra.time.map((t, i)=>[new Date(t).getTime(), i]));
+  const rows = data.hourly.time.map(t=>index.get(new Date(t).getTime()));
+  const hourly = { ...data.hourly } as unknown as Record<string, unknown>;
+  for(const [k, arr] of Object.entries(extra)){
+    if(k==="time" || !Array.isArray(arr)) continue;
+    hourly[k] = rows.map(i=>i==null ? undefined : arr[i]);
+  }
+  return { ...data, hourly: hourly as unknown as OpenMeteoHourly };
+}
+
+/* 多模型响应中变量名带 _<model> 后缀，按模型拆成多份统一序列 */
+export function splitOpenMeteoModels(json: OpenMeteoResponse, models: string[]): Record<string, ForecastData> {
+  if(models.length===1) return { [models[0]]: normalizeOpenMeteo(json) };
+  const hourly = json.hourly as unknown as Record<string, number[]>;
+  const out: Record<string, ForecastData> = {};
+  for(const model of models){
+    const picked: Record<string, number[]> = {};
+    for(const v of OPEN_METEO_HOURLY){
+      const arr = hourly[`${v}_${model}`];
+      if(arr) picked[v] = arr;
+    }
+    // 该模型一个变量都没有（不覆盖此地/已下线）则跳过
+    if(!Object.keys(picked).length) continue;
+    out[model] = normalizeOpenMeteo({ ...json, hourly: { time: json.hourly.time, ...picked } });
+  }
+  return out;
+}
+
+function forecastUrl({ lat, lon, days }: ForecastRequest, extra: Record<string,string> = {}){
+  const params = new URLSearchParams({
+    latitude:String(lat), longitude:String(lon),
+    hourly:OPEN_METEO_HOURLY.join(","), timezone:"auto", forecast_days:String(days),
+    wind_speed_unit:"ms",   // 默认是 km/h，统一为 m/s
+    ...extra,
+  });
+  return `https://api.open-meteo.com/v1/forecast?${params.toString()}`;
+}
+
+/* 历史预报存档：按当时的短期预报拼接，变量与实时预报一致（含降水概率、能见度） */
+function historyUrl({ lat, lon, start, end }: HistoryRequest){
+  const params = new URLSearchParams({
+    latitude:String(lat), longitude:String(lon),
+    hourly:OPEN_METEO_HOURLY.join(","), timezone:"auto",
+    start_date:start, end_date:end, wind_speed_unit:"ms",
+  });
+  return `https://historical-forecast-api.open-meteo.com/v1/forecast?${params.toString()}`;
+}
+
+/* 空气质量预报（CAMS，最多约 5 天）；只在开启气溶胶因子时请求 */
+function airQualityUrl({ lat, lon, days }: ForecastRequest){
+  const params = new URLSearchParams({
+    latitude:String(lat), longitude:String(lon),
+    hourly:AIR_QUALITY_HOURLY.join(","), timezone:"auto", forecast_days:String(Math.min(days, 5)),
+  });
+  return `https://air-quality-api.open-meteo.com/v1/air-quality?${params.toString()}`;
+}
+
+/* 只查地点的 IANA 时区（timezone=auto，不取任何变量）；供不带时区的数据源使用 */
+export async function lookupTimeZone({ lat, lon, signal }: Omit<ForecastRequest, "days">): Promise<string>{
+  const params = new URLSearchParams({ latitude:String(lat), longitude:String(lon), timezone:"auto", forecast_days:"1" });
+  const json = await fetchJson<{ timezone?: string }>(`https://api.open-meteo.com/v1/forecast?${params.toString()}`,
+    { signal, provider: "Open-Meteo", retries: 0 });
+  if(!json.timezone || !isValidTimeZone(json.timezone)) throw new WeatherFetchError("bad-response", { detail: "timezone", provider: "Open-Meteo" });
+  return json.timezone;
+}
+
+export async function fetchAirQuality(req: ForecastRequest): Promise<OpenMeteoHourly>{
+  const json = await fetchJson<OpenMeteoResponse>(airQualityUrl(req), { signal: req.signal, provider: "Open-Meteo Air Quality" });
+  return { ...json.hourly, time: absoluteTimes(json.hourly.time, json.timezone) };
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  label: "Open-Meteo",
+  online: true,
+  async fetchForecast(req: ForecastRequest){
+    return normalizeOpenMeteo(await fetchJson(forecastUrl(req), { signal: req.signal, provider: "Open-Meteo" }));
+  },
+  async fetchEnsemble(req){
+    return splitOpenMeteoModels(await fetchJson(forecastUrl(req, { models:req.models.join(",") }), { signal: req.signal, provider: "Open-Meteo" }), req.models);
+  },
+  async fetchHistory(req){
+    return normalizeOpenMeteo(await fetchJson(historyUrl(req), { signal: req.signal, provider: "Open-Meteo" }));
+  },
+};
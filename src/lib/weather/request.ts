@@ -0,0 +1,92 @@
+import { WeatherFetchError, errorFromResponse, isRetryable, toFetchError } from "./errors";
+
+/* ---------- 请求：重试、取消与防抖 ----------
+   fetchJson：非 2xx 转成 WeatherFetchError，429/5xx 按指数退避重试（优先遵守 Retry-After）；
+   createRequestManager：同一类请求只保留最新一次，新请求发出时取消旧的，
+   被取代的请求以 kind="aborted" 结束，结果不会覆盖较新的数据。 */
+
+export const RETRY_BASE_MS = 500;
+export const RETRY_MAX_MS = 8000;
+
+export type FetchJsonOptions = {
+  signal?: AbortSignal;
+  provider?: string;      // 用于错误提示
+  retries?: number;       // 额外重试次数（默认 2，即最多 3 次）
+  baseDelayMs?: number;
+};
+
+/* 可被 signal 打断的等待 */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void>{
+  return new Promise((resolve, reject)=>{
+    if(signal?.aborted){ reject(new WeatherFetchError("aborted")); return; }
+    const id = setTimeout(()=>{ signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+    function onAbort(){ clearTimeout(id); reject(new WeatherFetchError("aborted")); }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/* 第 attempt 次重试前的等待：base·2^attempt，不超过上限；Retry-After 更长时以它为准 */
+export function backoffDelay(attempt: number, baseMs = RETRY_BASE_MS, retryAfterMs?: number){
+  const exp = Math.min(RETRY_MAX_MS, baseMs * 2**attempt);
+  return retryAfterMs!=null ? Math.max(exp, Math.min(retryAfterMs, 4*RETRY_MAX_MS)) : exp;
+}
+
+export async function fetchJson<T>(url: string, opts: FetchJsonOptions = {}): Promise<T>{
+  const { signal, provider, retries = 2, baseDelayMs = RETRY_BASE_MS } = opts;
+  for(let attempt=0; ; attempt++){
+    let error: WeatherFetchError;
+    try{
+      const res = await fetch(url, { signal });
+      if(res.ok){
+        try{ return await res.json() as T; }
+        catch(e){ throw new WeatherFetchError("bad-response", { status: res.status, detail: String(e), provider }); }
+      }
+      error = await errorFromResponse(res, provider);
+    }catch(e){
+      error = toFetchError(e, provider, true);
+    }
+    if(error.kind==="aborted" || attempt>=retries || !isRetryable(error)) throw error;
+    await sleep(backoffDelay(attempt, baseDelayMs, error.retryAfterMs), signal);
+  }
+}
+
+/* 坐标校验：返回错误列表（空 = 有效） */
+export function validateCoords(lat: number, lon: number): string[] {
+  const errors: string[] = [];
+  if(!Number.isFinite(lat) || lat<-90 || lat>90) errors.push("lat: 纬度须在 −90 到 90 之间 / latitude must be within −90…90");
+  if(!Number.isFinite(lon) || lon<-180 || lon>180) errors.push("lon: 经度须在 −180 到 180 之间 / longitude must be within −180…180");
+  return errors;
+}
+
+export function assertCoords(lat: number, lon: number){
+  const errors = validateCoords(lat, lon);
+  if(errors.length) throw new WeatherFetchError("invalid-location", { detail: errors.join("; ") });
+}
+
+export type RequestManager = {
+  /** 取消上一次并（防抖后）执行 task；被取代时以 aborted 拒绝 */
+  run<T>(task: (signal: AbortSignal)=>Promise<T>, opts?: { debounceMs?: number }): Promise<T>;
+  cancel(): void;
+};
+
+export function createRequestManager(): RequestManager {
+  let current: AbortController | null = null;
+  return {
+    async run(task, { debounceMs = 0 } = {}){
+      current?.abort();
+      const ctrl = new AbortController();
+      current = ctrl;
+      try{
+        if(debounceMs>0) await sleep(debounceMs, ctrl.signal);
+        const out = await task(ctrl.signal);
+        if(ctrl.signal.aborted) throw new WeatherFetchError("aborted");
+        return out;
+      }catch(e){
+        throw ctrl.signal.aborted ? new WeatherFetchError("aborted") : e;
+      }finally{
+        if(current===ctrl) current = null;
+      }
+    },
+    cancel(){ current?.abort(); current = null; },
+  };
+}
@@ -0,0 +1,39 @@
+import type { OpenMeteoResponse } from "../scoring";
+
+/* ---------- 天气数据源 ----------
+   各数据源统一归一为 Open-Meteo 风格的逐小时序列：
+   云量 %、降水概率 %、能见度 m、风速 m/s、湿度 %、温度/露点 °C、气压 hPa；缺失的变量直接省略 */
+export type ProviderId = "open-meteo" | "met-norway" | "fixture";
+
+export type ForecastRequest = {
+  lat: number;
+  lon: number;
+  days: number;
+  signal?: AbortSignal;
+};
+
+/* 历史回测：起止日期（含），YYYY-MM-DD，地点本地日期 */
+export type HistoryRequest = {
+  lat: number;
+  lon: number;
+  start: string;
+  end: string;
+  signal?: AbortSignal;
+};
+
+export type ForecastData = OpenMeteoResponse & {
+  provider: ProviderId;
+  timezoneApprox?: boolean;  // 数据源不带时区、查询也失败时取浏览器时区，日期划分与钟点可能不准
+};
+
+export interface WeatherProvider {
+  id: ProviderId;
+  label: string;
+  /** 是否需要联网（fixture 为离线回放） */
+  online: boolean;
+  fetchForecast(req: ForecastRequest): Promise<ForecastData>;
+  /** 多模型：同一批变量按模型分别返回（键为模型 id）；不支持的数据源不实现 */
+  fetchEnsemble?(req: ForecastRequest & { models: string[] }): Promise<Record<string, ForecastData>>;
+  /** 过去某段时间的逐小时数据（同一组变量），用于回测；不支持的数据源不实现 */
+  fetchHistory?(req: HistoryRequest): Promise<ForecastData>;
+}
@@ -0,0 +1,6 @@
+-- 留言板帖子附带实测评分与预测快照（旧帖三列均为 null）
+-- Board posts: observed glow score, sun event and the frozen prediction snapshot.
+alter table posts
+  add column if not exists event text check (event in ('sunset', 'sunrise')),
+  add column if not exists observed_score int check (observed_score between 0 and 100),
+  add column if not exists snapshot jsonb;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { aggWindow, defaultEventParams, formatWindowSpan, kernelWeight, predictSunsets, weightedStat, windowBounds } from "../src/lib/scoring";
+import { LAUSANNE, loadForecast } from "./fixtures";
+
+const data = loadForecast();
+const MIN = 60*1000;
+
+describe("window aggregation", ()=>{
+  it("builds asymmetric window bounds", ()=>{
+    const anchor = new Date("2025-08-18T18:40:00Z");
+    const { start, end } = windowBounds(anchor, 90, { kernel: "uniform", before: 1, after: 0.5 });
+    expect(anchor.getTime() - start.getTime()).toBe(90*MIN);
+    expect(end.getTime() - anchor.getTime()).toBe(45*MIN);
+  });
+
+  it("labels the window with the minutes actually used on each side", ()=>{
+    expect(formatWindowSpan(90)).toBe("±90 分钟");
+    expect(formatWindowSpan(90, { kernel: "uniform", before: 1, after: 0.5 })).toBe("前 90 / 后 45 分钟");
+    expect(formatWindowSpan(45, { kernel: "uniform", before: 0.25 })).toBe("前 11 / 后 45 分钟");
+  });
+
+  it("weights hours towards the anchor", ()=>{
+    expect(kernelWeight(5, 10, 0, 20, "uniform")).toBe(1);
+    expect(kernelWeight(10, 10, 0, 20, "triangular")).toBe(1);
+    expect(kernelWeight(5, 10, 0, 20, "triangular")).toBeCloseTo(0.5);
+    expect(kernelWeight(0, 10, 0, 20, "triangular")).toBe(0);
+    expect(kernelWeight(15, 10, 0, 20, "gaussian")).toBeCloseTo(Math.exp(-0.5));
+  });
+
+  it("computes weighted statistics", ()=>{
+    expect(weightedStat([10, 20, 30], [1, 1, 1])).toBe(20);
+    expect(weightedStat([10, 20, 30], [0, 1, 3])).toBeCloseTo(27.5);
+    expect(weightedStat([10, 20, 30], [0, 0, 0])).toBe(20);
+    expect(weightedStat([30, 10, 20], [1, 1, 1], { stat: "min" })).toBe(10);
+    expect(weightedStat([30, 10, 20], [1, 1, 1], { stat: "percentile", p: 90 })).toBe(30);
+    expect(aggWindow([0.2, 0.4, undefined], [0, 1, 2], [1, 1, 1], { pct: true })).toEqual({ avg: 30, min: 20, max: 40, value: 30 });
+  });
+
+  it("applies kernels, windows and per-factor statistics in predictSunsets", ()=>{
+    const opts = { ...LAUSANNE, windowMinutes: 90, timeZone: data.timezone, ...defaultEventParams.sunset };
+    const plain = predictSunsets(data, opts);
+    const tuned = predictSunsets(data, {
+      ...opts, aggregation: { kernel: "triangular", before: 1, after: 0.5, factors: { low: { stat: "max" } } },
+    });
+    const [a, b] = [plain[0], tuned[0]];
+    const event = b.twilight.event.getTime();
+    const tl = b.timeline!;
+    expect(tl[0].time.getTime()).toBe(event - 90*MIN);
+    expect(tl[tl.length-1].time.getTime()).toBe(event + 40*MIN);   // 10 分钟步长落在 +45 之前
+    expect(b.agg.low!.value).toBe(b.agg.low!.max);
+    expect(b.explain.items.find(it=>it.key==="low")!.stat).toBe("最大 / max");
+    expect(b.explain.aggregation).toContain("前 90 / 后 45 分钟");
+    expect(a.agg.low!.value).toBe(a.agg.low!.avg);
+    expect(tuned.map(s=>s.score)).not.toEqual(plain.map(s=>s.score));
+  });
+});
@@ -0,0 +1,106 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CACHE_FRESH_MS, WeatherFetchError, cacheKey, cacheStats, clearCache, pruneCache, readCache, readLatestForLocation,
+  staleWhileRevalidate, writeCache, type CacheKeyParts,
+} from "../src/lib/weather";
+
+const T0 = Date.UTC(2025, 7, 18, 12);
+const at = (ms: number)=>vi.setSystemTime(T0 + ms);
+const parts: CacheKeyParts = { provider: "open-meteo", lat: 46.5197, lon: 6.6323, days: 7 };
+
+function recorder(){
+  const calls: { payload: unknown; fromCache: boolean }[] = [];
+  return { calls, onData: (payload: unknown, meta: { fromCache: boolean })=>{ calls.push({ payload, fromCache: meta.fromCache }); } };
+}
+
+beforeEach(async ()=>{
+  vi.useFakeTimers({ toFake: ["Date"] });
+  at(0);
+  await clearCache();
+});
+afterEach(()=>{ vi.useRealTimers(); });
+
+describe("cache keys", ()=>{
+  it("rounds coordinates to two decimals and lists models", ()=>{
+    expect(cacheKey(parts)).toBe("open-meteo|46.52,6.63|-|7");
+    expect(cacheKey({ ...parts, models: ["a", "b"], range: "2024" })).toBe("open-meteo|46.52,6.63|a+b|7|2024");
+  });
+});
+
+describe("pruneCache", ()=>{
+  it("drops the oldest entries beyond the entry limit", async ()=>{
+    for(let i=0; i<5; i++){ at(i*1000); await writeCache(`k${i}`, 1, 2, { i }); }
+    await pruneCache(3);
+    expect(await readCache("k0")).toBeUndefined();
+    expect(await readCache("k1")).toBeUndefined();
+    expect((await readCache("k4"))?.payload).toEqual({ i: 4 });
+    expect((await cacheStats()).entries).toBe(3);
+  });
+
+  it("drops the oldest entries beyond the byte budget", async ()=>{
+    const blob = "x".repeat(100);
+    for(let i=0; i<3; i++){ at(i*1000); await writeCache(`k${i}`, 1, 2, blob); }
+    await pruneCache(10, 250);
+    expect(await readCache("k0")).toBeUndefined();
+    expect(await readCache("k1")).toBeDefined();
+  });
+});
+
+describe("staleWhileRevalidate", ()=>{
+  it("fetches and stores on a miss", async ()=>{
+    const { calls, onData } = recorder();
+    const res = await staleWhileRevalidate(parts, async ()=>"net", onData);
+    expect(res).toMatchObject({ source: "network", offline: false, savedAt: T0 });
+    expect(calls).toEqual([{ payload: "net", fromCache: false }]);
+    expect((await readCache(cacheKey(parts)))?.payload).toBe("net");
+  });
+
+  it("serves a fresh entry without fetching", async ()=>{
+    await writeCache(cacheKey(parts), parts.lat, parts.lon, "cached");
+    at(CACHE_FRESH_MS - 1);
+    const fetcher = vi.fn(async ()=>"net");
+    const { calls, onData } = recorder();
+    const res = await staleWhileRevalidate(parts, fetcher, onData);
+    expect(res.source).toBe("fresh-cache");
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(calls).toEqual([{ payload: "cached", fromCache: true }]);
+  });
+
+  it("shows a stale entry first, then revalidates", async ()=>{
+    await writeCache(cacheKey(parts), parts.lat, parts.lon, "old");
+    at(CACHE_FRESH_MS + 1);
+    const { calls, onData } = recorder();
+    const res = await staleWhileRevalidate(parts, async ()=>"new", onData);
+    expect(res.source).toBe("network");
+    expect(calls.map(c=>c.payload)).toEqual(["old", "new"]);
+    expect((await readCache(cacheKey(parts)))?.savedAt).toBe(T0 + CACHE_FRESH_MS + 1);
+  });
+
+  it("refetches a fresh entry when forced", async ()=>{
+    await writeCache(cacheKey(parts), parts.lat, parts.lon, "cached");
+    const { calls, onData } = recorder();
+    await staleWhileRevalidate(parts, async ()=>"net", onData, true);
+    expect(calls.map(c=>c.payload)).toEqual(["cached", "net"]);
+  });
+
+  it("falls back to the same location's latest entry when offline", async ()=>{
+    await writeCache(cacheKey({ ...parts, days: 3 }), parts.lat, parts.lon, "three-day");
+    at(1000);
+    await writeCache(cacheKey({ ...parts, provider: "met-norway" }), parts.lat, parts.lon, "other-source");
+    const { calls, onData } = recorder();
+    const res = await staleWhileRevalidate(parts, async ()=>{ throw new WeatherFetchError("offline"); }, onData);
+    expect(res).toMatchObject({ source: "cache", offline: true });
+    expect(calls).toEqual([{ payload: "three-day", fromCache: true }]);
+    expect((await readLatestForLocation(parts.lat, parts.lon))?.payload).toBe("other-source");
+  });
+
+  it("rethrows when nothing is cached, and always for aborted requests", async ()=>{
+    const { onData } = recorder();
+    await expect(staleWhileRevalidate(parts, async ()=>{ throw new WeatherFetchError("offline"); }, onData))
+      .rejects.toMatchObject({ kind: "offline" });
+    await writeCache(cacheKey(parts), parts.lat, parts.lon, "cached");
+    await expect(staleWhileRevalidate(parts, async ()=>{ throw new WeatherFetchError("aborted"); }, onData, true))
+      .rejects.toMatchObject({ kind: "aborted" });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { CALIBRATION_MIN_SAMPLES, calibrateParams, defaultEventParams, evaluateParams } from "../src/lib/scoring";
+import { recordsFromObservations } from "../src/lib/observation";
+import { readFixture } from "./fixtures";
+
+const { records, skipped } = recordsFromObservations(readFixture("observations-sample.json"));
+const samples = records.filter(r=>r.event==="sunset");
+
+describe("calibrateParams on the sample observations", ()=>{
+  it("reads every sample record", ()=>{
+    expect(skipped).toBe(0);
+    expect(samples).toHaveLength(40);
+  });
+
+  it("is reproducible from a fixed dataset", ()=>{
+    const a = calibrateParams(samples, defaultEventParams.sunset);
+    const b = calibrateParams(samples, defaultEventParams.sunset);
+    expect(b.params).toEqual(a.params);
+    expect(b.after).toEqual(a.after);
+    expect(b.sweeps).toBe(a.sweeps);
+  });
+
+  it("improves MAE and rank correlation", ()=>{
+    const r = calibrateParams(samples, defaultEventParams.sunset);
+    expect(r.before.n).toBe(40);
+    expect(r.before.mae).toBeCloseTo(10.175, 6);
+    expect(r.before.spearman).toBeCloseTo(0.7736, 4);
+    expect(r.after.mae).toBeCloseTo(2.65, 6);
+    expect(r.after.spearman).toBeCloseTo(0.9719, 4);
+    expect(r.sweeps).toBe(34);
+    // 返回的指标与用拟合参数重新评估一致
+    expect(evaluateParams(samples, r.params)).toEqual(r.after);
+  });
+
+  it("does not modify the starting parameters", ()=>{
+    const start = JSON.parse(JSON.stringify(defaultEventParams.sunset));
+    calibrateParams(samples, defaultEventParams.sunset);
+    expect(defaultEventParams.sunset).toEqual(start);
+  });
+
+  it("needs a minimum number of samples", ()=>{
+    expect(()=>calibrateParams(samples.slice(0, CALIBRATION_MIN_SAMPLES - 1), defaultEventParams.sunset)).toThrow();
+  });
+});
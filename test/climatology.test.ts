@@ -0,0 +1,46 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { defaultEventParams, SCORE_TIERS, type ScoreTier } from "../src/lib/scoring";
+import { clearCache, pruneCache, type WeatherProvider } from "../src/lib/weather";
+import { computeClimatology, readCachedClimatology, weeklyClimatology, type ClimatologyOptions } from "../src/lib/climatology";
+import { LAUSANNE, loadForecast } from "./fixtures";
+
+const LOOSE: ScoreTier[] = [
+  { ...SCORE_TIERS[0], min: 55 },
+  { ...SCORE_TIERS[1], min: 45 },
+  { ...SCORE_TIERS[4], min: 0 },
+];
+
+describe("weeklyClimatology", ()=>{
+  const daily = [50, 60, 80, 90].map(score=>({ date: new Date(2024, 7, 20), score }));
+
+  it("counts Great+ and Fire against the default tiers", ()=>{
+    const [w] = weeklyClimatology(daily);
+    expect(w).toMatchObject({ n: 4, median: 70, shareGreat: 0.5, shareFire: 0.25 });
+  });
+
+  it("uses the top two of the given tiers as thresholds", ()=>{
+    const [w] = weeklyClimatology(daily, LOOSE);
+    expect(w).toMatchObject({ shareGreat: 1, shareFire: 0.75 });
+  });
+});
+
+describe("climatology cache", ()=>{
+  const provider: WeatherProvider = {
+    id: "fixture", label: "fixture", online: false,
+    fetchForecast: async ()=>loadForecast(),
+    fetchHistory: async ()=>loadForecast(),
+  };
+  const opts: ClimatologyOptions = {
+    lat: LAUSANNE.lat, lon: LAUSANNE.lon, event: "sunset", years: [2025], windowMinutes: 90, params: defaultEventParams.sunset,
+  };
+
+  it("keeps results out of forecast pruning and clearing, keyed by tiers", async ()=>{
+    const result = await computeClimatology(provider, opts);
+    expect(result.days).toBe(7);
+    await pruneCache(0, 0);
+    await clearCache();
+    expect(await readCachedClimatology(opts)).toEqual(result);
+    expect(await readCachedClimatology({ ...opts, tiers: LOOSE })).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { defaultEventParams, type EventParams } from "../src/lib/scoring";
+import { decodeLinkState, encodeLinkState, type PredictorLinkState } from "../src/lib/deepLink";
+
+const b64url = (text: string)=>Buffer.from(text, "utf8").toString("base64url");
+
+const custom: EventParams = {
+  ...defaultEventParams.sunset,
+  weights: { ...defaultEventParams.sunset.weights, highCloud: 0.5 },
+  aggregation: { kernel: "triangular", before: 1, after: 0.5 },
+};
+
+describe("encodeLinkState / decodeLinkState", ()=>{
+  it("round-trips the predictor state", ()=>{
+    const state: PredictorLinkState = {
+      lat: 46.52, lon: 6.63, days: 5, windowMinutes: 60, anchor: "golden", mode: "both", detail: 2,
+      observer: { altitude: 800, profile: [[250, 2.5], [280, 4]] },
+      params: { sunset: custom, sunrise: defaultEventParams.sunrise },
+    };
+    const { state: back, warnings } = decodeLinkState(encodeLinkState(state));
+    expect(warnings).toEqual([]);
+    expect(back).toEqual({ ...state, params: { sunset: custom } });
+  });
+
+  it("leaves default parameters out of the link", ()=>{
+    const q = encodeLinkState({ lat: 1, lon: 2, anchor: "event", params: defaultEventParams });
+    expect(q).toBe("lat=1.00000&lon=2.00000");
+  });
+
+  it("drops out-of-range or non-numeric fields with a warning", ()=>{
+    const { state, warnings } = decodeLinkState("lat=95&lon=6.6&days=abc&win=&detail=-1");
+    expect(state).toEqual({});
+    expect(warnings).toHaveLength(4);
+    expect(warnings[0]).toContain("invalid lat");
+  });
+
+  it("needs lat and lon together", ()=>{
+    const { state, warnings } = decodeLinkState("lat=46.5");
+    expect(state.lat).toBeUndefined();
+    expect(warnings).toEqual(["缺少纬度或经度，已忽略位置 / lat and lon must be given together"]);
+  });
+
+  it("rejects unknown anchors and modes", ()=>{
+    const { state, warnings } = decodeLinkState("anchor=midnight&mode=moonrise");
+    expect(state).toEqual({});
+    expect(warnings).toHaveLength(2);
+  });
+
+  it("ignores a malformed terrain profile or altitude", ()=>{
+    expect(decodeLinkState("hz=250:2,oops").warnings[0]).toContain("invalid observer");
+    expect(decodeLinkState("alt=99999").state.observer).toBeUndefined();
+  });
+
+  it("survives a p= that is not base64 JSON", ()=>{
+    for(const p of ["%%%", b64url("{not json"), b64url("null"), b64url("[1,2]")]){
+      const { state } = decodeLinkState(`lat=1&lon=2&p=${p}`);
+      expect(state).toEqual({ lat: 1, lon: 2 });
+    }
+    expect(decodeLinkState(`p=${b64url("{not json")}`).warnings).toEqual(
+      ["权重/模型参数无法解析，已使用默认值 / could not decode weights and models"]);
+  });
+
+  it("rejects tampered parameters per event and keeps the valid one", ()=>{
+    const tampered = {
+      sunset: { ...custom, weights: { ...custom.weights, highCloud: -1 } },
+      sunrise: { ...defaultEventParams.sunrise, missing: "renormalize" },
+    };
+    const { state, warnings } = decodeLinkState(`p=${b64url(JSON.stringify(tampered))}`);
+    expect(state.params).toEqual({ sunrise: tampered.sunrise });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("sunset.weights.highCloud: 不能为负 / must be ≥ 0");
+  });
+
+  it("rejects models with an unknown curve type", ()=>{
+    const bad = { sunset: { ...custom, models: { ...custom.models, high: { type: "spline", color: "#000", unit: "%" } } } };
+    const { state, warnings } = decodeLinkState(`p=${b64url(JSON.stringify(bad))}`);
+    expect(state.params).toBeUndefined();
+    expect(warnings[0]).toContain('sunset.models.high.type: 未知类型 "spline"');
+  });
+});
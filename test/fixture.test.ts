@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { shiftToToday } from "../src/lib/weather/fixture";
+import { loadForecast } from "./fixtures";
+
+const data = loadForecast();
+const wall = (s: string)=>new Date(s).toLocaleString("sv-SE", { timeZone: "Europe/Zurich" }).slice(0, 16);
+
+describe("shiftToToday", ()=>{
+  it("keeps the local clock across a DST change", ()=>{
+    // 2025-08-18（夏令时）→ 2025-12-01（冬令时）：UTC 偏移由 +2 变为 +1
+    const shifted = shiftToToday(data, new Date("2025-12-01T10:00:00Z"));
+    expect(wall(shifted.hourly.time[0])).toBe("2025-12-01 00:00");
+    expect(wall(shifted.hourly.time[19])).toBe("2025-12-01 19:00");
+    expect(shifted.hourly.time[0]).toBe("2025-11-30T23:00:00.000Z");
+    expect(shifted.hourly.cloudcover_low).toBe(data.hourly.cloudcover_low);
+  });
+
+  it("returns the data unchanged on its own first day", ()=>{
+    expect(shiftToToday(data, new Date("2025-08-18T12:00:00Z"))).toBe(data);
+  });
+});
@@ -0,0 +1,15 @@
+import { readFileSync } from "node:fs";
+import { normalizeOpenMeteo } from "../src/lib/weather/openMeteo";
+import type { ForecastData } from "../src/lib/weather";
+
+/* 录制的 Open-Meteo 预报（public/fixtures），与页面离线回放用的是同一份文件 */
+export function readFixture<T = unknown>(file: string): T {
+  return JSON.parse(readFileSync(new URL(`../public/fixtures/${file}`, import.meta.url), "utf8")) as T;
+}
+
+export function loadForecast(file = "lausanne-summer.json"): ForecastData {
+  return normalizeOpenMeteo(readFixture(file));
+}
+
+/* 洛桑样例：2025-08-18 起 7 天，Europe/Zurich */
+export const LAUSANNE = { lat: 46.52, lon: 6.63, startKey: "2025-08-18", days: 7 };
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { browserTimeZone, defaultEventParams, predictSunsets } from "../src/lib/scoring";
+import { metNorwayProvider } from "../src/lib/weather";
+import { LAUSANNE } from "./fixtures";
+
+/* 洛桑夏季的 MET 响应：逐小时 UTC 时刻，云量给定即可 */
+function metResponse(){
+  const timeseries = Array.from({ length: 24 }, (_, h)=>({
+    time: `2025-08-18T${String(h).padStart(2, "0")}:00:00Z`,
+    data: { instant: { details: { cloud_area_fraction_high: 50, cloud_area_fraction_medium: 40, cloud_area_fraction_low: 0, wind_speed: 4 } } },
+  }));
+  return { geometry: { coordinates: [LAUSANNE.lon, LAUSANNE.lat, 500] }, properties: { timeseries } };
+}
+
+function stubFetch(timeZone: Response){
+  vi.stubGlobal("fetch", vi.fn(async (url: string)=>
+    url.includes("api.met.no") ? new Response(JSON.stringify(metResponse())) : timeZone.clone()));
+}
+
+const wallClock = (d: Date, timeZone: string)=>
+  new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(d);
+
+afterEach(()=>{ vi.unstubAllGlobals(); });
+
+describe("MET Norway time zone", ()=>{
+  it("uses the location's IANA zone so summer times include DST", async ()=>{
+    stubFetch(new Response(JSON.stringify({ timezone: "Europe/Zurich" })));
+    const data = await metNorwayProvider.fetchForecast({ lat: LAUSANNE.lat, lon: LAUSANNE.lon, days: 1 });
+    expect(data.timezone).toBe("Europe/Zurich");
+    expect(data.timezoneApprox).toBeUndefined();
+
+    const [first] = predictSunsets(data, { ...LAUSANNE, days: 1, windowMinutes: 90, timeZone: data.timezone, ...defaultEventParams.sunset });
+    expect(first.dateKey).toBe("2025-08-18");
+    expect(wallClock(first.twilight.event, data.timezone)).toBe("20:40");   // CEST，UTC+2
+  });
+
+  it("falls back to the browser zone and marks it approximate when the lookup fails", async ()=>{
+    stubFetch(new Response("down", { status: 503 }));
+    const data = await metNorwayProvider.fetchForecast({ lat: LAUSANNE.lat, lon: LAUSANNE.lon, days: 1 });
+    expect(data.timezone).toBe(browserTimeZone());
+    expect(data.timezoneApprox).toBe(true);
+    expect(data.hourly.time).toHaveLength(24);
+  });
+});
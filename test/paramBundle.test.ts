@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { defaultEventParams, type EventParams, type SunEvent } from "../src/lib/scoring";
+import { bundleEvents, makeBundle, paramsFromBundle, parseBundle } from "../src/lib/paramBundle";
+
+const now = new Date("2025-08-18T12:00:00Z");
+const tuned: Record<SunEvent, EventParams> = {
+  sunset: { ...defaultEventParams.sunset, aggregation: { kernel: "triangular", after: 0.5 } },
+  sunrise: { ...defaultEventParams.sunrise, weights: { ...defaultEventParams.sunrise.weights, lowCloud: 0.4 }, missing: "renormalize" },
+};
+
+describe("parameter bundles", ()=>{
+  it("round-trips both events through JSON", ()=>{
+    const bundle = makeBundle(tuned.sunset, { windowMinutes: 60, event: "sunset", byEvent: tuned, meta: { name: "both" }, now });
+    const { bundle: parsed, errors } = parseBundle(JSON.parse(JSON.stringify(bundle)));
+    expect(errors).toEqual([]);
+    expect(bundleEvents(parsed!)).toEqual(["sunset", "sunrise"]);
+    expect(paramsFromBundle(parsed!, "sunset")).toEqual(tuned.sunset);
+    expect(paramsFromBundle(parsed!, "sunrise")).toEqual(tuned.sunrise);
+    // 只读顶层的旧读取方得到 event 那一套
+    expect(paramsFromBundle(parsed!)).toEqual(tuned.sunset);
+  });
+
+  it("falls back to the top-level params for a single-event bundle", ()=>{
+    const bundle = makeBundle(tuned.sunrise, { windowMinutes: 90, event: "sunrise", meta: { name: "sunrise" }, now });
+    expect(bundleEvents(bundle)).toEqual(["sunrise"]);
+    expect(paramsFromBundle(bundle, "sunset")).toEqual(tuned.sunrise);
+  });
+
+  it("reports invalid per-event params with their path", ()=>{
+    const bundle = makeBundle(tuned.sunset, { windowMinutes: 90, byEvent: tuned, meta: { name: "bad" }, now });
+    const json = JSON.parse(JSON.stringify(bundle));
+    json.byEvent.sunrise.weights.highCloud = -1;
+    expect(parseBundle(json).errors).toEqual(["byEvent.sunrise.weights.highCloud: 不能为负 / must be ≥ 0"]);
+  });
+});
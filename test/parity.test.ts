@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { predictSunsets, type ScoreModels, type Weights } from "../src/lib/scoring";
+import { LAUSANNE, loadForecast } from "./fixtures";
+
+const data = loadForecast();
+
+/* 重构前 SunsetPredictor 内联的默认权重与模型（原样抄录，不随默认值变动） */
+const BASE_WEIGHTS: Weights = { highCloud: 0.35, midCloud: 0.25, lowCloud: 0.15, precip: 0.10, visibility: 0.07, wind: 0.08 };
+const BASE_MODELS: ScoreModels = {
+  high: { type: "tri", m: 50, w: 20, color: "#ef4444", unit: "%" },
+  mid:  { type: "tri", m: 40, w: 20, color: "#f59e0b", unit: "%" },
+  low:  { type: "tri", m: 0, w: 20, color: "#3b82f6", unit: "%" },
+  pre:  { type: "clampDown", min: 0, max: 100, color: "#22c55e", unit: "%" },
+  vis:  { type: "clampUp", threshold: 5, full: 15, color: "#a855f7", unit: " km" },
+  wind: { type: "tri", m: 4, w: 4, color: "#0ea5e9", unit: " m/s" },
+};
+
+/* 重构前的实现（组件内 useMemo：SunCalc 日落 ±窗口、等权均值）在同一份洛桑样例上的输出，
+   以 TZ=Europe/Zurich、起始日 2025-08-18 运行得到 */
+type Baseline = { sunset: string; score: number; high: number; mid: number; low: number; pre: number; vis: number; wind: number };
+const BASELINE: Record<number, Baseline[]> = {
+  90: [
+    { sunset: "2025-08-18T18:40:37.668Z", score: 65, high: 47.333333333333336, mid: 33, low: 21.666666666666668, pre: 13, vis: 20.366666666666664, wind: 1.1666666666666667 },
+    { sunset: "2025-08-19T18:38:54.538Z", score: 59, high: 55.333333333333336, mid: 46, low: 31.333333333333332, pre: 40, vis: 15.9, wind: 1.4000000000000001 },
+    { sunset: "2025-08-20T18:37:10.351Z", score: 39, high: 35, mid: 24, low: 14.333333333333334, pre: 6.666666666666667, vis: 21.033333333333335, wind: 2.233333333333333 },
+    { sunset: "2025-08-21T18:35:25.142Z", score: 8, high: 23, mid: 4.333333333333333, low: 64.66666666666667, pre: 75.33333333333333, vis: 8.1, wind: 1.7666666666666668 },
+    { sunset: "2025-08-22T18:33:38.944Z", score: 68, high: 50, mid: 30.666666666666668, low: 22.333333333333332, pre: 11.333333333333334, vis: 18.7, wind: 1.9333333333333333 },
+    { sunset: "2025-08-23T18:31:51.790Z", score: 39, high: 23, mid: 48.666666666666664, low: 12.333333333333334, pre: 12.666666666666666, vis: 19.566666666666666, wind: 1.8 },
+    { sunset: "2025-08-24T18:30:03.713Z", score: 19, high: 68.66666666666667, mid: 23.333333333333332, low: 44.333333333333336, pre: 56, vis: 14, wind: 1.0333333333333334 },
+  ],
+  60: [
+    { sunset: "2025-08-18T18:40:37.668Z", score: 65, high: 45.5, mid: 34, low: 18, pre: 13.5, vis: 21.65, wind: 1.45 },
+    { sunset: "2025-08-19T18:38:54.538Z", score: 56, high: 57, mid: 46.5, low: 33, pre: 40.5, vis: 17, wind: 1.5 },
+    { sunset: "2025-08-20T18:37:10.351Z", score: 48, high: 36.5, mid: 27, low: 12.5, pre: 7.5, vis: 22.55, wind: 2.8 },
+    { sunset: "2025-08-21T18:35:25.142Z", score: 9, high: 23.5, mid: 1.5, low: 65, pre: 71, vis: 7.75, wind: 1.85 },
+    { sunset: "2025-08-22T18:33:38.944Z", score: 60, high: 47, mid: 28.5, low: 21.5, pre: 11.5, vis: 18.05, wind: 1.75 },
+    { sunset: "2025-08-23T18:31:51.790Z", score: 39, high: 29.5, mid: 51, low: 9, pre: 14.5, vis: 18.55, wind: 2.15 },
+    { sunset: "2025-08-24T18:30:03.713Z", score: 19, high: 69.5, mid: 24.5, low: 46, pre: 56.5, vis: 13.65, wind: 1.15 },
+  ],
+};
+
+describe("parity with the pre-refactor scoring", ()=>{
+  for(const windowMinutes of [90, 60]){
+    it(`reproduces the baseline sunsets, window averages and scores (±${windowMinutes} min)`, ()=>{
+      const items = predictSunsets(data, {
+        ...LAUSANNE, windowMinutes, timeZone: data.timezone, weights: BASE_WEIGHTS, models: BASE_MODELS,
+      });
+      expect(items).toHaveLength(BASELINE[windowMinutes].length);
+      items.forEach((s, d)=>{
+        const b = BASELINE[windowMinutes][d];
+        expect(s.twilight.event.toISOString()).toBe(b.sunset);
+        expect(s.score).toBe(b.score);
+        for(const k of ["high", "mid", "low", "pre", "vis", "wind"] as const){
+          expect(s.agg[k]?.avg).toBeCloseTo(b[k], 9);
+        }
+      });
+    });
+  }
+});
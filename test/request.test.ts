@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WeatherFetchError, backoffDelay, createRequestManager, fetchJson, RETRY_MAX_MS } from "../src/lib/weather";
+
+const ok = (body: unknown)=>new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number, headers: Record<string, string> = {})=>new Response("nope", { status: code, headers });
+
+function stubFetch(...responses: Response[]){
+  const fn = vi.fn(async (_url: string, init?: RequestInit)=>{
+    if(init?.signal?.aborted) throw new DOMException("aborted", "AbortError");
+    return responses.shift() ?? ok({});
+  });
+  vi.stubGlobal("fetch", fn);
+  return fn;
+}
+
+// 等 fetchJson 进入下一次等待后再推进时钟
+const flush = ()=>vi.advanceTimersByTimeAsync(0);
+
+beforeEach(()=>{ vi.useFakeTimers(); });
+afterEach(()=>{ vi.useRealTimers(); vi.unstubAllGlobals(); });
+
+describe("backoffDelay", ()=>{
+  it("doubles from the base and caps at the maximum", ()=>{
+    expect([0, 1, 2].map(a=>backoffDelay(a, 500))).toEqual([500, 1000, 2000]);
+    expect(backoffDelay(10, 500)).toBe(RETRY_MAX_MS);
+  });
+
+  it("waits for a longer Retry-After but caps it", ()=>{
+    expect(backoffDelay(0, 500, 3000)).toBe(3000);
+    expect(backoffDelay(2, 500, 100)).toBe(2000);
+    expect(backoffDelay(0, 500, 10*60*1000)).toBe(4*RETRY_MAX_MS);
+  });
+});
+
+describe("fetchJson", ()=>{
+  it("retries a 429 after the Retry-After delay", async ()=>{
+    const fetch = stubFetch(status(429, { "Retry-After": "3" }), ok({ hello: 1 }));
+    const p = fetchJson<{ hello: number }>("https://example.test", { baseDelayMs: 100 });
+    await flush();
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(p).resolves.toEqual({ hello: 1 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after the configured retries with the last error", async ()=>{
+    const fetch = stubFetch(status(503), status(503), status(503));
+    const p = fetchJson("https://example.test", { retries: 2, baseDelayMs: 100 });
+    const result = expect(p).rejects.toMatchObject({ kind: "provider-down", status: 503 });
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    await result;
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async ()=>{
+    const fetch = stubFetch(status(400));
+    await expect(fetchJson("https://example.test")).rejects.toMatchObject({ kind: "invalid-location" });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting when aborted during backoff", async ()=>{
+    const fetch = stubFetch(status(429, { "Retry-After": "5" }), ok({}));
+    const ctrl = new AbortController();
+    const p = fetchJson("https://example.test", { signal: ctrl.signal });
+    const result = expect(p).rejects.toMatchObject({ kind: "aborted" });
+    await flush();
+    ctrl.abort();
+    await result;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports unparseable bodies as bad responses", async ()=>{
+    stubFetch(new Response("<html>", { status: 200 }));
+    await expect(fetchJson("https://example.test")).rejects.toMatchObject({ kind: "bad-response" });
+  });
+});
+
+describe("createRequestManager", ()=>{
+  it("aborts the previous request when a new one starts", async ()=>{
+    const manager = createRequestManager();
+    const signals: AbortSignal[] = [];
+    const task = (value: number)=>(signal: AbortSignal)=>{
+      signals.push(signal);
+      return new Promise<number>(resolve=>setTimeout(()=>resolve(value), 100));
+    };
+    const first = manager.run(task(1));
+    const firstResult = expect(first).rejects.toBeInstanceOf(WeatherFetchError);
+    const second = manager.run(task(2));
+    expect(signals[0].aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await firstResult;
+    await expect(second).resolves.toBe(2);
+  });
+
+  it("debounces: only the last of rapid calls runs its task", async ()=>{
+    const manager = createRequestManager();
+    const task = vi.fn(async ()=>"done");
+    const calls = [1, 2, 3].map(()=>manager.run(task, { debounceMs: 300 }));
+    const superseded = Promise.all(calls.slice(0, 2).map(c=>expect(c).rejects.toMatchObject({ kind: "aborted" })));
+    await vi.advanceTimersByTimeAsync(300);
+    await superseded;
+    await expect(calls[2]).resolves.toBe("done");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancel() rejects the pending request as aborted", async ()=>{
+    const manager = createRequestManager();
+    const p = manager.run(()=>new Promise(resolve=>setTimeout(resolve, 100)));
+    const result = expect(p).rejects.toMatchObject({ kind: "aborted" });
+    manager.cancel();
+    await vi.advanceTimersByTimeAsync(100);
+    await result;
+  });
+});
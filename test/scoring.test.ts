@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { defaultEventParams, predictEnsemble, predictSunsets, scoreByModel, scoreFactors, whatIfScore, type SunEvent } from "../src/lib/scoring";
+import { LAUSANNE, loadForecast } from "./fixtures";
+
+const data = loadForecast();
+const MIN = 60*1000;
+
+function predict(event: SunEvent, extra = {}){
+  return predictSunsets(data, { ...LAUSANNE, windowMinutes: 90, timeZone: data.timezone, event, ...defaultEventParams[event], ...extra });
+}
+
+describe("predictSunsets on the Lausanne fixture", ()=>{
+  it("scores every day in the location's timezone", ()=>{
+    const items = predict("sunset");
+    expect(items.map(s=>s.dateKey)).toEqual(
+      ["2025-08-18","2025-08-19","2025-08-20","2025-08-21","2025-08-22","2025-08-23","2025-08-24"]);
+    expect(items.every(s=>s.timeZone==="Europe/Zurich" && !s.polar)).toBe(true);
+  });
+
+  it("returns the recorded sunset and sunrise scores", ()=>{
+    expect(predict("sunset").map(s=>s.score)).toEqual([65, 59, 39, 8, 68, 39, 19]);
+    expect(predict("sunrise").map(s=>s.score)).toEqual([61, 20, 51, 9, 51, 67, 41]);
+    expect(predict("sunset").map(s=>s.label)).toEqual(
+      ["Good / 较好","Good / 较好","Poor / 不佳","Poor / 不佳","Good / 较好","Poor / 不佳","Poor / 不佳"]);
+  });
+
+  it("adds up the explained contributions to the score", ()=>{
+    for(const s of predict("sunset")){
+      const sum = s.explain.items.reduce((a, it)=>a + it.contribution, 0);
+      expect(s.explain.total).toBe(s.score);
+      expect(Math.round(sum)).toBe(s.score);
+    }
+  });
+
+  it("centres a ±window on the astronomical sunset", ()=>{
+    const [first] = predict("sunset");
+    expect(first.twilight.event.toISOString()).toBe("2025-08-18T18:40:37.668Z");
+    const tl = first.timeline!;
+    expect(tl[0].time.getTime()).toBe(first.twilight.event.getTime() - 90*MIN);
+    expect(tl[tl.length-1].time.getTime()).toBe(first.twilight.event.getTime() + 90*MIN);
+  });
+
+  it("averages the hours inside the window", ()=>{
+    const [first] = predict("sunset");
+    const event = first.twilight.event.getTime();
+    const low = data.hourly.time
+      .map((t, i)=>({ t: new Date(t).getTime(), v: data.hourly.cloudcover_low![i] }))
+      .filter(p=>p.t>=event - 90*MIN && p.t<=event + 90*MIN && p.v!=null)
+      .map(p=>p.v!);
+    expect(low).toHaveLength(3);
+    expect(first.agg.low!.avg).toBeCloseTo(low.reduce((a, b)=>a + b, 0)/low.length, 6);
+    expect(first.agg.low!.min).toBe(Math.min(...low));
+    expect(first.agg.low!.max).toBe(Math.max(...low));
+  });
+});
+
+describe("scoreByModel", ()=>{
+  it("evaluates the curve families", ()=>{
+    const color = "#000", unit = "%" as const;
+    expect(scoreByModel(50, { type: "tri", m: 50, w: 30, color, unit })).toBe(1);
+    expect(scoreByModel(80, { type: "tri", m: 50, w: 30, color, unit })).toBe(0);
+    expect(scoreByModel(65, { type: "tri", m: 50, w: 30, color, unit })).toBeCloseTo(0.5);
+    expect(scoreByModel(65, { type: "invTri", m: 50, w: 30, color, unit })).toBeCloseTo(0.5);
+    expect(scoreByModel(15, { type: "clampUp", threshold: 10, full: 20, color, unit })).toBeCloseTo(0.5);
+    expect(scoreByModel(40, { type: "clampDown", min: 0, max: 70, color, unit })).toBeCloseTo(3/7);
+    expect(scoreByModel(5, { type: "logistic", mid: 5, k: 1, color, unit })).toBeCloseTo(0.5);
+    expect(scoreByModel(25, { type: "piecewise", points: [[0, 0], [50, 1]], color, unit })).toBeCloseTo(0.5);
+    expect(scoreByModel(undefined, { type: "tri", m: 50, w: 30, color, unit })).toBeUndefined();
+  });
+
+  it("matches the per-factor s in the explanation", ()=>{
+    const [first] = predict("sunset");
+    for(const it of first.explain.items){
+      const model = defaultEventParams.sunset.models[it.key as keyof typeof defaultEventParams.sunset.models]!;
+      expect(it.s).toBeCloseTo(scoreByModel(it.value, model)!, 10);
+    }
+  });
+});
+
+describe("whatIfScore on ensemble items", ()=>{
+  // 四个"模型"（偶数个，中位数落在两个成员之间）：原样、高云 +30、低云 +40、中云 +25
+  const shift = (key: "cloudcover_high" | "cloudcover_mid" | "cloudcover_low", by: number)=>
+    ({ ...data, hourly: { ...data.hourly, [key]: data.hourly[key]!.map(v=>v==null ? v : Math.min(100, v + by)) } });
+  const params = defaultEventParams.sunset;
+  const items = predictEnsemble(
+    { base: data, high: shift("cloudcover_high", 30), low: shift("cloudcover_low", 40), mid: shift("cloudcover_mid", 25) },
+    { ...LAUSANNE, windowMinutes: 90, timeZone: data.timezone }, { sunset: params });
+  const median = (xs: number[])=>{ const s = [...xs].sort((a, b)=>a - b); return Math.round((s[1] + s[2])/2); };
+
+  it("starts from the ensemble median rather than the representative member", ()=>{
+    const repScore = (s: typeof items[number])=>s.ensemble!.members.find(m=>m.model===s.ensemble!.representative)!.score;
+    expect(items.some(s=>repScore(s)!==s.score)).toBe(true);
+    for(const s of items) expect(whatIfScore(s, {}, params).score).toBe(s.score);
+  });
+
+  it("applies overrides to every member and takes the median", ()=>{
+    for(const s of items){
+      const expected = median(s.ensemble!.members.map(m=>
+        scoreFactors({ ...m.values, mid: 40 }, params.weights, params.models, undefined, params.missing).score));
+      expect(whatIfScore(s, { mid: 40 }, params).score).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import * as SunCalc from "suncalc";
+import {
+  apparentHorizon, defaultEventParams, hasObserver, horizonDip, localSunEvent, parseHorizonProfile, predictSunsets, profileAt,
+  sortProfile, zonedNoon, type Observer, type SunEvent,
+} from "../src/lib/scoring";
+import { LAUSANNE, loadForecast } from "./fixtures";
+
+const MIN = 60*1000;
+const day = zonedNoon(LAUSANNE.startKey, "Europe/Zurich");
+
+function local(event: SunEvent, observer: Observer){
+  const times = SunCalc.getTimes(day, LAUSANNE.lat, LAUSANNE.lon);
+  return localSunEvent(day, LAUSANNE.lat, LAUSANNE.lon, event, observer, event==="sunset" ? times.sunset : times.sunrise);
+}
+
+describe("horizon geometry", ()=>{
+  it("dips the sea horizon with altitude", ()=>{
+    expect(horizonDip()).toBe(0);
+    expect(horizonDip(-50)).toBe(0);
+    expect(horizonDip(100)).toBeCloseTo(1.76*10/60, 10);
+  });
+
+  it("interpolates the profile by azimuth and wraps across north", ()=>{
+    const sorted = sortProfile([[10, 4], [350, 2], [90, 0]]);
+    expect(sorted.map(p=>p[0])).toEqual([10, 90, 350]);
+    expect(profileAt(sorted, 50)).toBeCloseTo(2);
+    expect(profileAt(sorted, 0)).toBeCloseTo(3);
+    expect(profileAt(sorted, 360)).toBeCloseTo(3);
+    expect(profileAt(sortProfile([[200, 5]]), 20)).toBe(5);
+    expect(profileAt([], 20)).toBeUndefined();
+  });
+
+  it("takes the higher of the dipped horizon and the terrain", ()=>{
+    const observer: Observer = { altitude: 400, profile: [[0, -2], [180, 3]] };
+    expect(apparentHorizon(observer, 180)).toBeCloseTo(3);
+    expect(apparentHorizon(observer, 0)).toBeCloseTo(-horizonDip(400));
+    expect(hasObserver({})).toBe(false);
+    expect(hasObserver({ altitude: 0, profile: [] })).toBe(false);
+  });
+});
+
+describe("localSunEvent", ()=>{
+  // SunCalc 的 getTimes 与 getPosition 在地平附近相差约 0.25°，平坦地平只能对到 2 分钟内
+  it("stays close to the astronomical sunset for a flat sea-level horizon", ()=>{
+    const flat = local("sunset", { profile: [[0, 0]] });
+    expect(Math.abs(flat.shiftMinutes!)).toBeLessThan(2);
+  });
+
+  it("sets later and rises earlier from altitude", ()=>{
+    expect(local("sunset", { altitude: 1000 }).shiftMinutes!).toBeGreaterThan(3);
+    expect(local("sunrise", { altitude: 1000 }).shiftMinutes!).toBeLessThan(-3);
+  });
+
+  it("sets earlier behind a western ridge", ()=>{
+    const ridge = local("sunset", { profile: [[240, 5], [320, 5], [60, 0], [120, 0]] });
+    expect(ridge.shiftMinutes!).toBeLessThan(-20);
+    expect(ridge.horizon).toBeCloseTo(5);
+    expect(ridge.azimuth).toBeGreaterThan(240);
+    expect(ridge.azimuth).toBeLessThan(320);
+  });
+
+  it("reports a hidden sun when the terrain is higher than its path", ()=>{
+    const walled = local("sunset", { profile: [[0, 60], [180, 60]] });
+    expect(walled.time).toBeUndefined();
+    expect(walled.noCrossing).toBe("hidden");
+  });
+
+  it("anchors the scoring window on the local sunset", ()=>{
+    const data = loadForecast();
+    const observer: Observer = { profile: [[240, 5], [320, 5]] };
+    const [first] = predictSunsets(data, { ...LAUSANNE, days: 1, windowMinutes: 90, timeZone: data.timezone, observer, ...defaultEventParams.sunset });
+    expect(first.local?.time).toBeDefined();
+    expect(first.timeline![0].time.getTime()).toBe(first.local!.time!.getTime() - 90*MIN);
+  });
+});
+
+describe("parseHorizonProfile", ()=>{
+  it("parses separators, comments and a header row, sorted by azimuth", ()=>{
+    const { profile, errors } = parseHorizonProfile("azimuth,elevation\n300;4 # ridge\n\n240\t2.5\n270 6\n");
+    expect(errors).toEqual([]);
+    expect(profile).toEqual([[240, 2.5], [270, 6], [300, 4]]);
+  });
+
+  it("reports bad lines by number without throwing", ()=>{
+    const { profile, errors } = parseHorizonProfile("240,2\n400,1\n250,90\nfoo,bar\n260");
+    expect(profile).toEqual([[240, 2]]);
+    expect(errors).toEqual([
+      "第 2 行 / line 2: 方位应在 0–360° / azimuth must be within 0–360°",
+      "第 3 行 / line 3: 仰角应在 -5–60° / elevation must be within -5–60°",
+      '第 4 行 / line 4: 应为「方位,仰角」/ expected "azimuth,elevation"',
+      '第 5 行 / line 5: 应为「方位,仰角」/ expected "azimuth,elevation"',
+    ]);
+  });
+});